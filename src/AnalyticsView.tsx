@@ -0,0 +1,76 @@
+import { ItemView, ViewStateResult, WorkspaceLeaf } from 'obsidian';
+import { createElement } from 'preact';
+import { render, unmountComponentAtNode } from 'preact/compat';
+
+import { AnalyticsViewComponent } from './components/Analytics/AnalyticsViewComponent';
+import { c } from './components/helpers';
+import { t } from './lang/helpers';
+import KanbanPlugin from './main';
+
+export const ANALYTICS_VIEW_TYPE = 'kanban-analytics';
+export const ANALYTICS_ICON = 'lucide-bar-chart-3';
+export const ANALYTICS_RANGES = [30, 90, 180, 365];
+
+export class AnalyticsView extends ItemView {
+  plugin: KanbanPlugin;
+  // Paths of the boards to chart. Empty means every board.
+  boards: string[] = [];
+  rangeDays = 90;
+
+  constructor(leaf: WorkspaceLeaf, plugin: KanbanPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType() {
+    return ANALYTICS_VIEW_TYPE;
+  }
+
+  getDisplayText() {
+    return t('Analytics');
+  }
+
+  getIcon() {
+    return ANALYTICS_ICON;
+  }
+
+  getState() {
+    return { ...super.getState(), boards: this.boards, rangeDays: this.rangeDays };
+  }
+
+  async setState(state: any, result: ViewStateResult) {
+    await super.setState(state, result);
+    if (Array.isArray(state?.boards)) {
+      this.boards = state.boards.filter((path: unknown) => typeof path === 'string');
+    }
+    if (ANALYTICS_RANGES.includes(state?.rangeDays)) {
+      this.rangeDays = state.rangeDays;
+    }
+    this.renderComponent();
+  }
+
+  setOptions(boards: string[], rangeDays: number) {
+    this.boards = boards;
+    this.rangeDays = rangeDays;
+    this.app.workspace.requestSaveLayout();
+  }
+
+  private renderComponent() {
+    unmountComponentAtNode(this.contentEl);
+    this.contentEl.empty();
+    this.contentEl.addClass(c('analytics-view'));
+
+    render(
+      createElement(AnalyticsViewComponent, { plugin: this.plugin, view: this }),
+      this.contentEl
+    );
+  }
+
+  async onOpen() {
+    this.renderComponent();
+  }
+
+  async onClose() {
+    unmountComponentAtNode(this.contentEl);
+  }
+}
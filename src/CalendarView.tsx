@@ -0,0 +1,70 @@
+import { ItemView, ViewStateResult, WorkspaceLeaf } from 'obsidian';
+import { createElement } from 'preact';
+import { render, unmountComponentAtNode } from 'preact/compat';
+
+import { CalendarViewComponent } from './components/Calendar/CalendarViewComponent';
+import { c } from './components/helpers';
+import { CalendarMode } from './helpers/calendar';
+import { t } from './lang/helpers';
+import KanbanPlugin from './main';
+
+export const CALENDAR_VIEW_TYPE = 'kanban-calendar';
+export const CALENDAR_ICON = 'lucide-calendar-days';
+
+export class CalendarView extends ItemView {
+  plugin: KanbanPlugin;
+  mode: CalendarMode = 'month';
+
+  constructor(leaf: WorkspaceLeaf, plugin: KanbanPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType() {
+    return CALENDAR_VIEW_TYPE;
+  }
+
+  getDisplayText() {
+    return t('Calendar');
+  }
+
+  getIcon() {
+    return CALENDAR_ICON;
+  }
+
+  getState() {
+    return { ...super.getState(), mode: this.mode };
+  }
+
+  async setState(state: any, result: ViewStateResult) {
+    await super.setState(state, result);
+    if (state?.mode === 'month' || state?.mode === 'week' || state?.mode === 'agenda') {
+      this.mode = state.mode;
+    }
+    this.renderComponent();
+  }
+
+  setMode(mode: CalendarMode) {
+    this.mode = mode;
+    this.app.workspace.requestSaveLayout();
+  }
+
+  private renderComponent() {
+    unmountComponentAtNode(this.contentEl);
+    this.contentEl.empty();
+    this.contentEl.addClass(c('calendar-view'));
+
+    render(
+      createElement(CalendarViewComponent, { plugin: this.plugin, view: this }),
+      this.contentEl
+    );
+  }
+
+  async onOpen() {
+    this.renderComponent();
+  }
+
+  async onClose() {
+    unmountComponentAtNode(this.contentEl);
+  }
+}
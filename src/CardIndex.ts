@@ -0,0 +1,397 @@
+import { Root as MdastRoot } from 'mdast';
+import { TAbstractFile, TFile, debounce } from 'obsidian';
+
+import { KanbanSettings } from './Settings';
+import { StateManager } from './StateManager';
+import { Board, Item, ItemData, Lane } from './components/types';
+import { hasFrontmatterKey } from './helpers';
+import { isBoardTemplate } from './helpers/boardTemplates';
+import { debugLog } from './helpers/debugLogger';
+import { getBoardDoneLanes, isDoneLane } from './helpers/doneLanes';
+import {
+  KanbanQuery,
+  KanbanQueryCandidate,
+  boardMatchesKanbanQuery,
+  matchesKanbanQuery,
+  orderKanbanQueryResults,
+} from './helpers/kanbanQuery';
+import { t } from './lang/helpers';
+import KanbanPlugin from './main';
+import { astToUnhydratedBoard } from './parsers/formats/list';
+import { hydrateBoard, hydrateItem } from './parsers/helpers/hydrateBoard';
+import { parseMarkdown } from './parsers/parseMarkdown';
+
+export interface IndexedBoard {
+  file: TFile;
+  // File stats at the time the board was parsed, used to detect stale entries
+  mtime: number;
+  size: number;
+  content: string;
+  // The raw AST is kept for views that walk nested list items themselves
+  ast: MdastRoot;
+  board: Board;
+  cards: IndexedCard[];
+  // Cards below the board's archive separator
+  archive: IndexedCard[];
+}
+
+export interface IndexedCard extends KanbanQueryCandidate {
+  file: TFile;
+  item: Item;
+  data: ItemData;
+  // Archived cards have no lane and a laneIndex of -1
+  lane: Lane | null;
+  laneIndex: number;
+  laneColor?: string;
+  archived: boolean;
+  // Whether the card sits in one of the board's done lanes, see the 'done-lanes' setting
+  inDoneLane: boolean;
+}
+
+export type CardIndexListener = (changedPaths: string[]) => void;
+
+// Global settings that change how boards are parsed, or which files count as boards
+const indexSettingKeys: (keyof KanbanSettings)[] = [
+  'date-format',
+  'time-format',
+  'date-trigger',
+  'time-trigger',
+  'date-display-format',
+  'date-colors',
+  'inline-metadata-position',
+  'move-dates',
+  'move-tags',
+  'move-task-metadata',
+  'metadata-keys',
+  'memberAssignmentPrefix',
+  'auto-add-board-tag',
+  'auto-add-lane-tag',
+  'done-lanes',
+  'boardTemplateFolder',
+];
+
+function isInRoot(path: string, rootPath?: string) {
+  const root = rootPath?.trim().replace(/\/$/, '');
+  if (!root) return true;
+  return path.startsWith(root + '/');
+}
+
+// Vault-wide index of every kanban board and its cards. Boards are parsed once when the
+// workspace is ready and then re-parsed individually as they change, so views don't have to
+// walk and re-parse the whole vault on every refresh.
+export class CardIndex {
+  plugin: KanbanPlugin;
+  boards: Map<string, IndexedBoard> = new Map();
+  listeners: Set<CardIndexListener> = new Set();
+
+  private readyPromise: Promise<void> | null = null;
+  // Bumped by every build so a slower, older build can't overwrite a newer one's result
+  private buildGeneration = 0;
+  private dirtyPaths: Set<string> = new Set();
+  private changedPaths: Set<string> = new Set();
+
+  constructor(plugin: KanbanPlugin) {
+    this.plugin = plugin;
+  }
+
+  registerEvents() {
+    const { app } = this.plugin;
+
+    // 'changed' fires once the metadata cache has caught up with the new file contents, so the
+    // frontmatter check in indexFile sees the current state. It also covers file creation.
+    this.plugin.registerEvent(
+      app.metadataCache.on('changed', (file: TFile) => {
+        this.markDirty(file.path);
+      })
+    );
+
+    this.plugin.registerEvent(
+      app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+        if (!(file instanceof TFile)) return;
+        if (this.boards.delete(oldPath)) {
+          this.changedPaths.add(oldPath);
+        }
+        this.markDirty(file.path);
+      })
+    );
+
+    this.plugin.registerEvent(
+      app.vault.on('delete', (file: TAbstractFile) => {
+        if (!(file instanceof TFile)) return;
+        this.dirtyPaths.delete(file.path);
+        if (this.boards.delete(file.path)) {
+          this.changedPaths.add(file.path);
+          this.flush();
+        }
+      })
+    );
+  }
+
+  // Resolves once the initial build has finished. Starts the build if nothing has yet.
+  whenReady(): Promise<void> {
+    if (!this.readyPromise) {
+      this.readyPromise = this.build();
+    }
+    return this.readyPromise;
+  }
+
+  // Drops everything and re-parses all boards, e.g. after global parse settings change
+  rebuild(): Promise<void> {
+    this.readyPromise = this.build();
+    return this.readyPromise;
+  }
+
+  // Rebuilds once the settings stop changing, and only if the change affects the index, so
+  // typing into a settings field doesn't re-parse the whole vault on every keystroke
+  onSettingsChange(previous: KanbanSettings, next: KanbanSettings) {
+    const changed = indexSettingKeys.some(
+      (key) => JSON.stringify(previous[key]) !== JSON.stringify(next[key])
+    );
+    if (changed) this.requestRebuild();
+  }
+
+  requestRebuild = debounce(() => this.rebuild(), 1000, true);
+
+  private async build() {
+    const generation = ++this.buildGeneration;
+    const start = performance.now();
+    const previousPaths = Array.from(this.boards.keys());
+
+    // Build into a fresh map so readers keep seeing the previous index until we're done
+    const boards: Map<string, IndexedBoard> = new Map();
+    for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+      if (!this.isIndexable(file)) continue;
+      const indexed = await this.indexFile(file);
+      // A newer build has started and will set the boards itself
+      if (generation !== this.buildGeneration) return;
+      if (indexed) boards.set(file.path, indexed);
+    }
+    if (generation !== this.buildGeneration) return;
+    this.boards = boards;
+
+    debugLog(
+      `[CardIndex] Indexed ${this.boards.size} boards in ${Math.round(performance.now() - start)}ms`
+    );
+
+    previousPaths.forEach((path) => this.changedPaths.add(path));
+    this.boards.forEach((_, path) => this.changedPaths.add(path));
+    this.emitChanges();
+  }
+
+  private markDirty(path: string) {
+    this.dirtyPaths.add(path);
+    this.flush();
+  }
+
+  private flush = debounce(
+    async () => {
+      // Changes that arrive before the initial build are picked up by the build itself
+      if (!this.readyPromise) {
+        this.dirtyPaths.clear();
+        return;
+      }
+      await this.readyPromise;
+
+      const paths = Array.from(this.dirtyPaths);
+      this.dirtyPaths.clear();
+
+      for (const path of paths) {
+        const file = this.plugin.app.vault.getAbstractFileByPath(path);
+        const existing = this.boards.get(path);
+        const isBoard = file instanceof TFile && this.isIndexable(file);
+
+        // A reader may already have re-indexed this board through getBoards
+        if (existing && isBoard && !this.isStale(existing)) continue;
+
+        const indexed = isBoard && (await this.indexFile(file));
+
+        if (indexed) {
+          this.boards.set(path, indexed);
+          this.changedPaths.add(path);
+        } else if (existing) {
+          // The file stopped being a board, or could no longer be parsed
+          this.boards.delete(path);
+          this.changedPaths.add(path);
+        }
+      }
+
+      this.emitChanges();
+    },
+    300,
+    true
+  );
+
+  private isIndexable(file: TFile) {
+    return hasFrontmatterKey(file) && !isBoardTemplate(this.plugin, file.path);
+  }
+
+  private async indexFile(file: TFile): Promise<IndexedBoard | null> {
+    try {
+      const content = await this.plugin.app.vault.cachedRead(file);
+      return this.parseBoard(file, content);
+    } catch (e) {
+      console.error(`[CardIndex] Error indexing board ${file.path}:`, e);
+      return null;
+    }
+  }
+
+  private parseBoard(file: TFile, content: string): IndexedBoard {
+    const stateManager = new StateManager(
+      this.plugin.app,
+      { file } as any,
+      () => {},
+      (): KanbanSettings => this.plugin.settings
+    );
+
+    const { ast, settings, frontmatter } = parseMarkdown(stateManager, content);
+    const board = hydrateBoard(
+      stateManager,
+      astToUnhydratedBoard(stateManager, settings, frontmatter, ast as MdastRoot, content)
+    );
+
+    const doneLanes = getBoardDoneLanes(board, this.plugin.settings);
+
+    const toCard = (item: Item, lane: Lane | null, laneIndex: number): IndexedCard => ({
+      file,
+      item,
+      data: item.data,
+      lane,
+      laneIndex,
+      laneColor: lane?.data.backgroundColor,
+      archived: !lane,
+      inDoneLane: isDoneLane(lane, doneLanes),
+      title: item.data.title,
+      boardName: file.basename,
+      boardPath: file.path,
+      laneName: lane ? lane.data.title : t('Archive'),
+      tags: item.data.metadata?.tags || [],
+      assignedMembers: item.data.assignedMembers || [],
+      priority: item.data.metadata?.priority,
+      metadata: item.data.metadata,
+    });
+
+    const cards: IndexedCard[] = [];
+    board.children.forEach((lane, laneIndex) => {
+      lane.children.forEach((item) => cards.push(toCard(item, lane, laneIndex)));
+    });
+
+    // hydrateBoard only covers lanes
+    const archive = board.data.archive.map((item) =>
+      toCard(hydrateItem(stateManager, item), null, -1)
+    );
+
+    return {
+      file,
+      mtime: file.stat.mtime,
+      size: file.stat.size,
+      content,
+      ast: ast as MdastRoot,
+      board,
+      cards,
+      archive,
+    };
+  }
+
+  private emitChanges() {
+    if (this.changedPaths.size === 0) return;
+
+    const paths = Array.from(this.changedPaths);
+    this.changedPaths.clear();
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(paths);
+      } catch (e) {
+        console.error('[CardIndex] Error in change listener:', e);
+      }
+    });
+  }
+
+  // Returns an unsubscribe function, suitable for Component.register
+  onChange(listener: CardIndexListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private isStale(board: IndexedBoard) {
+    return board.file.stat.mtime !== board.mtime || board.file.stat.size !== board.size;
+  }
+
+  // Re-parses boards that were written to since they were indexed. Views often rescan right
+  // after writing a board themselves, before the metadata cache event has reached us.
+  private async refreshStale(boards: IndexedBoard[]) {
+    const fresh: IndexedBoard[] = [];
+
+    for (const board of boards) {
+      if (!this.isStale(board)) {
+        fresh.push(board);
+        continue;
+      }
+
+      const indexed = await this.indexFile(board.file);
+      if (indexed) {
+        this.boards.set(indexed.file.path, indexed);
+        fresh.push(indexed);
+      } else {
+        this.boards.delete(board.file.path);
+      }
+      this.changedPaths.add(board.file.path);
+    }
+
+    this.emitChanges();
+    return fresh;
+  }
+
+  async getBoard(path: string): Promise<IndexedBoard | null> {
+    await this.whenReady();
+    const board = this.boards.get(path);
+    if (!board) return null;
+    const [fresh] = await this.refreshStale([board]);
+    return fresh || null;
+  }
+
+  // Boards sorted by path, optionally limited to a folder
+  async getBoards(rootPath?: string): Promise<IndexedBoard[]> {
+    await this.whenReady();
+    const boards = Array.from(this.boards.values())
+      .filter((board) => isInRoot(board.file.path, rootPath))
+      .sort((a, b) => a.file.path.localeCompare(b.file.path));
+    return this.refreshStale(boards);
+  }
+
+  async getCards(filter?: (card: IndexedCard) => boolean, rootPath?: string) {
+    const cards: IndexedCard[] = [];
+    for (const board of await this.getBoards(rootPath)) {
+      for (const card of board.cards) {
+        if (!filter || filter(card)) cards.push(card);
+      }
+    }
+    return cards;
+  }
+
+  async findCardByBlockId(blockId: string, boardPath?: string): Promise<IndexedCard | null> {
+    const boards = boardPath ? [await this.getBoard(boardPath)] : await this.getBoards();
+    for (const board of boards) {
+      if (!board) continue;
+      const card = board.cards.find((c) => c.data.blockId === blockId);
+      if (card) return card;
+    }
+    return null;
+  }
+
+  async queryCards(query: KanbanQuery) {
+    const boards = (await this.getBoards()).filter((board) =>
+      boardMatchesKanbanQuery(board.file.path, query)
+    );
+
+    const cards: IndexedCard[] = [];
+    for (const board of boards) {
+      for (const card of board.cards) {
+        if (matchesKanbanQuery(card, query)) cards.push(card);
+      }
+    }
+    return orderKanbanQueryResults(cards, query);
+  }
+}
@@ -3,6 +3,7 @@ import update from 'immutability-helper';
 import { JSX, createPortal, memo, useCallback, useMemo } from 'preact/compat';
 
 import { KanbanView } from './KanbanView';
+import { StateManager } from './StateManager';
 import { DraggableItem } from './components/Item/Item';
 import { DraggableLane } from './components/Lane/Lane';
 import { KanbanContext } from './components/context';
@@ -10,7 +11,7 @@ import { c, maybeCompleteForMove } from './components/helpers';
 import { Board, DataTypes, Item, Lane } from './components/types';
 import { DndContext } from './dnd/components/DndContext';
 import { DragOverlay } from './dnd/components/DragOverlay';
-import { Entity, Nestable } from './dnd/types';
+import { Entity, Nestable, Path } from './dnd/types';
 import {
   getEntityFromPath,
   insertEntity,
@@ -18,7 +19,12 @@ import {
   removeEntity,
   updateEntity,
 } from './dnd/util/data';
+import { getItemChangeEvents, recordItemActivity } from './helpers/activityLog';
+import { createHistoryGroup } from './helpers/boardHistory';
 import { getBoardModifiers } from './helpers/boardModifiers';
+import { applyLaneMoveRules } from './helpers/laneRules';
+import { checkLaneWipLimit, checkMemberWipChange, getMemberWipCard } from './helpers/wipLimits';
+import { t } from './lang/helpers';
 import KanbanPlugin from './main';
 import { frontmatterKey } from './parsers/common';
 import {
@@ -35,6 +41,45 @@ const View = memo(function View({ view }: { view: KanbanView }) {
   return createPortal(view.getPortal(), view.contentEl);
 });
 
+// The destination's completion setting and lane rules can reopen, tag or assign the card, so the
+// member WIP limits are checked against the card as the move will leave it
+function checkMemberWipForMove(
+  plugin: KanbanPlugin,
+  sourceStateManager: StateManager,
+  dragPath: Path,
+  destinationStateManager: StateManager,
+  destinationLanePath: Path
+) {
+  const sourceBoard = sourceStateManager.state;
+  const destinationBoard = destinationStateManager.state;
+  const item: Item = getEntityFromPath(sourceBoard, dragPath);
+  const sourceLane: Lane = getEntityFromPath(sourceBoard, dragPath.slice(0, -1));
+  const destinationLane: Lane = getEntityFromPath(destinationBoard, destinationLanePath);
+
+  const { next } = maybeCompleteForMove(
+    sourceStateManager,
+    sourceBoard,
+    dragPath,
+    destinationStateManager,
+    destinationBoard,
+    [...destinationLanePath, 0],
+    item
+  );
+  const moved = applyLaneMoveRules(
+    sourceStateManager,
+    sourceLane,
+    destinationStateManager,
+    destinationLane,
+    next
+  );
+
+  return checkMemberWipChange(
+    plugin,
+    getMemberWipCard(item, sourceLane),
+    getMemberWipCard(moved, destinationLane)
+  );
+}
+
 export function DragDropApp({ win, plugin }: { win: Window; plugin: KanbanPlugin }) {
   const views = plugin.useKanbanViews(win);
   const portals: JSX.Element[] = views.map((view) => <View key={view.id} view={view} />);
@@ -51,6 +96,10 @@ export function DragDropApp({ win, plugin }: { win: Window; plugin: KanbanPlugin
         const dropPath = dropEntity.getPath();
         const destinationParent = getEntityFromPath(stateManager.state, dropPath.slice(0, -1));
 
+        if (!checkLaneWipLimit(stateManager, destinationParent, data.content.length)) {
+          return;
+        }
+
         try {
           const items: Item[] = data.content.map((title: string) => {
             let item = stateManager.getNewItem(title, ' ', false, destinationParent?.data?.title);
@@ -81,6 +130,16 @@ export function DragDropApp({ win, plugin }: { win: Window; plugin: KanbanPlugin
             });
           });
 
+          const isWithinMemberLimits = items.every((item) =>
+            checkMemberWipChange(
+              plugin,
+              null,
+              getMemberWipCard(item, destinationParent),
+              t('The card was not added.')
+            )
+          );
+          if (!isWithinMemberLimits) return;
+
           return stateManager.setState((board) => insertEntity(board, dropPath, items));
         } catch (e) {
           stateManager.setError(e);
@@ -109,6 +168,25 @@ export function DragDropApp({ win, plugin }: { win: Window; plugin: KanbanPlugin
           dropPath.push(0);
         }
 
+        if (
+          dragEntityData.type === DataTypes.Item &&
+          dragPath[0] !== dropPath[0] &&
+          (!checkLaneWipLimit(
+            stateManager,
+            getEntityFromPath(stateManager.state, dropPath.slice(0, -1)),
+            1
+          ) ||
+            !checkMemberWipForMove(
+              plugin,
+              stateManager,
+              dragPath,
+              stateManager,
+              dropPath.slice(0, -1)
+            ))
+        ) {
+          return;
+        }
+
         return stateManager.setState((board) => {
           const entity = getEntityFromPath(board, dragPath);
           const newBoard: Board = moveEntity(
@@ -126,7 +204,13 @@ export function DragDropApp({ win, plugin }: { win: Window; plugin: KanbanPlugin
                   dropPath,
                   entity
                 );
-                return next;
+                return applyLaneMoveRules(
+                  stateManager,
+                  getEntityFromPath(board, dragPath.slice(0, -1)),
+                  stateManager,
+                  getEntityFromPath(board, dropPath.slice(0, -1)),
+                  next
+                );
               }
               return entity;
             },
@@ -187,74 +271,125 @@ export function DragDropApp({ win, plugin }: { win: Window; plugin: KanbanPlugin
       const destinationView = plugin.getKanbanView(dropEntity.scopeId, dropEntityData.win);
       const destinationStateManager = plugin.stateManagers.get(destinationView.file);
 
-      sourceStateManager.setState((sourceBoard) => {
-        const entity = getEntityFromPath(sourceBoard, dragPath);
-        let replacementEntity: Nestable;
+      const destinationLanePath = inDropArea ? dropPath : dropPath.slice(0, -1);
+
+      if (
+        dragEntityData.type === DataTypes.Item &&
+        (!checkLaneWipLimit(
+          destinationStateManager,
+          getEntityFromPath(destinationStateManager.state, destinationLanePath),
+          1
+        ) ||
+          !checkMemberWipForMove(
+            plugin,
+            sourceStateManager,
+            dragPath,
+            destinationStateManager,
+            destinationLanePath
+          ))
+      ) {
+        return;
+      }
 
-        destinationStateManager.setState((destinationBoard) => {
-          if (inDropArea) {
-            const parent = getEntityFromPath(destinationStateManager.state, dropPath);
-            const shouldAppend =
-              (destinationStateManager.getSetting('new-card-insertion-method') || 'append') ===
-              'append';
+      // Both boards record the move as one step so undoing it on either board restores both
+      const historyGroup = createHistoryGroup([sourceView.file.path, destinationView.file.path]);
 
-            if (shouldAppend) dropPath.push(parent.children.length);
-            else dropPath.push(0);
-          }
+      sourceStateManager.setState(
+        (sourceBoard) => {
+          const entity = getEntityFromPath(sourceBoard, dragPath);
+          let replacementEntity: Nestable;
 
-          const toInsert: Nestable[] = [];
+          destinationStateManager.setState(
+            (destinationBoard) => {
+              if (inDropArea) {
+                const parent = getEntityFromPath(destinationStateManager.state, dropPath);
+                const shouldAppend =
+                  (destinationStateManager.getSetting('new-card-insertion-method') || 'append') ===
+                  'append';
 
-          if (entity.type === DataTypes.Item) {
-            const { next, replacement } = maybeCompleteForMove(
-              sourceStateManager,
-              sourceBoard,
-              dragPath,
-              destinationStateManager,
-              destinationBoard,
-              dropPath,
-              entity
-            );
-            replacementEntity = replacement;
-            toInsert.push(next);
-          } else {
-            toInsert.push(entity);
-          }
+                if (shouldAppend) dropPath.push(parent.children.length);
+                else dropPath.push(0);
+              }
+
+              const toInsert: Nestable[] = [];
+
+              if (entity.type === DataTypes.Item) {
+                const { next, replacement } = maybeCompleteForMove(
+                  sourceStateManager,
+                  sourceBoard,
+                  dragPath,
+                  destinationStateManager,
+                  destinationBoard,
+                  dropPath,
+                  entity
+                );
+                replacementEntity = replacement;
+                const destinationLane: Lane = getEntityFromPath(
+                  destinationBoard,
+                  dropPath.slice(0, -1)
+                );
+                const moved = applyLaneMoveRules(
+                  sourceStateManager,
+                  getEntityFromPath(sourceBoard, dragPath.slice(0, -1)),
+                  destinationStateManager,
+                  destinationLane,
+                  next
+                );
+                // The destination board only sees a new card, so the move is recorded here
+                toInsert.push(
+                  recordItemActivity(destinationStateManager, moved, [
+                    {
+                      type: 'moved',
+                      detail: `${destinationStateManager.file.basename} › ${destinationLane?.data.title ?? ''}`,
+                    },
+                    ...getItemChangeEvents(entity as Item, moved),
+                  ])
+                );
+              } else {
+                toInsert.push(entity);
+              }
+
+              if (entity.type === DataTypes.Lane) {
+                const collapsedState = destinationView.getViewState('list-collapse');
+                const val = sourceView.getViewState('list-collapse')[dragPath.last()];
+                const op = (collapsedState: boolean[]) => {
+                  const newState = [...collapsedState];
+                  newState.splice(dropPath.last(), 0, val);
+                  return newState;
+                };
+
+                destinationView.setViewState('list-collapse', undefined, op);
+
+                return update<Board>(insertEntity(destinationBoard, dropPath, toInsert), {
+                  data: { settings: { 'list-collapse': { $set: op(collapsedState) } } },
+                });
+              } else {
+                return insertEntity(destinationBoard, dropPath, toInsert);
+              }
+            },
+            true,
+            historyGroup
+          );
 
           if (entity.type === DataTypes.Lane) {
-            const collapsedState = destinationView.getViewState('list-collapse');
-            const val = sourceView.getViewState('list-collapse')[dragPath.last()];
+            const collapsedState = sourceView.getViewState('list-collapse');
             const op = (collapsedState: boolean[]) => {
               const newState = [...collapsedState];
-              newState.splice(dropPath.last(), 0, val);
+              newState.splice(dragPath.last(), 1);
               return newState;
             };
+            sourceView.setViewState('list-collapse', undefined, op);
 
-            destinationView.setViewState('list-collapse', undefined, op);
-
-            return update<Board>(insertEntity(destinationBoard, dropPath, toInsert), {
+            return update<Board>(removeEntity(sourceBoard, dragPath), {
               data: { settings: { 'list-collapse': { $set: op(collapsedState) } } },
             });
           } else {
-            return insertEntity(destinationBoard, dropPath, toInsert);
+            return removeEntity(sourceBoard, dragPath, replacementEntity);
           }
-        });
-
-        if (entity.type === DataTypes.Lane) {
-          const collapsedState = sourceView.getViewState('list-collapse');
-          const op = (collapsedState: boolean[]) => {
-            const newState = [...collapsedState];
-            newState.splice(dragPath.last(), 1);
-            return newState;
-          };
-          sourceView.setViewState('list-collapse', undefined, op);
-
-          return update<Board>(removeEntity(sourceBoard, dragPath), {
-            data: { settings: { 'list-collapse': { $set: op(collapsedState) } } },
-          });
-        } else {
-          return removeEntity(sourceBoard, dragPath, replacementEntity);
-        }
-      });
+        },
+        true,
+        historyGroup
+      );
     },
     [views]
   );
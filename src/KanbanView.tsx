@@ -35,11 +35,14 @@ import {
   hasFrontmatterKey,
   hasFrontmatterKeyRaw,
 } from './helpers';
+import { boardExportFormats, exportBoard } from './helpers/boardExport';
 import { debugLog } from './helpers/debugLogger';
+import { applyLaneMoveRules } from './helpers/laneRules';
 import { bindMarkdownEvents } from './helpers/renderMarkdown';
 import { PromiseQueue } from './helpers/util';
 import { t } from './lang/helpers';
 import KanbanPlugin from './main';
+import { SaveBoardTemplateModal } from './modals/SaveBoardTemplateModal';
 import { frontmatterKey } from './parsers/common';
 
 export const kanbanViewType = 'kanban';
@@ -833,6 +836,30 @@ export class KanbanView extends TextFileView implements HoverParent {
             const stateManager = this.plugin.stateManagers.get(this.file);
             stateManager.archiveCompletedCards();
           });
+      })
+      .addItem((item) => {
+        item.setTitle(t('Export board')).setIcon('lucide-download').setSection('pane');
+
+        const exportMenu = (item as any).setSubmenu() as Menu;
+        boardExportFormats.forEach(([format, label]) => {
+          exportMenu.addItem((subItem) =>
+            subItem.setTitle(label()).onClick(() => {
+              exportBoard(this.plugin.stateManagers.get(this.file), format);
+            })
+          );
+        });
+      })
+      .addItem((item) => {
+        item
+          .setTitle(t('Save board as template'))
+          .setIcon('lucide-layout-template')
+          .setSection('pane')
+          .onClick(() => {
+            new SaveBoardTemplateModal(
+              this.plugin,
+              this.plugin.stateManagers.get(this.file)
+            ).open();
+          });
       });
 
     if (callSuper) {
@@ -1864,6 +1891,15 @@ export class KanbanView extends TextFileView implements HoverParent {
           board.children[targetLaneIndex].children.length
         );
 
+        const stateManager = this.plugin.stateManagers.get(this.file);
+        const movedCard = applyLaneMoveRules(
+          stateManager,
+          board.children[sourceLaneIndex],
+          stateManager,
+          board.children[targetLaneIndex],
+          cardToMove
+        );
+
         newBoard = update(board, {
           children: {
             [sourceLaneIndex]: {
@@ -1873,7 +1909,7 @@ export class KanbanView extends TextFileView implements HoverParent {
             },
             [targetLaneIndex]: {
               children: {
-                $splice: [[actualTargetDropIndex, 0, cardToMove]],
+                $splice: [[actualTargetDropIndex, 0, movedCard]],
               },
             },
           },
@@ -1,11 +1,6 @@
 import update from 'immutability-helper';
 // Corrected import
-import {
-  Heading as MdastHeading,
-  List as MdastList,
-  ListItem as MdastListItem,
-  Root as MdastRoot,
-} from 'mdast';
+import { Heading as MdastHeading } from 'mdast';
 import moment from 'moment';
 import {
   App,
@@ -30,21 +25,28 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'preact/hooks'
 
 // For boardToMd and other parsing utilities
 import { KanbanView, kanbanViewType } from './KanbanView';
-import { DEFAULT_SETTINGS, KanbanSettings, SavedWorkspaceView } from './Settings';
+import { DEFAULT_SETTINGS, SavedWorkspaceView } from './Settings';
 import { StateManager } from './StateManager';
 import { getDefaultLocale } from './components/Editor/datePickerLocale';
 // CORRECTED: Import constructDatePicker and getDefaultLocale
+import { ItemSubtaskProgress } from './components/Item/ItemSubtaskProgress';
 import { constructDatePicker } from './components/Item/helpers';
 import { generateInstanceId } from './components/helpers';
 import { getTagColorFn, getTagSymbolFn } from './components/helpers';
-import { Lane } from './components/types';
+import { Item, Lane } from './components/types';
 import { ItemData, TagColor, TagSymbolSetting, TeamMemberColorConfig } from './components/types';
-import { hasFrontmatterKey } from './helpers';
+import { addActivityToLine, isActivityLogEnabled, recordItemActivity } from './helpers/activityLog';
 import { debugLog } from './helpers/debugLogger';
+import {
+  findDoneLaneIndex,
+  getBoardDoneLanes,
+  getNewDoneLaneTitle,
+  isDoneLane,
+} from './helpers/doneLanes';
+import { addRecurringInstance } from './helpers/recurringCards';
+import { SubtaskProgress, getSubtaskProgress } from './helpers/subtasks';
 import KanbanPlugin from './main';
 import { ListFormat } from './parsers/List';
-import { listItemToItemData } from './parsers/formats/list';
-import { parseMarkdown } from './parsers/parseMarkdown';
 
 // NEW COMPONENT for basic external link rendering
 // RENAMED and ENHANCED to InteractiveMarkdownCell
@@ -167,6 +169,7 @@ interface WorkspaceCard {
   sourceStartLine?: number;
   checked?: boolean;
   priority?: 'high' | 'medium' | 'low'; // <-- New property
+  subtasks?: SubtaskProgress;
 }
 
 // Define an internal type for pre-filtered cards
@@ -176,24 +179,13 @@ interface WorkspaceCardInternal {
   sourceBoardPath: string;
   sourceBoardName: string;
   sourceStartLine?: number;
+  // Whether the card sits in one of its board's done lanes
+  inDoneLane: boolean;
 }
 
 export const KANBAN_WORKSPACE_VIEW_TYPE = 'kanban-workspace';
 export const KANBAN_WORKSPACE_ICON = 'lucide-filter';
 
-// Helper function to recursively get all markdown files in a folder
-async function recursivelyGetAllMdFilesInFolder(folder: TFolder): Promise<TFile[]> {
-  const mdFiles: TFile[] = [];
-  for (const child of folder.children) {
-    if (child instanceof TFile && child.extension === 'md') {
-      mdFiles.push(child);
-    } else if (child instanceof TFolder) {
-      mdFiles.push(...(await recursivelyGetAllMdFilesInFolder(child)));
-    }
-  }
-  return mdFiles;
-}
-
 // Helper to get text content from a heading node
 export function getHeadingText(node: MdastHeading): string {
   return node.children.map((child) => ('value' in child ? child.value : '')).join('');
@@ -204,7 +196,7 @@ function escapeRegExp(string: string): string {
   return string.replace(/[.*+?^${}()|[\\]\\]/g, '\\$&'); // $& means the whole matched string
 }
 
-// Helper function to move a card to the "Done" lane in markdown
+// Helper function to move a card to the board's done lane in markdown
 async function moveCardToDoneLaneInMarkdown(
   plugin: KanbanPlugin, // Pass plugin for settings and app access
   markdownContent: string,
@@ -217,7 +209,6 @@ async function moveCardToDoneLaneInMarkdown(
     'for file:',
     targetFile.path
   );
-  const DONE_LANE_NAME = 'Done';
   // TODO: Implement markdown manipulation logic here
   // 1. Get a temporary StateManager for the board to use its parser
   // This is a bit of a hack, ideally parser functions would be standalone
@@ -271,8 +262,11 @@ async function moveCardToDoneLaneInMarkdown(
       return markdownContent; // Card not found, return original content
     }
 
-    // Find or create "Done" lane
-    let doneLaneIndex = board.children.findIndex((lane) => lane.data.title === DONE_LANE_NAME);
+    // Find or create the done lane, leaving cards that are already in one where they are
+    const doneLanes = getBoardDoneLanes(board, plugin.settings);
+    let doneLaneIndex = isDoneLane(board.children[sourceLaneIndex], doneLanes)
+      ? sourceLaneIndex
+      : findDoneLaneIndex(board.children, doneLanes);
     let boardForUpdate = board;
     debugLog(
       `[WorkspaceView] moveCardToDoneLaneInMarkdown: Initial Done lane index: ${doneLaneIndex}`
@@ -285,27 +279,32 @@ async function moveCardToDoneLaneInMarkdown(
         type: 'lane', // Added based on linter feedback for Nestable
         accepts: ['item'], // Added based on linter feedback for Nestable
         data: {
-          title: DONE_LANE_NAME,
+          title: getNewDoneLaneTitle(doneLanes),
         },
         children: [],
       };
       boardForUpdate = update(board, { children: { $push: [newLane] } });
       doneLaneIndex = boardForUpdate.children.length - 1;
       debugLog(
-        `[WorkspaceView] moveCardToDoneLaneInMarkdown: "Done" lane created at index ${doneLaneIndex}. Board now has ${boardForUpdate.children?.length || 0} lanes`
+        `[WorkspaceView] moveCardToDoneLaneInMarkdown: Done lane created at index ${doneLaneIndex}. Board now has ${boardForUpdate.children?.length || 0} lanes`
       );
     }
 
     if (sourceLaneIndex === doneLaneIndex) {
       debugLog(
-        `[WorkspaceView] moveCardToDoneLaneInMarkdown: Card ${cardToMove.title} is already in the Done lane.`
+        `[WorkspaceView] moveCardToDoneLaneInMarkdown: Card ${cardToMove.title} is already in a done lane.`
       );
       return markdownContent;
     }
 
     // Perform the move using immutability-helper on the board structure
-    const itemToMoveFromBoard =
-      boardForUpdate.children[sourceLaneIndex].children[itemIndexInSourceLane];
+    tempStateManager.state = board;
+    tempStateManager.compileSettings();
+    const itemToMoveFromBoard = recordItemActivity(
+      tempStateManager,
+      boardForUpdate.children[sourceLaneIndex].children[itemIndexInSourceLane],
+      [{ type: 'moved', detail: boardForUpdate.children[doneLaneIndex].data.title }]
+    );
     debugLog(
       `[WorkspaceView] moveCardToDoneLaneInMarkdown: Moving item from source lane ${sourceLaneIndex} to done lane ${doneLaneIndex}`
     );
@@ -328,6 +327,57 @@ async function moveCardToDoneLaneInMarkdown(
   }
 }
 
+// Helper function to add the next instance of a completed recurring card in markdown
+function addRecurringInstanceInMarkdown(
+  plugin: KanbanPlugin,
+  markdownContent: string,
+  targetFile: TFile,
+  completedCard: WorkspaceCard
+): string {
+  const tempStateManager = new StateManager(
+    plugin.app,
+    { file: targetFile } as any,
+    () => {},
+    () => plugin.settings
+  );
+  const parser = new ListFormat(tempStateManager);
+
+  try {
+    const board = parser.mdToBoard(markdownContent);
+    // Lets board-level settings (target lane, archive behaviour, date format) apply
+    tempStateManager.state = board;
+    tempStateManager.compileSettings();
+
+    let item: Item | null = null;
+    for (const lane of board.children) {
+      item =
+        lane.children.find((laneItem) =>
+          completedCard.blockId
+            ? laneItem.data.blockId === completedCard.blockId
+            : laneItem.data.title === completedCard.title
+        ) || null;
+      if (item) break;
+    }
+
+    // Auto-move may already have moved the card, so look up the lane it was completed in
+    const sourceLane = board.children.find((lane) => lane.data.title === completedCard.laneTitle);
+
+    if (!item || !sourceLane) {
+      debugLog(
+        '[WorkspaceView] addRecurringInstanceInMarkdown: Card or its lane not found in parsed board.',
+        completedCard
+      );
+      return markdownContent;
+    }
+
+    const updatedBoard = addRecurringInstance(tempStateManager, board, item.id, sourceLane);
+    return updatedBoard === board ? markdownContent : parser.boardToMd(updatedBoard);
+  } catch (e) {
+    console.error('[WorkspaceView] Error in addRecurringInstanceInMarkdown:', e);
+    return markdownContent;
+  }
+}
+
 // --- Simple Modal for Date Input ---
 // REMOVED DateInputModal
 // --- End Date Input Modal ---
@@ -606,98 +656,21 @@ function KanbanWorkspaceViewComponent(props: {
 
       const allCards: WorkspaceCard[] = [];
       const allCardsDataPreFilter: WorkspaceCardInternal[] = []; // This is correctly declared
-      const getGlobalSettingsForStateManager = (): KanbanSettings => {
-        return props.plugin.settings || DEFAULT_SETTINGS;
-      };
 
       try {
-        const allMdFiles = await recursivelyGetAllMdFilesInFolder(targetFolder);
-        for (const mdFile of allMdFiles) {
-          if (hasFrontmatterKey(mdFile)) {
-            try {
-              const fileContent = await props.plugin.app.vault.cachedRead(mdFile);
-
-              // <<< ADDED DEBUG LOGS for Overall.md >>>
-              if (mdFile.path === 'Monomotion Mechanics/Kanban/Overall.md') {
-                debugLog(
-                  `[WorkspaceView] DEBUG SCAN: Content of ${mdFile.path} being processed in handleScanDirectory (first 500 chars):`,
-                  fileContent.substring(0, 500) + '...'
-                );
-              }
-              // <<< END ADDED DEBUG LOGS >>>
-
-              const tempStateManager = new StateManager(
-                props.plugin.app,
-                { file: mdFile } as any,
-                () => {},
-                getGlobalSettingsForStateManager
-              );
-
-              const { ast } = parseMarkdown(tempStateManager, fileContent) as {
-                ast: MdastRoot;
-                settings: KanbanSettings;
-              };
-
-              // <<< ADDED DEBUG LOGS for Overall.md AST >>>
-              if (mdFile.path === 'Monomotion Mechanics/Kanban/Overall.md') {
-                debugLog(
-                  `[WorkspaceView] DEBUG SCAN: AST for ${mdFile.path} (first 1000 chars of stringified):`,
-                  JSON.stringify(ast, null, 2).substring(0, 1000) + '...'
-                );
-                debugLog(
-                  `[WorkspaceView] DEBUG SCAN: AST for ${mdFile.path} has ${ast.children.length} top-level children.`
-                );
-                ast.children.forEach((child, index) => {
-                  debugLog(
-                    `[WorkspaceView] DEBUG SCAN: AST Child ${index} for ${mdFile.path} - Type: ${child.type}`
-                  );
-                  if (child.type === 'list') {
-                    debugLog(
-                      `[WorkspaceView] DEBUG SCAN: List Child ${index} for ${mdFile.path} has ${(child as MdastList).children.length} items.`
-                    );
-                  }
-                });
-              }
-              // <<< END ADDED DEBUG LOGS >>>
-
-              let currentLaneTitle = 'Unknown Lane';
-              for (const astNode of ast.children) {
-                if (astNode.type === 'heading') {
-                  const rawLaneTitle = getHeadingText(astNode as MdastHeading) || 'Unnamed Lane';
-                  currentLaneTitle = rawLaneTitle.replace(/\s*\(\d+\)$/, '').trim();
-                } else if (astNode.type === 'list') {
-                  for (const listItemNode of (astNode as MdastList).children) {
-                    if (listItemNode.type === 'listItem') {
-                      const itemData: ItemData = listItemToItemData(
-                        tempStateManager,
-                        fileContent,
-                        listItemNode as MdastListItem
-                      );
-
-                      // Manually hydrate the date field from dateStr (important for any subsequent logic)
-                      if (itemData.metadata?.dateStr && !moment.isMoment(itemData.metadata.date)) {
-                        itemData.metadata.date = moment(
-                          itemData.metadata.dateStr,
-                          tempStateManager.getSetting('date-format')
-                        );
-                      }
-
-                      // CORRECTED: Populate allCardsDataPreFilter with all parsed items
-                      allCardsDataPreFilter.push({
-                        itemData,
-                        currentLaneTitle,
-                        sourceBoardPath: mdFile.path,
-                        sourceBoardName: mdFile.basename,
-                        sourceStartLine: listItemNode.position?.start.line,
-                      });
-                    }
-                  }
-                }
-              }
-            } catch (parseError) {
-              console.error(`[WorkspaceView] Error processing board ${mdFile.path}:`, parseError);
-              setError(`Error processing ${mdFile.path}: ${parseError.message}`);
-            }
+        // Cards come from the shared card index rather than re-parsing every board here
+        const rootPath = targetFolder.isRoot() ? '' : targetFolder.path;
+        const indexedBoards = await props.plugin.cardIndex.getBoards(rootPath);
+        for (const indexedBoard of indexedBoards) {
+          for (const card of [...indexedBoard.cards, ...indexedBoard.archive]) {
+            allCardsDataPreFilter.push({
+              itemData: card.data,
+              currentLaneTitle: card.laneName,
+              sourceBoardPath: card.boardPath,
+              sourceBoardName: card.boardName,
+              sourceStartLine: card.data.position?.start.line,
+              inDoneLane: card.inDoneLane,
+            });
           }
         }
 
@@ -718,8 +691,14 @@ function KanbanWorkspaceViewComponent(props: {
 
         // Now, filter from allCardsDataPreFilter to populate the final allCards array for display
         for (const internalCard of allCardsDataPreFilter) {
-          const { itemData, currentLaneTitle, sourceBoardPath, sourceBoardName, sourceStartLine } =
-            internalCard;
+          const {
+            itemData,
+            currentLaneTitle,
+            sourceBoardPath,
+            sourceBoardName,
+            sourceStartLine,
+            inDoneLane,
+          } = internalCard;
 
           // Filters are applied here, using parameters like tagsToFilterBy, membersToFilterBy, etc.
           const cardTags = (itemData.metadata?.tags || []).map((t) =>
@@ -754,7 +733,7 @@ function KanbanWorkspaceViewComponent(props: {
           }
 
           let passesDoneFilter = true;
-          if (currentExcludeDone && itemData.checked) {
+          if (currentExcludeDone && (itemData.checked || inDoneLane)) {
             passesDoneFilter = false;
           }
 
@@ -796,6 +775,7 @@ function KanbanWorkspaceViewComponent(props: {
               sourceStartLine: sourceStartLine, // Use sourceStartLine from internalCard
               checked: itemData.checked,
               priority: itemData.metadata?.priority, // <-- Add priority here
+              subtasks: getSubtaskProgress(itemData.titleRaw),
             });
           }
         }
@@ -983,6 +963,8 @@ function KanbanWorkspaceViewComponent(props: {
         const lines = fileContent.split('\n');
         let foundAndReplaced = false;
         const taskRegex = /^(\s*)- \[(\s*|x|X|-|\/|>)\](.*)/; // Matches task prefix
+        const indexedBoard = await props.plugin.cardIndex.getBoard(card.sourceBoardPath);
+        const logActivity = isActivityLogEnabled(indexedBoard?.board, props.plugin.settings);
 
         const updateLineCheckedStatus = (line: string): string => {
           const match = line.match(taskRegex);
@@ -990,7 +972,13 @@ function KanbanWorkspaceViewComponent(props: {
             const prefix = match[1];
             const restOfLine = match[3];
             const newMarker = newCheckedStatus ? 'x' : ' ';
-            return `${prefix}- [${newMarker}]${restOfLine.startsWith(' ') ? restOfLine : ` ${restOfLine.trimStart()}`}`.trimEnd();
+            const wasChecked = match[2].toLowerCase() === 'x';
+            const updatedLine =
+              `${prefix}- [${newMarker}]${restOfLine.startsWith(' ') ? restOfLine : ` ${restOfLine.trimStart()}`}`.trimEnd();
+            if (!logActivity || wasChecked === newCheckedStatus) return updatedLine;
+            return addActivityToLine(updatedLine, [
+              { type: newCheckedStatus ? 'completed' : 'reopened' },
+            ]);
           }
           return line;
         };
@@ -1051,6 +1039,7 @@ function KanbanWorkspaceViewComponent(props: {
             );
             if (updatedMarkdown !== fileContent) {
               await props.plugin.app.vault.modify(targetFile, updatedMarkdown);
+              fileContent = updatedMarkdown;
               new Notice(`Moved "${card.title}" to Done lane in ${targetFile.basename}.`);
 
               // Wait for StateManager and cache to update before refreshing workspace view
@@ -1061,6 +1050,22 @@ function KanbanWorkspaceViewComponent(props: {
             }
           }
 
+          // Completing a recurring card creates its next instance
+          if (newCheckedStatus && !originalCheckedStatus) {
+            const markdownWithNextInstance = addRecurringInstanceInMarkdown(
+              props.plugin,
+              fileContent,
+              targetFile,
+              card
+            );
+            if (markdownWithNextInstance !== fileContent) {
+              await props.plugin.app.vault.modify(targetFile, markdownWithNextInstance);
+              new Notice(
+                `Created the next occurrence of "${card.title}" in ${targetFile.basename}.`
+              );
+            }
+          }
+
           // --- DEBUG LOG BEFORE REFRESH ---
           debugLog(
             '[WorkspaceView] handleToggleCardDoneStatus: Calling handleScanDirectory with filters:',
@@ -1468,6 +1473,13 @@ function KanbanWorkspaceViewComponent(props: {
 
                     const memberAssignmentPrefix =
                       props.plugin.settings.memberAssignmentPrefix || '@@';
+                    const indexedBoard = await props.plugin.cardIndex.getBoard(
+                      card.sourceBoardPath
+                    );
+                    const logActivity = isActivityLogEnabled(
+                      indexedBoard?.board,
+                      props.plugin.settings
+                    );
 
                     const updateLineWithMembers = (
                       line: string,
@@ -1492,13 +1504,16 @@ function KanbanWorkspaceViewComponent(props: {
                         .map((m) => `${memberAssignmentPrefix}${m}`)
                         .join(' ');
 
-                      if (currentBlockId) {
-                        return `${cleanedLine} ${membersString} ^${currentBlockId}`
-                          .replace(/\s+/g, ' ')
-                          .trim();
-                      } else {
-                        return `${cleanedLine} ${membersString}`.replace(/\s+/g, ' ').trim();
-                      }
+                      const updatedLine = currentBlockId
+                        ? `${cleanedLine} ${membersString} ^${currentBlockId}`
+                            .replace(/\s+/g, ' ')
+                            .trim()
+                        : `${cleanedLine} ${membersString}`.replace(/\s+/g, ' ').trim();
+
+                      if (!logActivity) return updatedLine;
+                      return addActivityToLine(updatedLine, [
+                        { type: isAssigned ? 'unassigned' : 'assigned', detail: member },
+                      ]);
                     };
 
                     if (card.blockId) {
@@ -2957,6 +2972,7 @@ function KanbanWorkspaceViewComponent(props: {
                         app={props.plugin.app}
                         sourcePath={card.sourceBoardPath}
                       />
+                      <ItemSubtaskProgress progress={card.subtasks} style={{ marginTop: '4px' }} />
                     </td>
                     {/* Category Cell */}
                     <td
@@ -1,8 +1,5 @@
 import EventEmitter from 'eventemitter3';
 import update from 'immutability-helper';
-import { fromMarkdown } from 'mdast-util-from-markdown';
-import { frontmatterFromMarkdown } from 'mdast-util-frontmatter';
-import { frontmatter } from 'micromark-extension-frontmatter';
 import moment from 'moment';
 import {
   HoverParent,
@@ -11,7 +8,6 @@ import {
   Menu,
   Notice,
   Platform,
-  TAbstractFile,
   TFile,
   ViewStateResult,
   WorkspaceLeaf,
@@ -31,16 +27,31 @@ import { generateInstanceId } from './components/helpers';
 import { Board, Item, Lane } from './components/types';
 import { DndContext } from './dnd/components/DndContext';
 import { getParentWindow } from './dnd/util/getWindow';
-import { hasFrontmatterKeyRaw } from './helpers';
+import {
+  addActivityToLine,
+  isActivityLogEnabled,
+  parseActivityLog,
+  stripActivityLog,
+} from './helpers/activityLog';
 import { debugLog } from './helpers/debugLogger';
+import { applyLaneMoveRules } from './helpers/laneRules';
+import {
+  MemberColumnConfig,
+  applyMemberColumnTags,
+  getMemberCardColumn,
+  getMemberColumns,
+  laneMatchesPattern,
+  normalizeColumnTag,
+} from './helpers/memberWorkflow';
+import { addRecurringInstance } from './helpers/recurringCards';
+import { parseTimeLog, stripTimeLog } from './helpers/timeTracking';
 import { PromiseQueue } from './helpers/util';
+import { checkLaneWipLimit, checkMemberWipChange, getMemberWipCard } from './helpers/wipLimits';
 import { t } from './lang/helpers';
 import KanbanPlugin from './main';
 import { frontmatterKey } from './parsers/common';
-import { blockidExtension, blockidFromMarkdown } from './parsers/extensions/blockid';
-import { tagExtension, tagFromMarkdown } from './parsers/extensions/tag';
-import { gfmTaskListItem, gfmTaskListItemFromMarkdown } from './parsers/extensions/taskList';
 import { getNodeContentBoundary, getStringFromBoundary } from './parsers/helpers/ast';
+import { getTaskStatusDone } from './parsers/helpers/inlineMetadata';
 import { dedentNewLines, removeBlockId, replaceBrs } from './parsers/helpers/parser';
 import { parseMarkdown } from './parsers/parseMarkdown';
 
@@ -52,8 +63,11 @@ interface MemberCard {
   title: string;
   titleRaw: string;
   checked: boolean;
-  hasDoing: boolean;
+  // ID of the Member view column the card is shown in
+  columnId: string;
   sourceBoardPath: string;
+  // Title of the list the card is in on its board
+  laneTitle: string;
   sourceBoardName: string;
   sourceStartLine?: number;
   blockId?: string;
@@ -188,64 +202,17 @@ export class MemberView extends ItemView implements HoverParent {
   }
 
   registerFileChangeEvents() {
-    // Create a debounced function to handle file changes
-    const debouncedFileChange = debounce(
-      async (file: TFile) => {
-        if (this.shouldRefreshOnFileChange(file)) {
+    // The card index re-parses boards as they change and tells us which ones did
+    this.register(
+      this.plugin.cardIndex.onChange(async (changedPaths) => {
+        if (this.shouldRefreshOnBoardChange(changedPaths)) {
           await this.scanMemberCards();
         }
-      },
-      1000, // 1 second debounce
-      true
-    );
-
-    // Register file modification events
-    this.registerEvent(
-      this.app.vault.on('modify', (file: TFile) => {
-        if (file instanceof TFile) {
-          debouncedFileChange(file);
-        }
-      })
-    );
-
-    // Register file creation events
-    this.registerEvent(
-      this.app.vault.on('create', (file: TAbstractFile) => {
-        if (file instanceof TFile) {
-          debouncedFileChange(file);
-        }
-      })
-    );
-
-    // Register file deletion events
-    this.registerEvent(
-      this.app.vault.on('delete', (file: TAbstractFile) => {
-        if (file instanceof TFile) {
-          debouncedFileChange(file);
-        }
-      })
-    );
-
-    // Register file rename events
-    this.registerEvent(
-      this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
-        if (file instanceof TFile) {
-          debouncedFileChange(file);
-        }
-      })
-    );
-
-    // Register metadata changes (for frontmatter changes)
-    this.registerEvent(
-      this.app.metadataCache.on('changed', (file: TFile) => {
-        if (file instanceof TFile) {
-          debouncedFileChange(file);
-        }
       })
     );
   }
 
-  private shouldRefreshOnFileChange(file: TFile): boolean {
+  private shouldRefreshOnBoardChange(changedPaths: string[]): boolean {
     // Only refresh if selected member exists and view is not detached
     if (!this.selectedMember || this.containerEl.closest('body') === null) {
       debugLog('[MemberView] Skipping refresh: no selected member or view detached');
@@ -258,37 +225,21 @@ export class MemberView extends ItemView implements HoverParent {
       return false;
     }
 
-    // Don't refresh if we're currently making file changes ourselves
-    if (this.pendingFileUpdates.has(file.path)) {
-      debugLog('[MemberView] Skipping refresh: file is being updated by this view');
-      return false;
-    }
-
-    // Only refresh for markdown files
-    if (file.extension !== 'md') {
-      return false;
-    }
-
-    // Check if file is within our scan root path
-    const filePath = file.path;
     const scanRoot = this.scanRootPath;
+    const relevantPaths = changedPaths.filter(
+      (path) =>
+        // Don't refresh if we're currently making file changes ourselves
+        !this.pendingFileUpdates.has(path) &&
+        // Check if file is within our scan root path
+        (!scanRoot || path.startsWith(scanRoot))
+    );
 
-    if (scanRoot && !filePath.startsWith(scanRoot)) {
-      return false;
-    }
-
-    // Check if file has kanban frontmatter
-    const cache = this.app.metadataCache.getFileCache(file);
-    if (!cache?.frontmatter) {
-      return false;
-    }
-
-    const frontmatter = cache.frontmatter;
-    if (!(frontmatter.kanban || frontmatter['kanban-plugin'])) {
+    if (relevantPaths.length === 0) {
+      debugLog('[MemberView] Skipping refresh: no relevant board changes');
       return false;
     }
 
-    debugLog('[MemberView] File change detected, refreshing cards:', file.path);
+    debugLog('[MemberView] Board change detected, refreshing cards:', relevantPaths);
     return true;
   }
 
@@ -709,42 +660,12 @@ export class MemberView extends ItemView implements HoverParent {
         return;
       }
 
-      // Filter files based on scan root path
-      let allMdFiles = this.app.vault.getMarkdownFiles();
-
-      if (this.scanRootPath && this.scanRootPath.trim() !== '') {
-        // Filter files to only include those in the specified directory
-        allMdFiles = allMdFiles.filter(
-          (file) =>
-            file.path.startsWith(this.scanRootPath + '/') || file.parent?.path === this.scanRootPath
-        );
-      }
-
-      for (const mdFile of allMdFiles) {
-        if (!hasFrontmatterKeyRaw(await this.app.vault.cachedRead(mdFile))) {
-          continue;
-        }
+      // Boards come from the shared card index (filtered by scan root path) so we don't
+      // re-read and re-parse every board in the vault on each refresh
+      const indexedBoards = await this.plugin.cardIndex.getBoards(this.scanRootPath);
 
+      for (const { file: mdFile, content: fileContent, ast } of indexedBoards) {
         try {
-          const fileContent = await this.app.vault.cachedRead(mdFile);
-
-          // Use direct fromMarkdown instead of parseMarkdown to avoid StateManager dependency
-          // parseMarkdown calls stateManager.compileSettings() which causes errors when stateManager is null
-          const ast = fromMarkdown(fileContent, {
-            extensions: [
-              frontmatter(['yaml']),
-              gfmTaskListItem,
-              tagExtension(),
-              blockidExtension(),
-            ],
-            mdastExtensions: [
-              frontmatterFromMarkdown(['yaml']),
-              gfmTaskListItemFromMarkdown,
-              tagFromMarkdown(),
-              blockidFromMarkdown(),
-            ],
-          });
-
           let currentLaneTitle = 'Unknown Lane';
           for (const astNode of ast.children) {
             if (astNode.type === 'heading') {
@@ -998,11 +919,11 @@ export class MemberView extends ItemView implements HoverParent {
         }
       });
 
-      // Check if has "doing" tag (handle both #doing and doing)
-      const hasDoing = tags.some((tag) => {
-        const cleanTag = tag.replace(/^#/, '').toLowerCase();
-        return cleanTag === 'doing';
-      });
+      const columnId = getMemberCardColumn(getMemberColumns(this.plugin.settings), {
+        checked,
+        tags,
+        laneTitle,
+      }).id;
 
       // Extract dates and times using regex patterns like regular parsing
       let dateStr: string | undefined;
@@ -1042,7 +963,7 @@ export class MemberView extends ItemView implements HoverParent {
       // Clean title for display - use the processed content but clean it up
       const memberPrefix = '@@'; // Default member assignment prefix
       const memberRegex = new RegExp(`${memberPrefix}\\w+`, 'g');
-      let cleanTitle = processedTitleRaw
+      let cleanTitle = stripActivityLog(stripTimeLog(processedTitleRaw))
         .replace(memberRegex, '') // Remove member assignments
         .replace(/\s*#[\w-]+(?:\/[\w-]+)*/g, '') // Remove tags (including preceding spaces)
         .replace(/\s*\^[a-zA-Z0-9]+$/, '') // Remove block ID (including preceding spaces)
@@ -1063,8 +984,9 @@ export class MemberView extends ItemView implements HoverParent {
         title: cleanTitle,
         titleRaw: processedTitleRaw, // Use the processed version like KanbanView
         checked,
-        hasDoing,
+        columnId,
         sourceBoardPath: file.path,
+        laneTitle,
         sourceBoardName: file.basename,
         sourceStartLine: listItemNode.position?.start.line,
         blockId,
@@ -1091,7 +1013,7 @@ export class MemberView extends ItemView implements HoverParent {
       //   dateStr: result.dateStr,
       //   timeStr: result.timeStr,
       //   checked: result.checked,
-      //   hasDoing: result.hasDoing,
+      //   columnId: result.columnId,
       //   willBeIncluded: assignedMembers.includes(this.selectedMember),
       // });
 
@@ -1103,9 +1025,8 @@ export class MemberView extends ItemView implements HoverParent {
   }
 
   createMemberBoard(): Board {
-    const backlogCards: Item[] = [];
-    const doingCards: Item[] = [];
-    const doneCards: Item[] = [];
+    const columns = getMemberColumns(this.plugin.settings);
+    const columnCards = new Map(columns.map((column): [string, Item[]] => [column.id, []]));
 
     // Sort member cards before categorizing
     const sortedCards = this.sortMemberCards(this.memberCards);
@@ -1152,6 +1073,8 @@ export class MemberView extends ItemView implements HoverParent {
             time: safeCard.timeStr
               ? moment(safeCard.timeStr, this.plugin.settings['time-format'] || 'HH:mm')
               : undefined,
+            timeLog: parseTimeLog(safeCard.titleRaw),
+            activity: parseActivityLog(safeCard.titleRaw),
             // Add required metadata properties to prevent undefined errors
             fileMetadata: {},
             fileMetadataOrder: [],
@@ -1184,8 +1107,13 @@ export class MemberView extends ItemView implements HoverParent {
       item.data.metadata.fileMetadataOrder = item.data.metadata.fileMetadataOrder || [];
       item.data.metadata.inlineMetadata = item.data.metadata.inlineMetadata || [];
 
+      // Cards scanned before the columns were edited may point at a column that no longer exists
+      const columnId = columnCards.has(card.columnId)
+        ? card.columnId
+        : getMemberCardColumn(columns, card).id;
+
       // Add parentLaneId to item data for drag and drop tracking
-      (item.data as any).parentLaneId = card.checked ? 'done' : card.hasDoing ? 'doing' : 'backlog';
+      (item.data as any).parentLaneId = columnId;
 
       // debugLog('[MemberView] Created item with metadata:', {
       //   itemId: item.id,
@@ -1198,49 +1126,22 @@ export class MemberView extends ItemView implements HoverParent {
       //   hasDate: !!item.data.metadata.date,
       //   hasTime: !!item.data.metadata.time,
       //   checked: card.checked,
-      //   hasDoing: card.hasDoing,
-      //   determinedLane: card.checked ? 'done' : card.hasDoing ? 'doing' : 'backlog',
+      //   columnId,
       // });
 
-      if (card.checked) {
-        doneCards.push(item);
-      } else if (card.hasDoing) {
-        doingCards.push(item);
-      } else {
-        backlogCards.push(item);
-      }
+      columnCards.get(columnId).push(item);
     });
 
     // Create lanes
-    const backlogLane: Lane = {
-      id: 'backlog',
-      type: 'lane',
-      accepts: ['item'],
-      data: {
-        title: 'Backlog',
-      },
-      children: backlogCards,
-    };
-
-    const doingLane: Lane = {
-      id: 'doing',
+    const lanes: Lane[] = columns.map((column) => ({
+      id: column.id,
       type: 'lane',
       accepts: ['item'],
       data: {
-        title: 'Doing',
+        title: column.title,
       },
-      children: doingCards,
-    };
-
-    const doneLane: Lane = {
-      id: 'done',
-      type: 'lane',
-      accepts: ['item'],
-      data: {
-        title: 'Done',
-      },
-      children: doneCards,
-    };
+      children: columnCards.get(column.id),
+    }));
 
     const board = {
       id: `member-board-${this.selectedMember}`,
@@ -1253,7 +1154,7 @@ export class MemberView extends ItemView implements HoverParent {
         isSearching: false,
         errors: [] as any[],
       },
-      children: [backlogLane, doingLane, doneLane],
+      children: lanes,
     };
 
     // Debug: Validate all items in the board have proper metadata
@@ -1542,14 +1443,10 @@ export class MemberView extends ItemView implements HoverParent {
             const scopeId = dropEntity.scopeId;
             debugLog('[MemberView] handleDrop: Checking scopeId for lane info:', scopeId);
 
-            // Check if scopeId contains lane names
-            if (scopeId.includes('backlog')) {
-              targetLaneId = 'backlog';
-            } else if (scopeId.includes('doing')) {
-              targetLaneId = 'doing';
-            } else if (scopeId.includes('done')) {
-              targetLaneId = 'done';
-            }
+            // Check if scopeId contains a column ID
+            targetLaneId = getMemberColumns(this.plugin.settings).find((column) =>
+              scopeId.includes(column.id)
+            )?.id;
 
             if (targetLaneId) {
               debugLog('[MemberView] handleDrop: Found lane via scopeId:', {
@@ -1577,7 +1474,7 @@ export class MemberView extends ItemView implements HoverParent {
                 // First priority: Look for data-lane-id attribute (our new approach)
                 if (currentElement.hasAttribute('data-lane-id')) {
                   const laneId = currentElement.getAttribute('data-lane-id');
-                  if (laneId && ['backlog', 'doing', 'done'].includes(laneId)) {
+                  if (laneId && this.isMemberColumnId(laneId)) {
                     targetLaneId = laneId;
                     debugLog('[MemberView] handleDrop: Found lane via data-lane-id:', {
                       domAttempts,
@@ -1591,7 +1488,7 @@ export class MemberView extends ItemView implements HoverParent {
                 // Second priority: Look for a droppable element with lane data
                 if (currentElement.hasAttribute('data-droppable-id')) {
                   const droppableId = currentElement.getAttribute('data-droppable-id');
-                  if (droppableId && ['backlog', 'doing', 'done'].includes(droppableId)) {
+                  if (droppableId && this.isMemberColumnId(droppableId)) {
                     targetLaneId = droppableId;
                     debugLog('[MemberView] handleDrop: Found lane via data-droppable-id:', {
                       domAttempts,
@@ -1623,9 +1520,12 @@ export class MemberView extends ItemView implements HoverParent {
             hasMeasureRef: !!dropEntity.measureRef,
           });
 
-          // Default to backlog if we can't determine
-          targetLaneId = 'backlog';
-          debugLog('[MemberView] handleDrop: Defaulting placeholder to backlog lane');
+          // Default to the catch-all column if we can't determine
+          targetLaneId = getMemberCardColumn(getMemberColumns(this.plugin.settings), {
+            checked: false,
+            tags: [],
+          }).id;
+          debugLog('[MemberView] handleDrop: Defaulting placeholder to the catch-all column');
         }
       }
     } else {
@@ -1654,12 +1554,28 @@ export class MemberView extends ItemView implements HoverParent {
       targetLaneId,
     });
 
-    // Update the card in memory immediately for responsive UI
-    this.updateCardInMemory(memberCard, targetLaneId);
+    const targetColumn = getMemberColumns(this.plugin.settings).find(
+      (column) => column.id === targetLaneId
+    );
+
+    // List columns move the card on its board, so the board needs a list to move it to
+    if (targetColumn?.match === 'lane') {
+      const indexed = await this.plugin.cardIndex.getBoard(memberCard.sourceBoardPath);
+      const hasMatchingLane = indexed?.board.children.some((lane) =>
+        laneMatchesPattern(lane.data.title, targetColumn.value)
+      );
+
+      if (!hasMatchingLane) {
+        new Notice(
+          `${t('No list matches')} "${targetColumn.value}" (${memberCard.sourceBoardName}). ${t('The card was not moved.')}`
+        );
+        return;
+      }
+    }
 
     // Try to update via StateManager first, fall back to direct file update if it fails
     try {
-      await this.updateCardViaStateManager(memberCard, targetLaneId);
+      if (!(await this.updateCardViaStateManager(memberCard, targetLaneId))) return;
       debugLog('[MemberView] Successfully updated card via StateManager');
     } catch (stateManagerError) {
       console.warn(
@@ -1667,7 +1583,7 @@ export class MemberView extends ItemView implements HoverParent {
         stateManagerError
       );
       try {
-        await this.updateCardForLane(memberCard, targetLaneId);
+        if (!(await this.updateCardForLane(memberCard, targetLaneId))) return;
         debugLog('[MemberView] Successfully updated card via direct file update');
       } catch (directUpdateError) {
         console.error(
@@ -1681,13 +1597,19 @@ export class MemberView extends ItemView implements HoverParent {
       }
     }
 
-    // Trigger React re-render to show the optimistic updates without doing a full scan
+    // Update the card in memory so the change shows without doing a full scan
+    this.updateCardInMemory(memberCard, targetLaneId);
+
     debugLog('[MemberView] Triggering React re-render to show drag and drop changes');
     this.setReactState({ lastDragDropUpdate: Date.now() });
   }
 
-  // New method: Update card via StateManager (KanbanView approach)
-  private async updateCardViaStateManager(memberCard: MemberCard, targetLaneId: string) {
+  // New method: Update card via StateManager (KanbanView approach). Returns false when a WIP
+  // limit rejected the move.
+  private async updateCardViaStateManager(
+    memberCard: MemberCard,
+    targetLaneId: string
+  ): Promise<boolean> {
     // Find the source file's StateManager
     const sourceFile = this.app.vault.getAbstractFileByPath(memberCard.sourceBoardPath);
     if (!sourceFile || !(sourceFile instanceof TFile)) {
@@ -1914,159 +1836,128 @@ export class MemberView extends ItemView implements HoverParent {
         throw new Error(`Found card has no data: ${foundCard.id}`);
       }
 
-      // Update the card's data based on target lane
-      const updatedCardData = { ...foundCard.data };
-
-      switch (targetLaneId) {
-        case 'doing':
-          // Uncheck if currently checked (moving from done to doing)
-          if (updatedCardData.checked) {
-            updatedCardData.checked = false;
-            updatedCardData.checkChar = ' ';
-
-            // Update titleRaw: change [x] back to [ ]
-            updatedCardData.titleRaw = updatedCardData.titleRaw.replace(/^(\s*-\s*)\[x\]/, '$1[ ]');
-          }
-
-          // Add "doing" tag if not present
-          if (
-            !updatedCardData.metadata?.tags?.includes('doing') &&
-            !updatedCardData.metadata?.tags?.includes('#doing')
-          ) {
-            updatedCardData.metadata = updatedCardData.metadata || {};
-            updatedCardData.metadata.tags = updatedCardData.metadata.tags || [];
-            updatedCardData.metadata.tags.push('#doing');
-
-            // Update titleRaw to include the tag (preserve formatting)
-            if (!updatedCardData.titleRaw.includes('#doing')) {
-              // Insert #doing before any existing block ID, preserving newlines and formatting
-              const blockIdMatch = updatedCardData.titleRaw.match(/^(.*?)(\s*\^[a-zA-Z0-9]+)?$/s);
-              if (blockIdMatch) {
-                const mainContent = blockIdMatch[1];
-                const blockId = blockIdMatch[2] || '';
-                updatedCardData.titleRaw = `${mainContent} #doing${blockId}`;
-              } else {
-                updatedCardData.titleRaw = `${updatedCardData.titleRaw} #doing`;
-              }
-            }
-          }
-          break;
+      // Update the card's data based on the target column
+      const columns = getMemberColumns(this.plugin.settings);
+      const targetColumn = columns.find((column) => column.id === targetLaneId);
+      if (!targetColumn) {
+        throw new Error(`Unknown target lane: ${targetLaneId}`);
+      }
 
-        case 'backlog':
-          // Uncheck if currently checked (moving from done to backlog)
-          if (updatedCardData.checked) {
-            updatedCardData.checked = false;
-            updatedCardData.checkChar = ' ';
+      const shouldCheck = targetColumn.match === 'checked';
+      const isCompleting = shouldCheck && !foundCard.data.checked;
 
-            // Update titleRaw: change [x] back to [ ]
-            updatedCardData.titleRaw = updatedCardData.titleRaw.replace(/^(\s*-\s*)\[x\]/, '$1[ ]');
-          }
-
-          // Remove "doing" tag if present
-          if (
-            updatedCardData.metadata?.tags?.includes('doing') ||
-            updatedCardData.metadata?.tags?.includes('#doing')
-          ) {
-            updatedCardData.metadata.tags = updatedCardData.metadata.tags.filter(
-              (tag: string) => tag !== 'doing' && tag !== '#doing'
-            );
+      // A list column moves the card to the first matching list on its board, unless it is
+      // already in one
+      let targetBoardLaneIndex = sourceLaneIndex;
+      if (
+        targetColumn.match === 'lane' &&
+        !laneMatchesPattern(board.children[sourceLaneIndex].data.title, targetColumn.value)
+      ) {
+        targetBoardLaneIndex = board.children.findIndex((lane) =>
+          laneMatchesPattern(lane.data.title, targetColumn.value)
+        );
+        if (targetBoardLaneIndex === -1) {
+          throw new Error(`No list matching "${targetColumn.value}" in ${sourceFile.basename}`);
+        }
 
-            // Update titleRaw to remove the tag (preserve formatting)
-            updatedCardData.titleRaw = updatedCardData.titleRaw.replace(/\s*#doing\b/g, '');
-            // Only clean up excessive spaces, but preserve newlines
-            updatedCardData.titleRaw = updatedCardData.titleRaw
-              .replace(/[ \t]+/g, ' ')
-              .replace(/[ \t]+$/gm, '');
-          }
-          break;
-
-        case 'done':
-          // Mark as done and remove "doing" tag
-          updatedCardData.checked = true;
-          updatedCardData.checkChar = 'x';
-
-          if (
-            updatedCardData.metadata?.tags?.includes('doing') ||
-            updatedCardData.metadata?.tags?.includes('#doing')
-          ) {
-            updatedCardData.metadata.tags = updatedCardData.metadata.tags.filter(
-              (tag: string) => tag !== 'doing' && tag !== '#doing'
-            );
-          }
+        // The list's WIP limit applies just like when dragging the card there on its board
+        if (!checkLaneWipLimit(stateManager, board.children[targetBoardLaneIndex], 1)) {
+          this.clearFileUpdateTracking(sourceFile.path);
+          return false;
+        }
+      }
 
-          // Update titleRaw: change checkbox and remove doing tag (preserve formatting)
-          updatedCardData.titleRaw = updatedCardData.titleRaw.replace(
-            /^(\s*-\s*)\[[x ]\]/,
-            '$1[x]'
-          );
-          updatedCardData.titleRaw = updatedCardData.titleRaw.replace(/\s*#doing\b/g, '');
-          // Only clean up excessive spaces, but preserve newlines
-          updatedCardData.titleRaw = updatedCardData.titleRaw
-            .replace(/[ \t]+/g, ' ')
-            .replace(/[ \t]+$/gm, '');
-
-          // TRIGGER AUTO-MOVE AUTOMATION: If auto-move-done-to-lane is enabled, move to Done lane
-          if (this.plugin.settings['auto-move-done-to-lane']) {
-            debugLog(
-              '[MemberView] updateCardViaStateManager: Auto-move-done-to-lane is enabled, will move card to Done lane in source board'
-            );
-            // The StateManager will automatically handle moving the card to the Done lane
-            // when we call setState with the checked=true item
-          }
-          break;
+      let updatedCard: Item = update(foundCard as Item, {
+        data: {
+          checked: { $set: shouldCheck },
+          checkChar: { $set: shouldCheck ? getTaskStatusDone() : ' ' },
+        },
+      });
 
-        default:
-          throw new Error(`Unknown target lane: ${targetLaneId}`);
+      const titleRaw = applyMemberColumnTags(updatedCard.data.titleRaw, columns, targetColumn);
+      if (titleRaw !== updatedCard.data.titleRaw) {
+        updatedCard = stateManager.updateItemContent(updatedCard, titleRaw);
       }
 
-      // Create updated card
-      const updatedCard = {
-        ...foundCard,
-        data: updatedCardData,
-      };
+      let updatedBoard: Board;
 
-      // Update the board using immutability-helper (same as KanbanView)
-      const updatedBoard = update(board, {
-        children: {
-          [sourceLaneIndex]: {
-            children: {
-              [cardIndex]: {
-                $set: updatedCard,
+      if (targetBoardLaneIndex === sourceLaneIndex) {
+        updatedBoard = update(board, {
+          children: {
+            [sourceLaneIndex]: {
+              children: {
+                [cardIndex]: {
+                  $set: updatedCard,
+                },
               },
             },
           },
-        },
-      });
+        });
+      } else {
+        const targetLane = board.children[targetBoardLaneIndex];
+        updatedCard = applyLaneMoveRules(
+          stateManager,
+          board.children[sourceLaneIndex],
+          stateManager,
+          targetLane,
+          updatedCard
+        );
+
+        const insertIndex =
+          stateManager.getSetting('new-card-insertion-method') === 'append'
+            ? targetLane.children.length
+            : 0;
+
+        updatedBoard = update(board, {
+          children: {
+            [sourceLaneIndex]: { children: { $splice: [[cardIndex, 1]] } },
+            [targetBoardLaneIndex]: { children: { $splice: [[insertIndex, 0, updatedCard]] } },
+          },
+        });
+      }
+
+      // The checkbox, the column's tag and the list's rules can all make the card take up a slot
+      // of its members' WIP limits
+      if (
+        !checkMemberWipChange(
+          this.plugin,
+          getMemberWipCard(foundCard, board.children[sourceLaneIndex]),
+          getMemberWipCard(updatedCard, board.children[targetBoardLaneIndex])
+        )
+      ) {
+        this.clearFileUpdateTracking(sourceFile.path);
+        return false;
+      }
 
       // Just save via StateManager (file update only, no UI update needed here)
-      // The UI has already been optimistically updated by the caller
       stateManager.setState(updatedBoard, true);
 
-      // If the card was moved to 'done' and auto-move setting is enabled,
+      // If the card was checked and auto-move setting is enabled,
       // trigger the auto-move automation explicitly
-      if (targetLaneId === 'done' && this.plugin.settings['auto-move-done-to-lane']) {
+      if (shouldCheck && this.plugin.settings['auto-move-done-to-lane']) {
         debugLog(
-          '[MemberView] updateCardViaStateManager: Card moved to done lane with auto-move enabled - triggering automation'
+          '[MemberView] updateCardViaStateManager: Card checked with auto-move enabled - triggering automation'
         );
 
         // Use updateItem to trigger the handleAutoMoveDoneCard automation
-        // Find the item in the updated board and call updateItem on it
-        const lanes = updatedBoard.children;
-        let itemForAutomation = null;
-
-        // Find the item across all lanes
-        for (const lane of lanes) {
-          const item = lane.children.find((item: any) => item.id === foundCard.id);
-          if (item) {
-            itemForAutomation = item;
-            break;
-          }
-        }
+        stateManager.updateItem(updatedCard.id, { checked: true }, updatedBoard.children);
+      }
 
-        if (itemForAutomation) {
-          stateManager.updateItem(itemForAutomation.id, { checked: true }, lanes);
+      // Completing a recurring card creates its next instance in the source board
+      if (isCompleting) {
+        const boardWithNextInstance = addRecurringInstance(
+          stateManager,
+          stateManager.state,
+          foundCard.id,
+          board.children[sourceLaneIndex]
+        );
+
+        if (boardWithNextInstance !== stateManager.state) {
+          stateManager.setState(boardWithNextInstance, true);
         }
       }
+
+      return true;
     } catch (error) {
       // If there's an error, clear the file tracking immediately
       this.clearFileUpdateTracking(sourceFile.path);
@@ -2077,25 +1968,35 @@ export class MemberView extends ItemView implements HoverParent {
 
   // Helper method to optimistically update card in memory
   private updateCardInMemory(memberCard: MemberCard, targetLaneId: string) {
-    switch (targetLaneId) {
-      case 'doing':
-        memberCard.checked = false; // Uncheck if moving from done
-        memberCard.hasDoing = true;
-        if (!memberCard.tags.includes('doing') && !memberCard.tags.includes('#doing')) {
-          memberCard.tags.push('#doing');
-        }
-        break;
-      case 'backlog':
-        memberCard.checked = false; // Uncheck if moving from done
-        memberCard.hasDoing = false;
-        memberCard.tags = memberCard.tags.filter((tag) => tag !== 'doing' && tag !== '#doing');
-        break;
-      case 'done':
-        memberCard.checked = true;
-        memberCard.hasDoing = false;
-        memberCard.tags = memberCard.tags.filter((tag) => tag !== 'doing' && tag !== '#doing');
-        break;
+    const columns = getMemberColumns(this.plugin.settings);
+    const targetColumn = columns.find((column) => column.id === targetLaneId);
+    if (!targetColumn) return;
+
+    Object.assign(memberCard, this.getCardInColumn(memberCard, columns, targetColumn));
+  }
+
+  // The checkbox and tags a card ends up with when it is moved into a column
+  private getCardInColumn(
+    memberCard: MemberCard,
+    columns: MemberColumnConfig[],
+    targetColumn: MemberColumnConfig
+  ) {
+    const columnTags = columns
+      .filter((column) => column.match === 'tag' && column !== targetColumn)
+      .map((column) => normalizeColumnTag(column.value));
+
+    const tags = memberCard.tags.filter((tag) => !columnTags.includes(normalizeColumnTag(tag)));
+
+    const targetTag = targetColumn.match === 'tag' ? normalizeColumnTag(targetColumn.value) : '';
+    if (targetTag && !tags.some((tag) => normalizeColumnTag(tag) === targetTag)) {
+      tags.push(`#${targetColumn.value.trim().replace(/^#/, '')}`);
     }
+
+    return { columnId: targetColumn.id, checked: targetColumn.match === 'checked', tags };
+  }
+
+  private isMemberColumnId(id: string) {
+    return getMemberColumns(this.plugin.settings).some((column) => column.id === id);
   }
 
   // Background file update without blocking UI
@@ -2184,7 +2085,8 @@ export class MemberView extends ItemView implements HoverParent {
     }
   }
 
-  private async updateCardForLane(memberCard: MemberCard, targetLaneId: string) {
+  // Returns false when a WIP limit rejected the move
+  private async updateCardForLane(memberCard: MemberCard, targetLaneId: string): Promise<boolean> {
     const file = this.app.vault.getAbstractFileByPath(memberCard.sourceBoardPath);
     if (!file || !(file instanceof TFile)) {
       throw new Error(`Could not find source file: ${memberCard.sourceBoardPath}`);
@@ -2219,88 +2121,40 @@ export class MemberView extends ItemView implements HoverParent {
     const originalLine = lines[lineIndex];
     let updatedLine = originalLine;
 
-    // Check current line content for tags (not cached memberCard properties)
-    const currentLineHasDoing = /\s*#doing\b/.test(originalLine);
-    const currentLineIsChecked = /^(\s*-\s*)\[x\]/.test(originalLine);
-
-    // Apply lane-specific rules
-    switch (targetLaneId) {
-      case 'doing':
-        // Add "doing" tag if not present in the current line
-        if (!currentLineHasDoing) {
-          // Updated regex to handle indented/nested list items
-          // This pattern allows for leading whitespace/tabs before the dash and checkbox
-          const tagMatch = updatedLine.match(
-            /^(\s*-\s*\[[x ]\]\s*)(.*?)(\s*#.*)?(\s*\^[a-zA-Z0-9]+)?$/
-          );
-          if (tagMatch) {
-            const prefix = tagMatch[1]; // "    - [ ] " or "\t- [x] " etc.
-            const content = tagMatch[2]; // main content
-            const existingTags = tagMatch[3] || ''; // existing tags
-            const blockId = tagMatch[4] || ''; // block ID
-            updatedLine = `${prefix}${content} #doing${existingTags}${blockId}`;
-          } else {
-            // Fallback: just append the tag before any block ID
-            const blockIdMatch = updatedLine.match(/^(.*?)(\s*\^[a-zA-Z0-9]+)?$/);
-            if (blockIdMatch) {
-              const mainContent = blockIdMatch[1];
-              const blockId = blockIdMatch[2] || '';
-              updatedLine = `${mainContent} #doing${blockId}`;
-            } else {
-              updatedLine = updatedLine.trim() + ' #doing';
-            }
-          }
-        }
-        break;
-
-      case 'backlog':
-        // Remove "doing" tag if present in the current line
-        if (currentLineHasDoing) {
-          updatedLine = updatedLine.replace(/\s*#doing\b/g, '');
-          // Clean up excessive spaces but preserve leading indentation
-          const leadingWhitespace = updatedLine.match(/^\s*/)?.[0] || '';
-          const restOfLine = updatedLine.substring(leadingWhitespace.length);
-          updatedLine =
-            leadingWhitespace + restOfLine.replace(/[ \t]+/g, ' ').replace(/[ \t]+$/gm, '');
-        }
-        break;
+    const columns = getMemberColumns(this.plugin.settings);
+    const targetColumn = columns.find((column) => column.id === targetLaneId);
+    if (!targetColumn) {
+      console.warn('[MemberView] Unknown target lane:', targetLaneId);
+      return true;
+    }
 
-      case 'done':
-        // Mark as done and remove "doing" tag if present
-        // Change [ ] to [x] (but don't change if already [x])
-        if (!currentLineIsChecked) {
-          updatedLine = updatedLine.replace(/^(\s*-\s*)\[[x ]\]/, '$1[x]');
-        }
+    // Editing the line directly can't move the card to another list
+    if (targetColumn.match === 'lane') {
+      throw new Error(`Could not move the card to a list matching "${targetColumn.value}"`);
+    }
 
-        // Remove "doing" tag if present in the current line
-        if (currentLineHasDoing) {
-          updatedLine = updatedLine.replace(/\s*#doing\b/g, '');
-          // Clean up excessive spaces but preserve leading indentation
-          const leadingWhitespace = updatedLine.match(/^\s*/)?.[0] || '';
-          const restOfLine = updatedLine.substring(leadingWhitespace.length);
-          updatedLine =
-            leadingWhitespace + restOfLine.replace(/[ \t]+/g, ' ').replace(/[ \t]+$/gm, '');
-        }
+    const movedCard = { ...memberCard, ...this.getCardInColumn(memberCard, columns, targetColumn) };
+    if (!checkMemberWipChange(this.plugin, memberCard, movedCard)) return false;
 
-        // TRIGGER AUTO-MOVE AUTOMATION: If auto-move-done-to-lane is enabled
-        if (this.plugin.settings['auto-move-done-to-lane']) {
-          debugLog(
-            '[MemberView] updateCardForLane: Auto-move-done-to-lane is enabled, will trigger automation after file save'
-          );
-          // After saving the file, we need to let the StateManager handle the auto-move
-          // This will happen automatically when the file is processed by the StateManager
-        }
-        break;
+    // Apply the target column's checkbox state and tag to the current line
+    updatedLine = updatedLine.replace(
+      /^(\s*-\s*)\[[^\]]\]/,
+      `$1[${targetColumn.match === 'checked' ? 'x' : ' '}]`
+    );
+    updatedLine = applyMemberColumnTags(updatedLine, columns, targetColumn);
 
-      default:
-        console.warn('[MemberView] Unknown target lane:', targetLaneId);
-        return;
+    const wasChecked = /^\s*-\s*\[[xX]\]/.test(originalLine);
+    const isChecked = targetColumn.match === 'checked';
+    if (wasChecked !== isChecked && (await this.shouldLogActivity(memberCard.sourceBoardPath))) {
+      updatedLine = addActivityToLine(updatedLine, [
+        { type: isChecked ? 'completed' : 'reopened' },
+      ]);
     }
 
     // Only update if the line actually changed
     if (updatedLine === originalLine) {
       debugLog('[MemberView] No changes needed for line');
-      return;
+      return true;
     }
 
     // Update the line in the file
@@ -2317,6 +2171,8 @@ export class MemberView extends ItemView implements HoverParent {
       line: memberCard.sourceStartLine,
       lineIndex: lineIndex,
     });
+
+    return true;
   }
 
   // Efficiently update a specific card without full board refresh
@@ -2430,13 +2286,11 @@ export class MemberView extends ItemView implements HoverParent {
       debugLog('[MemberView] Property file update not yet implemented for:', property);
 
       // For now, fall back to the lane-based update system for status changes
-      if (property === 'checked' || property === 'hasDoing') {
-        let targetLaneId = 'backlog';
-        if (card.checked) {
-          targetLaneId = 'done';
-        } else if (card.hasDoing) {
-          targetLaneId = 'doing';
-        }
+      if (property === 'checked' || property === 'columnId') {
+        const targetLaneId =
+          property === 'columnId'
+            ? card.columnId
+            : getMemberCardColumn(getMemberColumns(this.plugin.settings), card).id;
 
         await this.updateCardForLane(card, targetLaneId);
       }
@@ -2460,6 +2314,21 @@ export class MemberView extends ItemView implements HoverParent {
     // 2. Store original value for potential revert
     const originalMembers = [...(card.assignedMembers || [])];
 
+    // Assigning a card in a column that counts toward WIP limits takes up one of the member's slots
+    const assignedMembers = isAssigning
+      ? originalMembers.concat(originalMembers.includes(member) ? [] : [member])
+      : originalMembers.filter((m) => m !== member);
+    if (
+      !checkMemberWipChange(
+        this.plugin,
+        card,
+        { ...card, assignedMembers },
+        t('The card was not changed.')
+      )
+    ) {
+      return;
+    }
+
     // 3. Mark card as being updated
     this.pendingMemberUpdates.add(cardId);
 
@@ -2688,6 +2557,15 @@ export class MemberView extends ItemView implements HoverParent {
       const restOfLine = updatedLine.substring(leadingWhitespace.length);
       updatedLine = leadingWhitespace + restOfLine.replace(/\s+/g, ' ').trim();
 
+      if (
+        updatedLine !== lines[targetLineIndex] &&
+        (await this.shouldLogActivity(memberCard.sourceBoardPath))
+      ) {
+        updatedLine = addActivityToLine(updatedLine, [
+          { type: isAssigning ? 'assigned' : 'unassigned', detail: member },
+        ]);
+      }
+
       // Only update if the line actually changed
       if (updatedLine !== lines[targetLineIndex]) {
         lines[targetLineIndex] = updatedLine;
@@ -2712,6 +2590,12 @@ export class MemberView extends ItemView implements HoverParent {
     // No finally block needed - timeout will clean up tracking
   }
 
+  // Cards edited directly in the markdown follow their own board's activity log setting
+  private async shouldLogActivity(boardPath: string) {
+    const indexedBoard = await this.plugin.cardIndex.getBoard(boardPath);
+    return isActivityLogEnabled(indexedBoard?.board, this.plugin.settings);
+  }
+
   // Helper to escape regex special characters
   private escapeRegExpStr(str: string): string {
     return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -3058,7 +2942,9 @@ export class MemberView extends ItemView implements HoverParent {
 
             // Check if this is a lane tag (matches lane name)
             if (hideLaneTagDisplay) {
-              const laneNames = ['backlog', 'doing', 'done']; // Common lane names
+              const laneNames = getMemberColumns(this.plugin.settings).map(
+                (column) => column.title
+              );
               for (const laneName of laneNames) {
                 const laneTagPattern = laneName.toLowerCase().replace(/\s+/g, '-');
                 if (tagWithoutHash === laneTagPattern) {
@@ -3456,6 +3342,17 @@ export class MemberView extends ItemView implements HoverParent {
     // 2. Store original value for potential revert
     const originalTags = [...(card.tags || [])];
 
+    // A tag can move the card into a column that counts toward its members' WIP limits
+    const tagWithHash = tag.startsWith('#') ? tag : `#${tag}`;
+    const tags = isAssigning
+      ? originalTags.concat(originalTags.includes(tagWithHash) ? [] : [tagWithHash])
+      : originalTags.filter((existing) => existing !== tagWithHash);
+    if (
+      !checkMemberWipChange(this.plugin, card, { ...card, tags }, t('The card was not changed.'))
+    ) {
+      return;
+    }
+
     // 3. Mark card as being updated
     this.pendingMemberUpdates.add(cardId);
 
@@ -3,9 +3,11 @@ import {
   App,
   DropdownComponent,
   Modal,
+  Notice,
   PluginSettingTab,
   Setting,
   ToggleComponent,
+  normalizePath,
 } from 'obsidian';
 
 import { KanbanView } from './KanbanView';
@@ -36,6 +38,30 @@ import {
   TagSymbolSettingTemplate,
 } from './components/types';
 import { getParentWindow } from './dnd/util/getWindow';
+import { DEFAULT_BOARD_TEMPLATE_FOLDER } from './helpers/boardTemplates';
+import {
+  DEFAULT_EMAIL_OUTPUT_FOLDER,
+  EmailTransportType,
+  SmtpAuthType,
+  SmtpTlsMode,
+  createEmailTransport,
+} from './helpers/emailTransport';
+import { DEFAULT_ICS_EXPORT_PATH, writeIcsExport } from './helpers/icsExport';
+import { LaneRule } from './helpers/laneRules';
+import {
+  DEFAULT_MEMBER_COLUMNS,
+  MemberColumnConfig,
+  MemberColumnMatch,
+  createMemberColumn,
+  getMemberColumns,
+  isWipColumn,
+} from './helpers/memberWorkflow';
+import {
+  DEFAULT_REMINDER_SUBJECT,
+  DEFAULT_REMINDER_TEMPLATE,
+  DEFAULT_REMINDER_TEMPLATE_PATH,
+} from './helpers/reminderEmail';
+import { WipLimitMode } from './helpers/wipLimits';
 import { t } from './lang/helpers';
 import KanbanPlugin from './main';
 import { frontmatterKey } from './parsers/common';
@@ -75,6 +101,8 @@ export interface TeamMemberColorConfig {
   background: string;
   text: string;
   email?: string;
+  // Maximum number of unfinished #doing cards assigned to the member across all boards
+  wipLimit?: number;
 }
 
 export interface KanbanSettings {
@@ -92,6 +120,7 @@ export interface KanbanSettings {
   'full-list-lane-width'?: boolean;
   'hide-card-count'?: boolean;
   'inline-metadata-position'?: 'body' | 'footer' | 'metadata-table';
+  'lane-rules'?: Record<string, LaneRule[]>;
   'lane-width'?: number;
   'link-date-to-daily-note'?: boolean;
   'list-collapse'?: boolean[];
@@ -138,6 +167,12 @@ export interface KanbanSettings {
   editable?: boolean;
   memberAssignmentPrefix?: string;
   'auto-move-done-to-lane'?: boolean;
+  'done-lanes'?: string;
+  'recurring-card-lane'?: string;
+  'recurring-card-completed-action'?: 'keep' | 'archive';
+  enableTimeTracking?: boolean;
+  'activity-log'?: boolean;
+  'wip-limit-mode'?: WipLimitMode;
   'auto-add-lane-tag'?: boolean;
   'auto-add-board-tag'?: boolean;
   'hide-lane-tag-display'?: boolean;
@@ -147,10 +182,21 @@ export interface KanbanSettings {
   enableDueDateEmailReminders?: boolean;
   dueDateReminderLastRun?: number;
   dueDateReminderTimeframeDays?: number;
+  reminderEmailTemplatePath?: string;
   enableAutomaticEmailSending?: boolean;
   automaticEmailSenderAddress?: string;
   automaticEmailAppPassword?: string;
   automaticEmailSendingFrequencyDays?: number;
+  emailTransportType?: EmailTransportType;
+  smtpHost?: string;
+  smtpPort?: number;
+  smtpTlsMode?: SmtpTlsMode;
+  smtpAuthType?: SmtpAuthType;
+  smtpUsername?: string;
+  emailOutputFolder?: string;
+  icsExportPath?: string;
+  icsAutoRefresh?: boolean;
+  boardTemplateFolder?: string;
   hideDoneLane?: boolean;
   timelineDayWidth?: number;
   timelineCardHeight?: number;
@@ -160,6 +206,7 @@ export interface KanbanSettings {
   'hide-linked-cards-when-only-done'?: boolean; // Hide linked cards display when only done cards exist
   'use-kanban-board-background-colors'?: boolean; // Use kanban board background colors in embeds
   'member-view-lane-width'?: number; // Width of lanes in member view
+  'member-view-columns'?: MemberColumnConfig[];
   'print-debug'?: boolean; // Enable debug logging
 }
 
@@ -210,6 +257,7 @@ export const settingKeyLookup: Set<keyof KanbanSettings> = new Set([
   'full-list-lane-width',
   'hide-card-count',
   'inline-metadata-position',
+  'lane-rules',
   'lane-width',
   'link-date-to-daily-note',
   'list-collapse',
@@ -244,6 +292,12 @@ export const settingKeyLookup: Set<keyof KanbanSettings> = new Set([
   'editable',
   'memberAssignmentPrefix',
   'auto-move-done-to-lane',
+  'done-lanes',
+  'recurring-card-lane',
+  'recurring-card-completed-action',
+  'enableTimeTracking',
+  'activity-log',
+  'wip-limit-mode',
   'auto-add-lane-tag',
   'auto-add-board-tag',
   'hide-lane-tag-display',
@@ -253,10 +307,21 @@ export const settingKeyLookup: Set<keyof KanbanSettings> = new Set([
   'enableDueDateEmailReminders',
   'dueDateReminderLastRun',
   'dueDateReminderTimeframeDays',
+  'reminderEmailTemplatePath',
   'enableAutomaticEmailSending',
   'automaticEmailSenderAddress',
   'automaticEmailAppPassword',
   'automaticEmailSendingFrequencyDays',
+  'emailTransportType',
+  'smtpHost',
+  'smtpPort',
+  'smtpTlsMode',
+  'smtpAuthType',
+  'smtpUsername',
+  'emailOutputFolder',
+  'icsExportPath',
+  'icsAutoRefresh',
+  'boardTemplateFolder',
   'hideDoneLane',
   'timelineDayWidth',
   'timelineCardHeight',
@@ -266,6 +331,7 @@ export const settingKeyLookup: Set<keyof KanbanSettings> = new Set([
   'hide-linked-cards-when-only-done',
   'use-kanban-board-background-colors',
   'member-view-lane-width',
+  'member-view-columns',
   'print-debug',
 ]);
 
@@ -385,12 +451,8 @@ export class SettingsManager {
       });
 
     new Setting(contentEl)
-      .setName(t("Hide 'Done' lane"))
-      .setDesc(
-        t(
-          'If enabled, lanes with the exact title "Done" (case-insensitive) will be hidden from the board view.'
-        )
-      )
+      .setName(t('Hide done lists'))
+      .setDesc(t('If enabled, the lists named in "Done lists" will be hidden from the board view.'))
       .addToggle((toggle) => {
         const [value, globalValue] = this.getSetting('hideDoneLane', local);
         let currentValue = value;
@@ -2302,10 +2364,10 @@ export class SettingsManager {
       });
 
     new Setting(contentEl)
-      .setName(t('Automatically move done cards to "Done" lane'))
+      .setName(t('Automatically move done cards to the done list'))
       .setDesc(
         t(
-          'When a card is marked as done, automatically move it to a lane named "Done". If the lane doesn\'t exist, it will be created.'
+          'When a card is marked as done, automatically move it to the first of the "Done lists". If none of them exist, it will be created.'
         )
       )
       .then((setting) => {
@@ -2350,6 +2412,215 @@ export class SettingsManager {
           });
       });
 
+    new Setting(contentEl)
+      .setName(t('Done lists'))
+      .setDesc(
+        t(
+          'Comma-separated titles of the lists that hold finished cards, e.g. "Shipped, Closed". Titles are case-insensitive and * matches any text. Used when auto-moving done cards, hiding done lists, and to leave cards in these lists out of reminders, linked cards and the Workspace view\'s "Exclude done" filter.'
+        )
+      )
+      .addText((text) => {
+        const [value, globalValue] = this.getSetting('done-lanes', local);
+
+        text.inputEl.placeholder = `${globalValue || DEFAULT_SETTINGS['done-lanes']} (${t('default')})`;
+        text.inputEl.value = value ? (value as string) : '';
+
+        text.onChange((val) => {
+          if (val.trim()) {
+            this.applySettingsUpdate({
+              'done-lanes': {
+                $set: val,
+              },
+            });
+
+            return;
+          }
+
+          this.applySettingsUpdate({
+            $unset: ['done-lanes'],
+          });
+        });
+      });
+
+    new Setting(contentEl)
+      .setName(t('Lane for recurring cards'))
+      .setDesc(
+        t(
+          'When a card with a 🔁 repeat rule is completed, its next instance is added to the list with this title. Leave empty to use the list the card was completed in.'
+        )
+      )
+      .addText((text) => {
+        const [value, globalValue] = this.getSetting('recurring-card-lane', local);
+
+        text.inputEl.placeholder = globalValue
+          ? `${globalValue} (${t('default')})`
+          : t('Same list as the completed card');
+        text.inputEl.value = value ? (value as string) : '';
+
+        text.onChange((val) => {
+          if (val) {
+            this.applySettingsUpdate({
+              'recurring-card-lane': {
+                $set: val,
+              },
+            });
+
+            return;
+          }
+
+          this.applySettingsUpdate({
+            $unset: ['recurring-card-lane'],
+          });
+        });
+      });
+
+    new Setting(contentEl)
+      .setName(t('Completed recurring cards'))
+      .setDesc(
+        t(
+          'Choose whether the completed instance of a recurring card stays on the board or is archived once its next instance has been created.'
+        )
+      )
+      .addDropdown((dropdown) => {
+        dropdown.addOption('keep', t('Keep on board'));
+        dropdown.addOption('archive', t('Archive'));
+
+        const [value, globalValue] = this.getSetting('recurring-card-completed-action', local);
+
+        dropdown.setValue(
+          (value as string) ||
+            (globalValue as string) ||
+            DEFAULT_SETTINGS['recurring-card-completed-action']
+        );
+        dropdown.onChange((value) => {
+          this.applySettingsUpdate({
+            'recurring-card-completed-action': {
+              $set: value as 'keep' | 'archive',
+            },
+          });
+        });
+      });
+
+    new Setting(contentEl)
+      .setName(t('Enable time tracking'))
+      .setDesc(
+        t(
+          'Show a start/stop timer on cards. Each tracked session is saved in the card as a [time:: start/end] field and the total is shown in the card footer.'
+        )
+      )
+      .then((setting) => {
+        let toggleComponent: ToggleComponent;
+
+        setting
+          .addToggle((toggle) => {
+            toggleComponent = toggle;
+
+            const [value, globalValue] = this.getSetting('enableTimeTracking', local);
+            const currentActualValue =
+              value !== undefined
+                ? value
+                : globalValue !== undefined
+                  ? globalValue
+                  : DEFAULT_SETTINGS.enableTimeTracking;
+            toggle.setValue(currentActualValue as boolean);
+
+            toggle.onChange((newValue) => {
+              this.applySettingsUpdate({
+                enableTimeTracking: {
+                  $set: newValue,
+                },
+              });
+            });
+          })
+          .addExtraButton((b) => {
+            b.setIcon('lucide-rotate-ccw')
+              .setTooltip(t('Reset to default'))
+              .onClick(() => {
+                const [, globalValue] = this.getSetting('enableTimeTracking', local);
+                const defaultValue =
+                  globalValue !== undefined ? globalValue : DEFAULT_SETTINGS.enableTimeTracking;
+                toggleComponent.setValue(defaultValue as boolean);
+
+                this.applySettingsUpdate({
+                  $unset: ['enableTimeTracking'],
+                });
+              });
+          });
+      });
+
+    new Setting(contentEl)
+      .setName(t('Record card activity'))
+      .setDesc(
+        t(
+          'Keep a history of when each card was created, moved to another list, assigned or unassigned, completed and reopened. The history is saved in the card as an [activity:: ...] field and shown as a timeline on the card.'
+        )
+      )
+      .then((setting) => {
+        let toggleComponent: ToggleComponent;
+
+        setting
+          .addToggle((toggle) => {
+            toggleComponent = toggle;
+
+            const [value, globalValue] = this.getSetting('activity-log', local);
+            const currentActualValue =
+              value !== undefined
+                ? value
+                : globalValue !== undefined
+                  ? globalValue
+                  : DEFAULT_SETTINGS['activity-log'];
+            toggle.setValue(currentActualValue as boolean);
+
+            toggle.onChange((newValue) => {
+              this.applySettingsUpdate({
+                'activity-log': {
+                  $set: newValue,
+                },
+              });
+            });
+          })
+          .addExtraButton((b) => {
+            b.setIcon('lucide-rotate-ccw')
+              .setTooltip(t('Reset to default'))
+              .onClick(() => {
+                const [, globalValue] = this.getSetting('activity-log', local);
+                const defaultValue =
+                  globalValue !== undefined ? globalValue : DEFAULT_SETTINGS['activity-log'];
+                toggleComponent.setValue(defaultValue as boolean);
+
+                this.applySettingsUpdate({
+                  $unset: ['activity-log'],
+                });
+              });
+          });
+      });
+
+    new Setting(contentEl)
+      .setName(t('WIP limit enforcement'))
+      .setDesc(
+        t(
+          'What happens when a card is dropped into a list that is already at its limit, set by adding a number in parentheses to the list title, e.g. "Doing (3)". Also applies to team member WIP limits.'
+        )
+      )
+      .addDropdown((dropdown) => {
+        dropdown.addOption('off', t('Only show the count'));
+        dropdown.addOption('warn', t('Warn'));
+        dropdown.addOption('block', t('Block the drop'));
+
+        const [value, globalValue] = this.getSetting('wip-limit-mode', local);
+
+        dropdown.setValue(
+          (value as string) || (globalValue as string) || DEFAULT_SETTINGS['wip-limit-mode']
+        );
+        dropdown.onChange((value) => {
+          this.applySettingsUpdate({
+            'wip-limit-mode': {
+              $set: value as WipLimitMode,
+            },
+          });
+        });
+      });
+
     new Setting(contentEl)
       .setName(t('Hide lane tags from kanban view'))
       .setDesc(
@@ -2537,6 +2808,7 @@ export class KanbanSettingsTab extends PluginSettingTab {
 
     this.settingsManager.constructUI(containerEl, t('Kanban board settings'), false);
     this.renderTeamMembersSetting(containerEl);
+    this.renderMemberViewColumnsSetting(containerEl);
     this.renderDateColorSettings(containerEl);
     this.renderTagColorSettings(containerEl);
     this.renderTagSymbolSettings(containerEl);
@@ -2598,6 +2870,45 @@ export class KanbanSettingsTab extends PluginSettingTab {
         text.inputEl.min = '0'; // Minimum value for the timeframe
       });
 
+    new Setting(containerEl)
+      .setName(t('Reminder email template'))
+      .setDesc(
+        t(
+          'Path to a markdown or HTML note used for reminder emails. Available placeholders: {{member}}, {{tasks}}, {{overdue}}, {{no-due-date}}, {{board}}, {{timeframe}} and {{date}}. Set a "subject" in the frontmatter (or a <title> in HTML) to change the subject. Leave empty to use the built-in template.'
+        )
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_REMINDER_TEMPLATE_PATH)
+          .setValue(this.plugin.settings.reminderEmailTemplatePath || '')
+          .onChange(async (value) => {
+            this.plugin.settings.reminderEmailTemplatePath = value.trim();
+            await this.plugin.saveSettings();
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText(t('Create template'))
+          .setTooltip(t('Create a template note from the built-in template'))
+          .onClick(async () => {
+            const path = normalizePath(
+              this.plugin.settings.reminderEmailTemplatePath || DEFAULT_REMINDER_TEMPLATE_PATH
+            );
+            if (this.app.vault.getAbstractFileByPath(path)) {
+              new Notice(t('A file already exists at that path.'));
+              return;
+            }
+
+            await this.app.vault.create(
+              path,
+              `---\nsubject: ${DEFAULT_REMINDER_SUBJECT}\n---\n\n${DEFAULT_REMINDER_TEMPLATE}`
+            );
+            this.plugin.settings.reminderEmailTemplatePath = path;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
     // --- New Settings for Automatic Email Sending ---
     containerEl.createEl('h4', { text: t('Automatic Email Sending') });
 
@@ -2605,7 +2916,7 @@ export class KanbanSettingsTab extends PluginSettingTab {
       .setName(t('Enable Automatic Email Sending'))
       .setDesc(
         t(
-          "If enabled, the plugin will attempt to send due date reminders automatically using the configured Gmail account (App Password required). WARNING: This stores your email and App Password in Obsidian's settings."
+          "If enabled, the plugin will attempt to send due date reminders automatically using the email transport configured below. WARNING: SMTP credentials are stored in Obsidian's settings."
         )
       )
       .addToggle((toggle) => {
@@ -2619,9 +2930,31 @@ export class KanbanSettingsTab extends PluginSettingTab {
       });
 
     if (this.plugin.settings.enableAutomaticEmailSending) {
+      const transportType = this.plugin.settings.emailTransportType || 'smtp';
+
+      new Setting(containerEl)
+        .setName(t('Email transport'))
+        .setDesc(
+          t(
+            'How reminder emails are delivered. SMTP sends them through a mail server, the folder option writes .eml files into the vault, and simulated only logs them to the developer console.'
+          )
+        )
+        .addDropdown((dropdown) => {
+          dropdown
+            .addOption('smtp', t('SMTP server'))
+            .addOption('eml-folder', t('Write .eml files to a folder'))
+            .addOption('simulated', t('Simulated (debug log only)'))
+            .setValue(transportType)
+            .onChange(async (value) => {
+              this.plugin.settings.emailTransportType = value as EmailTransportType;
+              await this.plugin.saveSettings();
+              this.display();
+            });
+        });
+
       new Setting(containerEl)
-        .setName(t('Sender Gmail Address'))
-        .setDesc(t('Your full Gmail address (e.g., user@gmail.com).'))
+        .setName(t('Sender Address'))
+        .setDesc(t('The address reminder emails are sent from (e.g., user@gmail.com).'))
         .addText((text) =>
           text
             .setPlaceholder('user@gmail.com')
@@ -2632,24 +2965,147 @@ export class KanbanSettingsTab extends PluginSettingTab {
             })
         );
 
-      new Setting(containerEl)
-        .setName(t('Gmail App Password'))
-        .setDesc(
-          t(
-            'An App Password generated for Obsidian from your Google Account settings. This is NOT your regular Gmail password.'
-          )
-        )
-        .addText((text) => {
-          text.inputEl.type = 'password'; // Mask the input
-          text
-            .setPlaceholder('abcd efgh ijkl mnop')
-            .setValue(this.plugin.settings.automaticEmailAppPassword || '')
+      if (transportType === 'smtp') {
+        const authType = this.plugin.settings.smtpAuthType || 'login';
+
+        new Setting(containerEl)
+          .setName(t('SMTP host'))
+          .setDesc(t('The mail server to send through, e.g. smtp.gmail.com or your own relay.'))
+          .addText((text) =>
+            text
+              .setPlaceholder('smtp.gmail.com')
+              .setValue(this.plugin.settings.smtpHost || '')
+              .onChange(async (value) => {
+                this.plugin.settings.smtpHost = value.trim();
+                await this.plugin.saveSettings();
+              })
+          );
+
+        new Setting(containerEl)
+          .setName(t('SMTP port'))
+          .setDesc(t('Usually 465 for TLS, 587 for STARTTLS and 25 for unencrypted relays.'))
+          .addText((text) => {
+            text.inputEl.type = 'number';
+            text.inputEl.min = '1';
+            text
+              .setPlaceholder('465')
+              .setValue(this.plugin.settings.smtpPort?.toString() || '')
+              .onChange(async (value) => {
+                const numValue = parseInt(value);
+                if (!isNaN(numValue) && numValue > 0) {
+                  this.plugin.settings.smtpPort = numValue;
+                  text.inputEl.removeClass('error');
+                } else {
+                  this.plugin.settings.smtpPort = DEFAULT_SETTINGS.smtpPort;
+                  text.inputEl.addClass('error');
+                }
+                await this.plugin.saveSettings();
+              });
+          });
+
+        new Setting(containerEl).setName(t('SMTP encryption')).addDropdown((dropdown) => {
+          dropdown
+            .addOption('tls', t('TLS'))
+            .addOption('starttls', t('STARTTLS'))
+            .addOption('none', t('None'))
+            .setValue(this.plugin.settings.smtpTlsMode || 'tls')
+            .onChange(async (value) => {
+              this.plugin.settings.smtpTlsMode = value as SmtpTlsMode;
+              await this.plugin.saveSettings();
+            });
+        });
+
+        new Setting(containerEl).setName(t('SMTP authentication')).addDropdown((dropdown) => {
+          dropdown
+            .addOption('login', t('LOGIN'))
+            .addOption('plain', t('PLAIN'))
+            .addOption('none', t('None'))
+            .setValue(authType)
             .onChange(async (value) => {
-              this.plugin.settings.automaticEmailAppPassword = value;
+              this.plugin.settings.smtpAuthType = value as SmtpAuthType;
               await this.plugin.saveSettings();
+              this.display();
             });
         });
 
+        if (authType !== 'none') {
+          new Setting(containerEl)
+            .setName(t('SMTP username'))
+            .setDesc(t('Leave empty to log in with the sender address.'))
+            .addText((text) =>
+              text.setValue(this.plugin.settings.smtpUsername || '').onChange(async (value) => {
+                this.plugin.settings.smtpUsername = value.trim();
+                await this.plugin.saveSettings();
+              })
+            );
+
+          new Setting(containerEl)
+            .setName(t('SMTP password'))
+            .setDesc(
+              t(
+                'For Gmail, use an App Password generated from your Google Account settings. This is NOT your regular Gmail password.'
+              )
+            )
+            .addText((text) => {
+              text.inputEl.type = 'password'; // Mask the input
+              text
+                .setPlaceholder('abcd efgh ijkl mnop')
+                .setValue(this.plugin.settings.automaticEmailAppPassword || '')
+                .onChange(async (value) => {
+                  this.plugin.settings.automaticEmailAppPassword = value;
+                  await this.plugin.saveSettings();
+                });
+            });
+        }
+      } else if (transportType === 'eml-folder') {
+        new Setting(containerEl)
+          .setName(t('Email output folder'))
+          .setDesc(t('Vault folder that reminder emails are written to as .eml files.'))
+          .addText((text) =>
+            text
+              .setPlaceholder(DEFAULT_EMAIL_OUTPUT_FOLDER)
+              .setValue(this.plugin.settings.emailOutputFolder || '')
+              .onChange(async (value) => {
+                this.plugin.settings.emailOutputFolder = value.trim();
+                await this.plugin.saveSettings();
+              })
+          );
+      }
+
+      new Setting(containerEl)
+        .setName(t('Send test email'))
+        .setDesc(t('Sends a test email to the sender address using the settings above.'))
+        .addButton((button) =>
+          button.setButtonText(t('Send')).onClick(async () => {
+            const sender = this.plugin.settings.automaticEmailSenderAddress;
+            if (!sender) {
+              new Notice(t('Enter a sender address first.'));
+              return;
+            }
+
+            button.setDisabled(true);
+            try {
+              const result = await createEmailTransport(this.app, this.plugin.settings).send({
+                from: sender,
+                to: sender,
+                subject: 'Kanban test email',
+                text: 'This is a test email from the Kanban plugin. Your email settings work.',
+                html: '<p>This is a test email from the Kanban plugin. Your email settings work.</p>',
+              });
+              new Notice(
+                result.detail
+                  ? `${t('Test email sent.')} (${result.detail})`
+                  : t('Test email sent.')
+              );
+            } catch (error) {
+              console.error('[KanbanPlugin] Error sending test email:', error);
+              new Notice(`${t('Failed to send test email:')} ${error?.message || error}`, 8000);
+            } finally {
+              button.setDisabled(false);
+            }
+          })
+        );
+
       new Setting(containerEl)
         .setName(t('Automatic Sending Frequency (Days)'))
         .setDesc(
@@ -2679,6 +3135,60 @@ export class KanbanSettingsTab extends PluginSettingTab {
     }
     // --- End Automatic Email Sending Settings ---
 
+    containerEl.createEl('h3', { text: t('Calendar subscription') });
+
+    new Setting(containerEl)
+      .setName(t('Calendar file'))
+      .setDesc(
+        t(
+          'Vault path of the .ics file that dated cards from all boards are exported to. Calendar apps can subscribe to it when the vault is synced to a location they can reach.'
+        )
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_ICS_EXPORT_PATH)
+          .setValue(this.plugin.settings.icsExportPath || '')
+          .onChange(async (value) => {
+            this.plugin.settings.icsExportPath = value.trim();
+            await this.plugin.saveSettings();
+          })
+      )
+      .addButton((button) =>
+        button.setButtonText(t('Export now')).onClick(() => writeIcsExport(this.plugin))
+      );
+
+    new Setting(containerEl)
+      .setName(t('Refresh calendar file automatically'))
+      .setDesc(t('Rewrites the calendar file whenever a board changes.'))
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.icsAutoRefresh || false).onChange(async (value) => {
+          this.plugin.settings.icsAutoRefresh = value;
+          await this.plugin.saveSettings();
+          if (value) writeIcsExport(this.plugin, false);
+        })
+      );
+
+    containerEl.createEl('h3', { text: t('Board templates') });
+
+    new Setting(containerEl)
+      .setName(t('Template folder'))
+      .setDesc(
+        t(
+          'Vault folder that board templates are saved to and picked from. Boards in this folder are left out of the member, calendar and analytics views.'
+        )
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_BOARD_TEMPLATE_FOLDER)
+          .setValue(this.plugin.settings.boardTemplateFolder || '')
+          .onChange(async (value) => {
+            this.plugin.settings.boardTemplateFolder = value.trim();
+            await this.plugin.saveSettings();
+            // Boards in the template folder are left out of the index
+            this.plugin.cardIndex.requestRebuild();
+          })
+      );
+
     this.renderHiddenSettings(containerEl);
 
     // Debug section - moved to bottom of all settings
@@ -2755,7 +3265,7 @@ export class KanbanSettingsTab extends PluginSettingTab {
 
         const memberSetting = new Setting(memberColorSettingContainer)
           .setName(member)
-          .setDesc('Set background, text colors, and email for this member.');
+          .setDesc('Set background, text colors, email, and WIP limit for this member.');
 
         memberSetting.controlEl.addClass('kanban-member-color-controls');
 
@@ -2823,6 +3333,33 @@ export class KanbanSettingsTab extends PluginSettingTab {
             });
         });
 
+        // WIP Limit Input
+        const wipLabel = memberSetting.controlEl.createEl('span', {
+          text: `${t('WIP limit')}:`,
+          cls: 'kanban-color-picker-label',
+        });
+        wipLabel.style.marginLeft = '10px';
+
+        memberSetting.addText((text) => {
+          text.inputEl.type = 'number';
+          text.inputEl.min = '0';
+          text.inputEl.style.width = '4em';
+          text.inputEl.style.marginLeft = '5px';
+          text
+            .setValue(currentMemberConfig.wipLimit ? currentMemberConfig.wipLimit.toString() : '')
+            .setPlaceholder('-')
+            .onChange(async (value) => {
+              const limit = parseInt(value);
+              const freshMemberColors = { ...(this.plugin.settings.teamMemberColors || {}) };
+              freshMemberColors[member] = {
+                ...(freshMemberColors[member] || { background: '', text: '' }),
+                wipLimit: limit > 0 ? limit : undefined,
+              };
+              this.plugin.settings.teamMemberColors = freshMemberColors;
+              await this.plugin.saveSettings();
+            });
+        });
+
         // Remove Member Button for each member
         memberSetting.addButton((button) =>
           button
@@ -2846,6 +3383,137 @@ export class KanbanSettingsTab extends PluginSettingTab {
     renderMembersWithColors();
   }
 
+  renderMemberViewColumnsSetting(containerEl: HTMLElement) {
+    containerEl.createEl('h4', { text: t('Member view columns') });
+
+    new Setting(containerEl)
+      .setDesc(
+        t(
+          'The columns of the Member view, in order. Each column collects cards with a tag, cards in lists whose title matches a pattern (use * as a wildcard), or checked cards. Cards matching no column go to the "Everything else" column. Dragging a card between columns updates it on its board. Cards in columns with the toggle on count toward team member WIP limits.'
+        )
+      )
+      .addButton((button) =>
+        button.setButtonText(t('Add column')).onClick(async () => {
+          this.plugin.settings['member-view-columns'] = [
+            ...getMemberColumns(this.plugin.settings),
+            createMemberColumn(),
+          ];
+          await this.plugin.saveSettings();
+          renderColumns();
+        })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('lucide-rotate-ccw')
+          .setTooltip(t('Reset to default'))
+          .onClick(async () => {
+            delete this.plugin.settings['member-view-columns'];
+            await this.plugin.saveSettings();
+            renderColumns();
+          })
+      );
+
+    const columnsContainer = containerEl.createDiv();
+
+    const matchLabels: Record<MemberColumnMatch, string> = {
+      tag: t('Tag'),
+      lane: t('List title'),
+      checked: t('Checked'),
+      none: t('Everything else'),
+    };
+
+    const saveColumns = async (columns: MemberColumnConfig[]) => {
+      this.plugin.settings['member-view-columns'] = columns;
+      await this.plugin.saveSettings();
+    };
+
+    const renderColumns = () => {
+      columnsContainer.empty();
+
+      const columns = getMemberColumns(this.plugin.settings);
+
+      columns.forEach((column, index) => {
+        const updateColumn = (changes: Partial<MemberColumnConfig>) =>
+          saveColumns(
+            getMemberColumns(this.plugin.settings).map((c) =>
+              c.id === column.id ? { ...c, ...changes } : c
+            )
+          );
+
+        const moveColumn = async (offset: number) => {
+          const next = [...getMemberColumns(this.plugin.settings)];
+          const [moved] = next.splice(index, 1);
+          next.splice(index + offset, 0, moved);
+          await saveColumns(next);
+          renderColumns();
+        };
+
+        const columnSetting = new Setting(columnsContainer)
+          .addText((text) =>
+            text
+              .setPlaceholder(t('Column title'))
+              .setValue(column.title)
+              .onChange((value) => updateColumn({ title: value }))
+          )
+          .addDropdown((dropdown) => {
+            (Object.keys(matchLabels) as MemberColumnMatch[]).forEach((match) =>
+              dropdown.addOption(match, matchLabels[match])
+            );
+            dropdown.setValue(column.match).onChange(async (value) => {
+              await updateColumn({ match: value as MemberColumnMatch });
+              renderColumns();
+            });
+          });
+
+        if (column.match === 'tag' || column.match === 'lane') {
+          columnSetting.addText((text) =>
+            text
+              .setPlaceholder(column.match === 'tag' ? '#review' : 'Review*')
+              .setValue(column.value || '')
+              .onChange((value) => updateColumn({ value }))
+          );
+        }
+
+        columnSetting
+          .addToggle((toggle) =>
+            toggle
+              .setTooltip(t('Counts toward member WIP limits'))
+              .setValue(isWipColumn(column))
+              .onChange((value) => updateColumn({ countsTowardWip: value }))
+          )
+          .addExtraButton((button) =>
+            button
+              .setIcon('lucide-arrow-up')
+              .setTooltip(t('Move up'))
+              .setDisabled(index === 0)
+              .onClick(() => moveColumn(-1))
+          )
+          .addExtraButton((button) =>
+            button
+              .setIcon('lucide-arrow-down')
+              .setTooltip(t('Move down'))
+              .setDisabled(index === columns.length - 1)
+              .onClick(() => moveColumn(1))
+          )
+          .addExtraButton((button) =>
+            button
+              .setIcon('lucide-trash-2')
+              .setTooltip(t('Delete'))
+              .setDisabled(columns.length <= 1)
+              .onClick(async () => {
+                const next = getMemberColumns(this.plugin.settings).filter(
+                  (c) => c.id !== column.id
+                );
+                await saveColumns(next.length ? next : DEFAULT_MEMBER_COLUMNS);
+                renderColumns();
+              })
+          );
+      });
+    };
+
+    renderColumns();
+  }
+
   renderDateColorSettings(containerEl: HTMLElement) {
     // Implementation of renderDateColorSettings method
   }
@@ -2903,6 +3571,7 @@ export const DEFAULT_SETTINGS: KanbanSettings = {
   'full-list-lane-width': false,
   'hide-card-count': false,
   'inline-metadata-position': 'body',
+  'lane-rules': {},
   'lane-width': 283,
   'link-date-to-daily-note': false,
   'list-collapse': [],
@@ -3032,6 +3701,12 @@ export const DEFAULT_SETTINGS: KanbanSettings = {
   editable: true,
   memberAssignmentPrefix: '@@',
   'auto-move-done-to-lane': true,
+  'done-lanes': 'Done',
+  'recurring-card-lane': '',
+  'recurring-card-completed-action': 'keep',
+  enableTimeTracking: false,
+  'activity-log': false,
+  'wip-limit-mode': 'off',
   'auto-add-lane-tag': true,
   'auto-add-board-tag': true,
   'hide-lane-tag-display': true,
@@ -3041,10 +3716,21 @@ export const DEFAULT_SETTINGS: KanbanSettings = {
   enableDueDateEmailReminders: true,
   dueDateReminderLastRun: 0,
   dueDateReminderTimeframeDays: 7,
+  reminderEmailTemplatePath: '',
   enableAutomaticEmailSending: true,
   automaticEmailSenderAddress: '',
   automaticEmailAppPassword: '',
   automaticEmailSendingFrequencyDays: 7,
+  emailTransportType: 'smtp',
+  smtpHost: 'smtp.gmail.com',
+  smtpPort: 465,
+  smtpTlsMode: 'tls',
+  smtpAuthType: 'login',
+  smtpUsername: '',
+  emailOutputFolder: DEFAULT_EMAIL_OUTPUT_FOLDER,
+  icsExportPath: DEFAULT_ICS_EXPORT_PATH,
+  icsAutoRefresh: false,
+  boardTemplateFolder: DEFAULT_BOARD_TEMPLATE_FOLDER,
   hideDoneLane: true,
   timelineDayWidth: 50,
   timelineCardHeight: 40,
@@ -1,5 +1,5 @@
 import update from 'immutability-helper';
-import { App, TFile, moment } from 'obsidian';
+import { App, Notice, TFile, moment } from 'obsidian';
 import { useEffect, useState } from 'preact/compat';
 
 import { KanbanView } from './KanbanView';
@@ -11,7 +11,18 @@ import {
   getDefaultTimeFormat,
 } from './components/helpers';
 import { Board, BoardTemplate, Item, ItemData, Lane } from './components/types';
+import { recordBoardActivity } from './helpers/activityLog';
+import { BoardHistory, BoardHistoryGroup } from './helpers/boardHistory';
 import { debugLog } from './helpers/debugLogger';
+import {
+  findDoneLaneIndex,
+  getNewDoneLaneTitle,
+  isDoneLane,
+  parseDoneLanes,
+} from './helpers/doneLanes';
+import { applyLaneMoveRules } from './helpers/laneRules';
+import { addRecurringInstance } from './helpers/recurringCards';
+import { t } from './lang/helpers';
 import { ListFormat } from './parsers/List';
 import { BaseFormat, frontmatterKey, shouldRefreshBoard } from './parsers/common';
 import { getTaskStatusDone } from './parsers/helpers/inlineMetadata';
@@ -33,6 +44,9 @@ export class StateManager {
 
   parser: BaseFormat;
 
+  history: BoardHistory = new BoardHistory();
+  private isApplyingHistory = false;
+
   constructor(
     app: App,
     initialViewForFileContext: KanbanView,
@@ -143,6 +157,8 @@ export class StateManager {
     try {
       const board = this.getParsedBoard(md);
       await view.prerender(board);
+      // The file changed outside of this board, so earlier snapshots would discard that change
+      this.history.clear();
       this.setState(board, false);
     } catch (e) {
       this.setError(e);
@@ -188,8 +204,13 @@ export class StateManager {
     }
   }
 
-  setState(state: Board | ((board: Board) => Board), shouldSave: boolean = true) {
+  setState(
+    state: Board | ((board: Board) => Board),
+    shouldSave: boolean = true,
+    historyGroup?: BoardHistoryGroup
+  ) {
     try {
+      const previousState = this.state;
       const oldSettings = this.state?.data.settings;
       const incomingState = typeof state === 'function' ? state(this.state) : state;
 
@@ -218,6 +239,21 @@ export class StateManager {
         this.state = incomingState;
         this.compileSettings();
       }
+
+      if (
+        shouldSave &&
+        previousState &&
+        this.state !== previousState &&
+        !this.isApplyingHistory &&
+        this.getSetting('activity-log')
+      ) {
+        this.state = recordBoardActivity(this, previousState, this.state);
+      }
+
+      // Only changes made on the board are undoable, not reloads from disk
+      if (shouldSave && previousState && this.state !== previousState && !this.isApplyingHistory) {
+        this.history.record(previousState, historyGroup);
+      }
       debugLog(
         `[StateManager] setState: State has been set. Current this.state.id: ${this.state?.id}, for SM file: ${this.file?.path}`
       );
@@ -252,6 +288,59 @@ export class StateManager {
     }
   }
 
+  undo(getBoardStateManager: (path: string) => StateManager | undefined) {
+    return this.stepHistory('undo', getBoardStateManager);
+  }
+
+  redo(getBoardStateManager: (path: string) => StateManager | undefined) {
+    return this.stepHistory('redo', getBoardStateManager);
+  }
+
+  // Changes that span several boards are only stepped when every board involved is still open
+  // and has not been changed since, otherwise a moved card could be duplicated or lost.
+  private stepHistory(
+    direction: 'undo' | 'redo',
+    getBoardStateManager: (path: string) => StateManager | undefined
+  ) {
+    const peek = (stateManager: StateManager) =>
+      direction === 'undo' ? stateManager.history.peekUndo() : stateManager.history.peekRedo();
+
+    const entry = peek(this);
+    if (!entry) return false;
+
+    const participants: StateManager[] = [this];
+
+    for (const path of entry.group?.boardPaths || []) {
+      if (path === this.file.path) continue;
+
+      const peer = getBoardStateManager(path);
+      if (!peer || peek(peer)?.group?.id !== entry.group.id) {
+        new Notice(
+          t('This change also affected another board that has since been closed or edited.')
+        );
+        return false;
+      }
+
+      participants.push(peer);
+    }
+
+    participants.forEach((stateManager) => stateManager.applyHistoryEntry(direction));
+    return true;
+  }
+
+  private applyHistoryEntry(direction: 'undo' | 'redo') {
+    const entry =
+      direction === 'undo' ? this.history.undo(this.state) : this.history.redo(this.state);
+    if (!entry) return;
+
+    this.isApplyingHistory = true;
+    try {
+      this.setState(entry.board);
+    } finally {
+      this.isApplyingHistory = false;
+    }
+  }
+
   useState(): Board {
     const [state, setState] = useState(this.state);
 
@@ -521,23 +610,6 @@ export class StateManager {
 
     const archived: Item[] = [];
     const shouldAppendArchiveDate = !!this.getSetting('archive-with-date');
-    const archiveDateSeparator = this.getSetting('archive-date-separator');
-    const archiveDateFormat = this.getSetting('archive-date-format');
-    const archiveDateAfterTitle = this.getSetting('append-archive-date');
-
-    const appendArchiveDate = (item: Item) => {
-      const newTitle = [moment().format(archiveDateFormat)];
-
-      if (archiveDateSeparator) newTitle.push(archiveDateSeparator);
-
-      newTitle.push(item.data.titleRaw);
-
-      if (archiveDateAfterTitle) newTitle.reverse();
-
-      const titleRaw = newTitle.join(' ');
-
-      return this.parser.updateItemContent(item, titleRaw);
-    };
 
     const lanes = board.children.map((lane) => {
       return update(lane, {
@@ -563,7 +635,7 @@ export class StateManager {
           data: {
             archive: {
               $push: shouldAppendArchiveDate
-                ? await Promise.all(archived.map((item) => appendArchiveDate(item)))
+                ? await Promise.all(archived.map((item) => this.appendArchiveDate(item)))
                 : archived,
             },
           },
@@ -574,6 +646,24 @@ export class StateManager {
     }
   }
 
+  appendArchiveDate(item: Item) {
+    const archiveDateSeparator = this.getSetting('archive-date-separator');
+    const archiveDateFormat = this.getSetting('archive-date-format');
+    const archiveDateAfterTitle = this.getSetting('append-archive-date');
+
+    const newTitle = [moment().format(archiveDateFormat)];
+
+    if (archiveDateSeparator) newTitle.push(archiveDateSeparator);
+
+    newTitle.push(item.data.titleRaw);
+
+    if (archiveDateAfterTitle) newTitle.reverse();
+
+    const titleRaw = newTitle.join(' ');
+
+    return this.parser.updateItemContent(item, titleRaw);
+  }
+
   getNewItem(content: string, checkChar: string, forceEdit?: boolean, laneName?: string) {
     return this.parser.newItem(content, checkChar, forceEdit, laneName);
   }
@@ -618,7 +708,7 @@ export class StateManager {
   }
 
   // Helper function to handle auto-moving done cards
-  private handleAutoMoveDoneCard(board: Board, itemId: string, isChecked: boolean): Board {
+  handleAutoMoveDoneCard(board: Board, itemId: string, isChecked: boolean): Board {
     debugLog(
       `[StateManager] handleAutoMoveDoneCard: Called for item ${itemId}, isChecked: ${isChecked}`
     );
@@ -632,7 +722,7 @@ export class StateManager {
       return board; // No move needed
     }
 
-    const DONE_LANE_NAME = 'Done';
+    const doneLanes = parseDoneLanes(this.getSetting('done-lanes'));
     let sourceLaneIndex = -1;
     let itemIndexInSourceLane = -1;
     let itemToMove: Item | null = null;
@@ -660,11 +750,14 @@ export class StateManager {
       `[StateManager] handleAutoMoveDoneCard: Found item '${itemToMove.data.titleRaw}' in lane '${board.children[sourceLaneIndex].data.title}'`
     );
 
-    let doneLaneIndex = board.children.findIndex((lane) => lane.data.title === DONE_LANE_NAME);
+    // A card that is already in one of the done lanes stays where it is
+    let doneLaneIndex = isDoneLane(board.children[sourceLaneIndex], doneLanes)
+      ? sourceLaneIndex
+      : findDoneLaneIndex(board.children, doneLanes);
     let newBoard = board;
     debugLog(`[StateManager] handleAutoMoveDoneCard: Initial Done lane index: ${doneLaneIndex}`);
 
-    // If "Done" lane doesn't exist, create it
+    // If no done lane exists, create one
     if (doneLaneIndex === -1) {
       const newLaneId = generateInstanceId();
       const newLane: Lane = {
@@ -672,7 +765,7 @@ export class StateManager {
         type: 'lane', // Required by Nestable
         accepts: ['item'], // Required by Nestable
         data: {
-          title: DONE_LANE_NAME,
+          title: getNewDoneLaneTitle(doneLanes),
           // No other properties like collapsed, maxLimit, backgroundColor here for data
         },
         children: [],
@@ -683,20 +776,26 @@ export class StateManager {
       });
       doneLaneIndex = newBoard.children.length - 1; // New lane is at the end
       debugLog(
-        `[StateManager] handleAutoMoveDoneCard: "Done" lane created at index ${doneLaneIndex}`
+        `[StateManager] handleAutoMoveDoneCard: Done lane created at index ${doneLaneIndex}`
       );
     }
 
     // Move the item
     // Ensure itemToMove is correctly updated if its checked status changed in the calling function
-    const updatedItemToMove = { ...itemToMove, data: { ...itemToMove.data, checked: true } };
+    const updatedItemToMove = applyLaneMoveRules(
+      this,
+      newBoard.children[sourceLaneIndex],
+      this,
+      newBoard.children[doneLaneIndex],
+      { ...itemToMove, data: { ...itemToMove.data, checked: true } }
+    );
 
     if (sourceLaneIndex === doneLaneIndex) {
       // Item is already in the Done lane, potentially reorder to the end if behavior is desired
       // For now, if it's already in Done, we do nothing further to prevent loops or needless shuffles.
       // If it was just marked done and was already in Done, it just stays.
       debugLog(
-        `[StateManager] handleAutoMoveDoneCard: Item ${itemId} is already in the "Done" lane. No move performed.`
+        `[StateManager] handleAutoMoveDoneCard: Item ${itemId} is already in a done lane. No move performed.`
       );
       return newBoard;
     }
@@ -750,6 +849,11 @@ export class StateManager {
     // Handle auto-move if the card is marked as done
     if (data.checked === true) {
       newBoard = this.handleAutoMoveDoneCard(newBoard, itemId, true);
+
+      // Only a card that was just completed starts its next recurrence
+      if (!lanes[laneIdx].children[itemIdx].data.checked) {
+        newBoard = addRecurringInstance(this, newBoard, itemId, lanes[laneIdx]);
+      }
     }
 
     this.setState(newBoard);
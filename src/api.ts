@@ -0,0 +1,555 @@
+import update from 'immutability-helper';
+import { TFile, moment } from 'obsidian';
+
+import { IndexedCard } from './CardIndex';
+import { StateManager } from './StateManager';
+import { Board, Item } from './components/types';
+import { buildLinkToDailyNote, hasFrontmatterKey } from './helpers';
+import { recordBoardActivity } from './helpers/activityLog';
+import { debugLog } from './helpers/debugLogger';
+import { applyLaneMoveRules } from './helpers/laneRules';
+import { addRecurringInstance } from './helpers/recurringCards';
+import {
+  MemberWipCard,
+  checkLaneWipLimit,
+  checkMemberWipChange,
+  getMemberWipCard,
+} from './helpers/wipLimits';
+import KanbanPlugin from './main';
+import { boardToMd } from './parsers/formats/list';
+import { getTaskStatusDone } from './parsers/helpers/inlineMetadata';
+
+// Bumped whenever a method or type below changes in a way that breaks existing callers
+export const KANBAN_API_VERSION = 1;
+
+export interface KanbanApiBoard {
+  path: string;
+  name: string;
+  lanes: string[];
+  cardCount: number;
+}
+
+// A plain snapshot of a card. Cards are addressed by block ID; cards without one can be read
+// but not written to through the API.
+export interface KanbanApiCard {
+  blockId?: string;
+  boardPath: string;
+  boardName: string;
+  // null for archived cards
+  lane: string | null;
+  laneIndex: number;
+  archived: boolean;
+  inDoneLane: boolean;
+  title: string;
+  titleRaw: string;
+  checked: boolean;
+  tags: string[];
+  members: string[];
+  priority?: string;
+  // ISO dates (YYYY-MM-DD) and time (HH:mm), regardless of the board's date format
+  startDate?: string;
+  dueDate?: string;
+  time?: string;
+}
+
+export type KanbanApiDate = string | Date | moment.Moment;
+
+export interface KanbanCardQuery {
+  // Board paths or names
+  boards?: string[];
+  // With or without the leading #
+  tag?: string;
+  member?: string;
+  lane?: string;
+  checked?: boolean;
+  // Inclusive bounds on the due date. Cards without a due date never match these.
+  dueAfter?: KanbanApiDate;
+  dueBefore?: KanbanApiDate;
+  hasDueDate?: boolean;
+  includeArchived?: boolean;
+}
+
+export interface KanbanNewCardOptions {
+  checked?: boolean;
+  // Defaults to the board's "new card insertion" setting
+  position?: 'top' | 'bottom';
+  // Written in the board's own date and time formats and triggers
+  dueDate?: KanbanApiDate;
+  startDate?: KanbanApiDate;
+  time?: KanbanApiDate;
+  tags?: string[];
+  members?: string[];
+}
+
+export interface KanbanCardChangeEvent {
+  boardPaths: string[];
+  added: KanbanApiCard[];
+  removed: KanbanApiCard[];
+  updated: KanbanApiCard[];
+}
+
+export type KanbanCardChangeListener = (event: KanbanCardChangeEvent) => void;
+
+type BoardTransform = (board: Board, stateManager: StateManager) => Board;
+
+interface CardLocation {
+  item: Item;
+  // -1 when the card is archived
+  laneIndex: number;
+  itemIndex: number;
+}
+
+function toIsoDate(date?: moment.Moment) {
+  return date?.isValid() ? date.format('YYYY-MM-DD') : undefined;
+}
+
+function toApiCard(card: IndexedCard): KanbanApiCard {
+  const { data } = card;
+  return {
+    blockId: data.blockId || undefined,
+    boardPath: card.boardPath,
+    boardName: card.boardName,
+    lane: card.lane ? card.lane.data.title : null,
+    laneIndex: card.laneIndex,
+    archived: card.archived,
+    inDoneLane: card.inDoneLane,
+    title: data.title,
+    titleRaw: data.titleRaw,
+    checked: data.checked,
+    tags: card.tags,
+    members: card.assignedMembers,
+    priority: card.priority,
+    startDate: toIsoDate(data.metadata.startDate),
+    dueDate: toIsoDate(data.metadata.date),
+    time: data.metadata.time?.isValid() ? data.metadata.time.format('HH:mm') : undefined,
+  };
+}
+
+function getCardKey(card: KanbanApiCard) {
+  return card.blockId || `${card.lane}\u0000${card.titleRaw}`;
+}
+
+function findCard(board: Board, blockId: string): CardLocation | null {
+  for (let laneIndex = 0; laneIndex < board.children.length; laneIndex++) {
+    const itemIndex = board.children[laneIndex].children.findIndex(
+      (item) => item.data.blockId === blockId
+    );
+    if (itemIndex !== -1) {
+      return { item: board.children[laneIndex].children[itemIndex], laneIndex, itemIndex };
+    }
+  }
+
+  const archiveIndex = board.data.archive.findIndex((item) => item.data.blockId === blockId);
+  return archiveIndex === -1
+    ? null
+    : { item: board.data.archive[archiveIndex], laneIndex: -1, itemIndex: archiveIndex };
+}
+
+function requireCard(board: Board, blockId: string) {
+  const location = findCard(board, blockId.replace(/^\^/, ''));
+  if (!location) throw new Error(`No card with block ID ^${blockId} on this board`);
+  return location;
+}
+
+function requireLane(board: Board, lane: string | number) {
+  const laneIndex =
+    typeof lane === 'number'
+      ? lane
+      : board.children.findIndex(
+          (candidate) => candidate.data.title.toLowerCase() === lane.trim().toLowerCase()
+        );
+  if (!board.children[laneIndex]) throw new Error(`No list "${lane}" on this board`);
+  return laneIndex;
+}
+
+function removeCard(board: Board, { laneIndex, itemIndex }: CardLocation) {
+  return laneIndex === -1
+    ? update(board, { data: { archive: { $splice: [[itemIndex, 1]] } } })
+    : update(board, { children: { [laneIndex]: { children: { $splice: [[itemIndex, 1]] } } } });
+}
+
+function insertCard(board: Board, laneIndex: number, item: Item, position: 'top' | 'bottom') {
+  return update(board, {
+    children: {
+      [laneIndex]: {
+        children: position === 'top' ? { $unshift: [item] } : { $push: [item] },
+      },
+    },
+  });
+}
+
+// Appends the option's metadata to the first line of the card the way the card editor writes it
+function withCardMetadata(
+  stateManager: StateManager,
+  title: string,
+  options: KanbanNewCardOptions
+) {
+  const dateTrigger = stateManager.getSetting('date-trigger');
+  const dateFormat = stateManager.getSetting('date-format');
+  const memberPrefix = stateManager.getSetting('memberAssignmentPrefix') || '@@';
+  const [firstLine, ...rest] = title.trim().split('\n');
+  const metadata: string[] = [];
+
+  (options.tags || []).forEach((tag) => metadata.push(`#${tag.trim().replace(/^#/, '')}`));
+  (options.members || []).forEach((member) =>
+    metadata.push(`${memberPrefix}${member.trim().replace(/^@+/, '')}`)
+  );
+
+  if (options.startDate) {
+    metadata.push(`${dateTrigger}start{${moment(options.startDate).format(dateFormat)}}`);
+  }
+  if (options.dueDate) {
+    const dateStr = moment(options.dueDate).format(dateFormat);
+    metadata.push(
+      `${dateTrigger}${
+        stateManager.getSetting('link-date-to-daily-note')
+          ? buildLinkToDailyNote(stateManager.app, dateStr)
+          : `{${dateStr}}`
+      }`
+    );
+  }
+  if (options.time) {
+    metadata.push(
+      `${stateManager.getSetting('time-trigger')}{${moment(options.time).format(
+        stateManager.getSetting('time-format')
+      )}}`
+    );
+  }
+
+  return [[firstLine, ...metadata].join(' '), ...rest].join('\n');
+}
+
+// WIP limits apply as they do on the board. A blocked change throws, so the caller knows it
+// didn't happen.
+function requireMemberWip(
+  plugin: KanbanPlugin,
+  before: MemberWipCard | null,
+  after: MemberWipCard
+) {
+  if (!checkMemberWipChange(plugin, before, after)) {
+    throw new Error('The change would go over a team member WIP limit');
+  }
+}
+
+function getDefaultPosition(stateManager: StateManager) {
+  return stateManager.getSetting('new-card-insertion-method') === 'append' ? 'bottom' : 'top';
+}
+
+// The stable surface other plugins and scripts can rely on, available as
+// `app.plugins.plugins['kanban-plus'].api`
+export class KanbanAPI {
+  readonly version = KANBAN_API_VERSION;
+
+  private plugin: KanbanPlugin;
+  private listeners: Set<KanbanCardChangeListener> = new Set();
+  private snapshot: Map<string, Map<string, string>> | null = null;
+  private unsubscribeIndex: (() => void) | null = null;
+
+  constructor(plugin: KanbanPlugin) {
+    this.plugin = plugin;
+  }
+
+  async getBoards(): Promise<KanbanApiBoard[]> {
+    const boards = await this.plugin.cardIndex.getBoards();
+    return boards.map(({ file, board, cards }) => ({
+      path: file.path,
+      name: file.basename,
+      lanes: board.children.map((lane) => lane.data.title),
+      cardCount: cards.length,
+    }));
+  }
+
+  async getCards(query: KanbanCardQuery = {}): Promise<KanbanApiCard[]> {
+    const boards = await this.plugin.cardIndex.getBoards();
+    const tag = query.tag && `#${query.tag.replace(/^#/, '')}`.toLowerCase();
+    const member = query.member?.replace(/^@+/, '').toLowerCase();
+    const lane = query.lane?.trim().toLowerCase();
+    const dueAfter = query.dueAfter ? moment(query.dueAfter).startOf('day') : null;
+    const dueBefore = query.dueBefore ? moment(query.dueBefore).endOf('day') : null;
+
+    const matches = (card: IndexedCard) => {
+      const due = card.data.metadata.date;
+      const hasDue = !!due?.isValid();
+
+      if (tag && !card.tags.some((cardTag) => cardTag.toLowerCase() === tag)) return false;
+      if (member && !card.assignedMembers.some((m) => m.toLowerCase() === member)) return false;
+      if (lane && card.lane?.data.title.toLowerCase() !== lane) return false;
+      if (query.checked !== undefined && card.data.checked !== query.checked) return false;
+      if (query.hasDueDate !== undefined && hasDue !== query.hasDueDate) return false;
+      if (dueAfter && (!hasDue || due.isBefore(dueAfter))) return false;
+      if (dueBefore && (!hasDue || due.isAfter(dueBefore))) return false;
+      return true;
+    };
+
+    return boards
+      .filter(
+        ({ file }) =>
+          !query.boards?.length ||
+          query.boards.includes(file.path) ||
+          query.boards.includes(file.basename)
+      )
+      .reduce<IndexedCard[]>(
+        (cards, board) => cards.concat(board.cards, query.includeArchived ? board.archive : []),
+        []
+      )
+      .filter(matches)
+      .map(toApiCard);
+  }
+
+  async getCard(boardPath: string, blockId: string): Promise<KanbanApiCard | null> {
+    const board = await this.plugin.cardIndex.getBoard(boardPath);
+    const id = blockId.replace(/^\^/, '');
+    const card = board && [...board.cards, ...board.archive].find((c) => c.data.blockId === id);
+    return card ? toApiCard(card) : null;
+  }
+
+  // Returns the block ID of the new card
+  async addCard(
+    boardPath: string,
+    lane: string | number,
+    title: string,
+    options: KanbanNewCardOptions = {}
+  ): Promise<string> {
+    let blockId = '';
+
+    await this.modifyBoard(boardPath, (board, stateManager) => {
+      const laneIndex = requireLane(board, lane);
+      const item = stateManager.getNewItem(
+        withCardMetadata(stateManager, title, options),
+        options.checked ? getTaskStatusDone() : ' ',
+        false,
+        board.children[laneIndex].data.title
+      );
+      blockId = item.data.blockId;
+      requireMemberWip(this.plugin, null, getMemberWipCard(item, board.children[laneIndex]));
+
+      return insertCard(
+        board,
+        laneIndex,
+        item,
+        options.position || getDefaultPosition(stateManager)
+      );
+    });
+
+    return blockId;
+  }
+
+  async moveCard(
+    boardPath: string,
+    blockId: string,
+    lane: string | number,
+    position: 'top' | 'bottom' = 'bottom'
+  ) {
+    await this.modifyBoard(boardPath, (board, stateManager) => {
+      const location = requireCard(board, blockId);
+      const laneIndex = requireLane(board, lane);
+      if (location.laneIndex === laneIndex) return board;
+
+      const sourceLane = board.children[location.laneIndex];
+      const targetLane = board.children[laneIndex];
+      if (!checkLaneWipLimit(stateManager, targetLane, 1)) {
+        throw new Error(`"${targetLane.data.title}" is at its WIP limit`);
+      }
+
+      // Lane enter and leave rules apply as they do to moves on the board
+      const item = applyLaneMoveRules(
+        stateManager,
+        sourceLane,
+        stateManager,
+        targetLane,
+        location.item
+      );
+      requireMemberWip(
+        this.plugin,
+        getMemberWipCard(location.item, sourceLane),
+        getMemberWipCard(item, targetLane)
+      );
+
+      return insertCard(removeCard(board, location), laneIndex, item, position);
+    });
+  }
+
+  // Checking a card moves it to a done list and starts its next recurrence, as on the board
+  async setCardChecked(boardPath: string, blockId: string, checked: boolean) {
+    await this.modifyBoard(boardPath, (board, stateManager) => {
+      const { item, laneIndex, itemIndex } = requireCard(board, blockId);
+      if (item.data.checked === checked) return board;
+
+      const data = { checked, checkChar: checked ? getTaskStatusDone() : ' ' };
+      if (laneIndex === -1) {
+        return update(board, { data: { archive: { [itemIndex]: { data: { $merge: data } } } } });
+      }
+
+      const lane = board.children[laneIndex];
+      requireMemberWip(
+        this.plugin,
+        getMemberWipCard(item, lane),
+        getMemberWipCard(update(item, { data: { $merge: data } }), lane)
+      );
+
+      let next = update(board, {
+        children: { [laneIndex]: { children: { [itemIndex]: { data: { $merge: data } } } } },
+      });
+      if (checked) {
+        next = stateManager.handleAutoMoveDoneCard(next, item.id, true);
+        next = addRecurringInstance(stateManager, next, item.id, board.children[laneIndex]);
+      }
+      return next;
+    });
+  }
+
+  async archiveCard(boardPath: string, blockId: string) {
+    await this.modifyBoard(boardPath, (board, stateManager) => {
+      const location = requireCard(board, blockId);
+      if (location.laneIndex === -1) return board;
+
+      const item = stateManager.getSetting('archive-with-date')
+        ? stateManager.appendArchiveDate(location.item)
+        : location.item;
+
+      return update(removeCard(board, location), { data: { archive: { $push: [item] } } });
+    });
+  }
+
+  // Replaces the card's markdown, which may include tags, dates and other metadata
+  async updateCard(boardPath: string, blockId: string, titleRaw: string) {
+    await this.modifyBoard(boardPath, (board, stateManager) => {
+      const { item, laneIndex, itemIndex } = requireCard(board, blockId);
+      const updated = stateManager.updateItemContent(item, titleRaw);
+      if (laneIndex !== -1) {
+        const lane = board.children[laneIndex];
+        requireMemberWip(
+          this.plugin,
+          getMemberWipCard(item, lane),
+          getMemberWipCard(updated, lane)
+        );
+      }
+
+      return laneIndex === -1
+        ? update(board, { data: { archive: { [itemIndex]: { $set: updated } } } })
+        : update(board, {
+            children: { [laneIndex]: { children: { [itemIndex]: { $set: updated } } } },
+          });
+    });
+  }
+
+  // Called after boards are re-indexed with the cards that appeared, disappeared or changed.
+  // Returns an unsubscribe function.
+  onCardsChanged(listener: KanbanCardChangeListener) {
+    this.listeners.add(listener);
+
+    if (!this.unsubscribeIndex) {
+      this.snapshot = new Map();
+      this.plugin.cardIndex.boards.forEach((_, path) => this.diffBoard(path));
+      this.unsubscribeIndex = this.plugin.cardIndex.onChange((paths) => this.emitChanges(paths));
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (!this.listeners.size && this.unsubscribeIndex) {
+        this.unsubscribeIndex();
+        this.unsubscribeIndex = null;
+        this.snapshot = null;
+      }
+    };
+  }
+
+  unload() {
+    this.unsubscribeIndex?.();
+    this.unsubscribeIndex = null;
+    this.snapshot = null;
+    this.listeners.clear();
+  }
+
+  // Updates the snapshot of one board and returns what changed since the last one
+  private diffBoard(path: string) {
+    const indexed = this.plugin.cardIndex.boards.get(path);
+    const previous = this.snapshot.get(path) || new Map<string, string>();
+    const current = new Map<string, string>();
+    const changes = { added: [] as KanbanApiCard[], updated: [] as KanbanApiCard[] };
+
+    [...(indexed?.cards || []), ...(indexed?.archive || [])].forEach((card) => {
+      const apiCard = toApiCard(card);
+      const key = getCardKey(apiCard);
+      const json = JSON.stringify(apiCard);
+      current.set(key, json);
+
+      if (!previous.has(key)) changes.added.push(apiCard);
+      else if (previous.get(key) !== json) changes.updated.push(apiCard);
+    });
+
+    const removed = Array.from(previous.entries())
+      .filter(([key]) => !current.has(key))
+      .map(([, json]) => JSON.parse(json) as KanbanApiCard);
+
+    if (indexed) this.snapshot.set(path, current);
+    else this.snapshot.delete(path);
+
+    return { ...changes, removed };
+  }
+
+  private emitChanges(paths: string[]) {
+    if (!this.snapshot) return;
+
+    const event: KanbanCardChangeEvent = { boardPaths: paths, added: [], removed: [], updated: [] };
+    paths.forEach((path) => {
+      const { added, removed, updated } = this.diffBoard(path);
+      event.added.push(...added);
+      event.removed.push(...removed);
+      event.updated.push(...updated);
+    });
+
+    if (!event.added.length && !event.removed.length && !event.updated.length) return;
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (e) {
+        console.error('[KanbanAPI] Error in card change listener:', e);
+      }
+    });
+  }
+
+  // Open boards are changed through their StateManager so views, undo history and the activity
+  // log stay in sync. Closed boards are parsed, changed and written back in one vault.process.
+  private async modifyBoard(boardPath: string, transform: BoardTransform) {
+    const { app } = this.plugin;
+    const file = app.vault.getAbstractFileByPath(boardPath);
+    if (!(file instanceof TFile) || !hasFrontmatterKey(file)) {
+      throw new Error(`${boardPath} is not a kanban board`);
+    }
+
+    const open = this.plugin.stateManagers.get(file);
+    if (open?.state) {
+      const next = transform(open.state, open);
+      if (next !== open.state) open.setState(next);
+      debugLog(`[KanbanAPI] Updated open board ${boardPath}`);
+      return;
+    }
+
+    await app.vault.process(file, (content) => {
+      const stateManager = new StateManager(
+        app,
+        { file } as any,
+        () => {},
+        () => this.plugin.settings
+      );
+      const board = stateManager.getParsedBoard(content);
+      if (board.data.errors.length) {
+        throw new Error(`Could not parse ${boardPath}: ${board.data.errors[0].description}`);
+      }
+
+      stateManager.state = board;
+      stateManager.compileSettings();
+
+      let next = transform(board, stateManager);
+      if (next === board) return content;
+
+      if (stateManager.getSetting('activity-log')) {
+        next = recordBoardActivity(stateManager, board, next);
+      }
+      return boardToMd(next);
+    });
+    debugLog(`[KanbanAPI] Updated board ${boardPath} on disk`);
+  }
+}
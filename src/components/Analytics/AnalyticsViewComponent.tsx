@@ -0,0 +1,315 @@
+import classcat from 'classcat';
+import { Menu, Notice, TFile, moment, normalizePath } from 'obsidian';
+import { ComponentChildren } from 'preact';
+import { useCallback, useEffect, useMemo, useState } from 'preact/hooks';
+
+import { ANALYTICS_RANGES, AnalyticsView } from '../../AnalyticsView';
+import { IndexedBoard } from '../../CardIndex';
+import {
+  CardFlow,
+  ChartDatum,
+  getAverage,
+  getBoardFlows,
+  getCumulativeFlow,
+  getCycleTimes,
+  getDurationDistribution,
+  getFlowLanes,
+  getLeadTimes,
+  getMemberCompletions,
+  getPercentile,
+  getRangeDays,
+  getWeeklyThroughput,
+  toMarkdownTable,
+} from '../../helpers/analytics';
+import { debugLog } from '../../helpers/debugLogger';
+import { t } from '../../lang/helpers';
+import KanbanPlugin from '../../main';
+import { Icon } from '../Icon/Icon';
+import { c } from '../helpers';
+import { BarChart, ChartLegend, CumulativeFlowChart } from './charts';
+
+const rangeLabels: Record<number, () => string> = {
+  30: () => t('Last 30 days'),
+  90: () => t('Last 90 days'),
+  180: () => t('Last 180 days'),
+  365: () => t('Last 365 days'),
+};
+
+function formatDays(days: number) {
+  return `${days.toFixed(1)}d`;
+}
+
+function datumTable(labelHeader: string, data: ChartDatum[]) {
+  return toMarkdownTable(
+    [labelHeader, t('Cards')],
+    data.map((d) => [d.label, d.value])
+  );
+}
+
+function durationSummary(durations: number[]) {
+  if (!durations.length) return '';
+  return `${t('Average')}: ${formatDays(getAverage(durations))} · ${t('85th percentile')}: ${formatDays(getPercentile(durations, 85))}`;
+}
+
+interface ChartSectionProps {
+  title: string;
+  summary?: string;
+  markdown: string;
+  isEmpty: boolean;
+  children: ComponentChildren;
+}
+
+function ChartSection({ title, summary, markdown, isEmpty, children }: ChartSectionProps) {
+  return (
+    <div className={c('analytics-section')}>
+      <div className={c('analytics-section-header')}>
+        <div className={c('analytics-section-title')}>{title}</div>
+        <button
+          className="clickable-icon"
+          aria-label={t('Copy as markdown table')}
+          onClick={async () => {
+            await navigator.clipboard.writeText(markdown);
+            new Notice(t('Copied to clipboard'));
+          }}
+        >
+          <Icon name="lucide-copy" />
+        </button>
+      </div>
+      {summary && <div className={c('analytics-summary')}>{summary}</div>}
+      {isEmpty ? (
+        <div className={c('analytics-empty')}>{t('No data for this period')}</div>
+      ) : (
+        children
+      )}
+    </div>
+  );
+}
+
+interface AnalyticsViewComponentProps {
+  plugin: KanbanPlugin;
+  view: AnalyticsView;
+}
+
+export function AnalyticsViewComponent({ plugin, view }: AnalyticsViewComponentProps) {
+  const [boards, setBoards] = useState<IndexedBoard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [activeBoards, setActiveBoards] = useState<string[]>(view.boards);
+  const [rangeDays, setRangeDays] = useState(view.rangeDays);
+
+  const loadBoards = useCallback(async () => {
+    try {
+      setBoards(await plugin.cardIndex.getBoards());
+    } catch (e) {
+      console.error('[AnalyticsView] Error loading boards:', e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [plugin]);
+
+  useEffect(() => {
+    loadBoards();
+    return plugin.cardIndex.onChange(() => loadBoards());
+  }, [loadBoards]);
+
+  useEffect(() => {
+    view.setOptions(activeBoards, rangeDays);
+  }, [activeBoards, rangeDays]);
+
+  const selectedBoards = useMemo(
+    () =>
+      activeBoards.length ? boards.filter(({ file }) => activeBoards.includes(file.path)) : boards,
+    [boards, activeBoards]
+  );
+
+  const stats = useMemo(() => {
+    const end = moment().endOf('day');
+    const start = moment()
+      .startOf('day')
+      .subtract(rangeDays - 1, 'days');
+    const days = getRangeDays(start, end);
+
+    const flows = selectedBoards.reduce<CardFlow[]>(
+      (all, board) => all.concat(getBoardFlows(board, plugin.settings)),
+      []
+    );
+    const leadTimes = getLeadTimes(flows, start, end);
+    const cycleTimes = getCycleTimes(flows, start, end);
+
+    debugLog(
+      `[AnalyticsView] ${flows.length} cards on ${selectedBoards.length} boards, ${leadTimes.length} completed in range`
+    );
+
+    return {
+      start,
+      end,
+      days,
+      hasTransitions: flows.some((flow) => flow.transitions.length > 0),
+      flow: getCumulativeFlow(flows, getFlowLanes(selectedBoards), days),
+      leadTimes,
+      cycleTimes,
+      leadDistribution: getDurationDistribution(leadTimes),
+      cycleDistribution: getDurationDistribution(cycleTimes),
+      throughput: getWeeklyThroughput(flows, start, end),
+      members: getMemberCompletions(flows, start, end, t('Unassigned')),
+    };
+  }, [selectedBoards, rangeDays, plugin]);
+
+  const tables = useMemo(
+    () => ({
+      flow: toMarkdownTable(
+        [t('Date'), ...stats.flow.map((s) => s.lane)],
+        stats.days.map((day, i) => [
+          day.format('YYYY-MM-DD'),
+          ...stats.flow.map((s) => s.values[i]),
+        ])
+      ),
+      lead: datumTable(t('Days'), stats.leadDistribution),
+      cycle: datumTable(t('Days'), stats.cycleDistribution),
+      throughput: datumTable(t('Week'), stats.throughput),
+      members: datumTable(t('Member'), stats.members),
+    }),
+    [stats]
+  );
+
+  const boardNames = selectedBoards.map(({ file }) => file.basename);
+
+  const exportMarkdown = async () => {
+    const markdown = [
+      `# ${t('Analytics')}`,
+      `${stats.start.format('YYYY-MM-DD')} – ${stats.end.format('YYYY-MM-DD')} · ${boardNames.join(', ')}`,
+      `## ${t('Cumulative flow')}`,
+      tables.flow,
+      `## ${t('Lead time')}`,
+      durationSummary(stats.leadTimes),
+      tables.lead,
+      `## ${t('Cycle time')}`,
+      durationSummary(stats.cycleTimes),
+      tables.cycle,
+      `## ${t('Throughput per week')}`,
+      tables.throughput,
+      `## ${t('Completed by member')}`,
+      tables.members,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+
+    try {
+      const { vault } = plugin.app;
+      const baseName = `${t('Analytics')} ${moment().format('YYYY-MM-DD HHmm')}`;
+      let path = normalizePath(`${baseName}.md`);
+      for (let i = 1; await vault.adapter.exists(path); i++) {
+        path = normalizePath(`${baseName} ${i}.md`);
+      }
+
+      const file: TFile = await vault.create(path, markdown + '\n');
+      await plugin.app.workspace.getLeaf(true).openFile(file);
+    } catch (e) {
+      console.error('[AnalyticsView] Error exporting analytics:', e);
+      new Notice(t('Could not export the analytics. See the console for details.'));
+    }
+  };
+
+  const showBoardMenu = (e: MouseEvent) => {
+    const menu = new Menu();
+
+    if (!boards.length) {
+      menu.addItem((item) => item.setTitle(t('No boards found')).setDisabled(true));
+    }
+
+    boards.forEach(({ file }) => {
+      menu.addItem((item) =>
+        item
+          .setTitle(file.basename)
+          .setChecked(activeBoards.includes(file.path))
+          .onClick(() =>
+            setActiveBoards((current) =>
+              current.includes(file.path)
+                ? current.filter((path) => path !== file.path)
+                : [...current, file.path]
+            )
+          )
+      );
+    });
+
+    menu.showAtMouseEvent(e);
+  };
+
+  return (
+    <div className={c('analytics')}>
+      <div className={c('analytics-toolbar')}>
+        <button onClick={showBoardMenu}>
+          {activeBoards.length ? boardNames.join(', ') : t('All boards')}
+        </button>
+        <div className={c('analytics-ranges')}>
+          {ANALYTICS_RANGES.map((days) => (
+            <button
+              key={days}
+              className={classcat({ 'is-active': rangeDays === days })}
+              onClick={() => setRangeDays(days)}
+            >
+              {rangeLabels[days]()}
+            </button>
+          ))}
+        </div>
+        <button onClick={exportMarkdown}>{t('Export as markdown')}</button>
+      </div>
+
+      {isLoading ? (
+        <div className={c('analytics-empty')}>{t('Loading...')}</div>
+      ) : (
+        <div className={c('analytics-sections')}>
+          {!stats.hasTransitions && (
+            <div className={c('analytics-hint')}>
+              {t(
+                'Turn on "Record card activity" in the plugin settings to chart how cards move between lists.'
+              )}
+            </div>
+          )}
+
+          <ChartSection
+            title={t('Cumulative flow')}
+            markdown={tables.flow}
+            isEmpty={!stats.flow.some((s) => s.values.some((value) => value > 0))}
+          >
+            <CumulativeFlowChart days={stats.days} series={stats.flow} />
+            <ChartLegend series={stats.flow} />
+          </ChartSection>
+
+          <ChartSection
+            title={t('Lead time')}
+            summary={durationSummary(stats.leadTimes)}
+            markdown={tables.lead}
+            isEmpty={!stats.leadTimes.length}
+          >
+            <BarChart data={stats.leadDistribution} />
+          </ChartSection>
+
+          <ChartSection
+            title={t('Cycle time')}
+            summary={durationSummary(stats.cycleTimes)}
+            markdown={tables.cycle}
+            isEmpty={!stats.cycleTimes.length}
+          >
+            <BarChart data={stats.cycleDistribution} />
+          </ChartSection>
+
+          <ChartSection
+            title={t('Throughput per week')}
+            markdown={tables.throughput}
+            isEmpty={!stats.throughput.some((d) => d.value > 0)}
+          >
+            <BarChart data={stats.throughput} />
+          </ChartSection>
+
+          <ChartSection
+            title={t('Completed by member')}
+            markdown={tables.members}
+            isEmpty={!stats.members.length}
+          >
+            <BarChart data={stats.members} />
+          </ChartSection>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { moment } from 'obsidian';
+import { ChartDatum, FlowSeries } from 'src/helpers/analytics';
+
+import { c } from '../helpers';
+
+const WIDTH = 640;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 36 };
+const palette = [
+  'var(--color-blue)',
+  'var(--color-orange)',
+  'var(--color-green)',
+  'var(--color-purple)',
+  'var(--color-red)',
+  'var(--color-cyan)',
+  'var(--color-yellow)',
+  'var(--color-pink)',
+];
+
+export function getSeriesColor(series: FlowSeries, index: number) {
+  return series.color || palette[index % palette.length];
+}
+
+function YAxis({ max, height }: { max: number; height: number }) {
+  const bottom = height - PADDING.bottom;
+  return (
+    <g className={c('chart-axis')}>
+      <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={bottom} y2={bottom} />
+      <text x={PADDING.left - 6} y={bottom} textAnchor="end" dominantBaseline="middle">
+        0
+      </text>
+      <text x={PADDING.left - 6} y={PADDING.top} textAnchor="end" dominantBaseline="middle">
+        {max}
+      </text>
+    </g>
+  );
+}
+
+export interface BarChartProps {
+  data: ChartDatum[];
+  height?: number;
+}
+
+export function BarChart({ data, height = 200 }: BarChartProps) {
+  const max = Math.max(1, ...data.map((d) => d.value));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const slot = plotWidth / Math.max(1, data.length);
+  const barWidth = Math.max(2, slot * 0.7);
+  // Keep labels readable on long ranges by only showing some of them
+  const labelStep = Math.ceil(data.length / 12);
+
+  return (
+    <svg className={c('chart')} viewBox={`0 0 ${WIDTH} ${height}`} role="img">
+      <YAxis max={max} height={height} />
+      {data.map((d, i) => {
+        const barHeight = (d.value / max) * plotHeight;
+        const x = PADDING.left + i * slot + (slot - barWidth) / 2;
+        const y = PADDING.top + plotHeight - barHeight;
+        return (
+          <g key={d.label}>
+            <rect className={c('chart-bar')} x={x} y={y} width={barWidth} height={barHeight}>
+              <title>{`${d.label}: ${d.value}`}</title>
+            </rect>
+            {d.value > 0 && data.length <= 26 && (
+              <text className={c('chart-value')} x={x + barWidth / 2} y={y - 3} textAnchor="middle">
+                {d.value}
+              </text>
+            )}
+            {i % labelStep === 0 && (
+              <text
+                className={c('chart-label')}
+                x={x + barWidth / 2}
+                y={height - PADDING.bottom + 14}
+                textAnchor="middle"
+              >
+                {d.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export interface CumulativeFlowChartProps {
+  days: moment.Moment[];
+  series: FlowSeries[];
+  height?: number;
+}
+
+// Stacked areas with the last list (usually done) at the bottom
+export function CumulativeFlowChart({ days, series, height = 260 }: CumulativeFlowChartProps) {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const totals = days.map((_, i) => series.reduce((total, s) => total + s.values[i], 0));
+  const max = Math.max(1, ...totals);
+
+  const x = (i: number) =>
+    PADDING.left + (days.length > 1 ? (i / (days.length - 1)) * plotWidth : 0);
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight;
+
+  const baseline = days.map(() => 0);
+  const areas = series
+    .map((s, index) => ({ s, color: getSeriesColor(s, index) }))
+    .reverse()
+    .map(({ s, color }) => {
+      const lower = [...baseline];
+      const upper = lower.map((value, i) => value + s.values[i]);
+      upper.forEach((value, i) => (baseline[i] = value));
+
+      const points = upper
+        .map((value, i) => `${x(i)},${y(value)}`)
+        .concat(lower.map((value, i) => `${x(i)},${y(value)}`).reverse());
+
+      return (
+        <polygon key={s.lane} points={points.join(' ')} style={{ fill: color }}>
+          <title>{s.lane}</title>
+        </polygon>
+      );
+    });
+
+  const labelDays = days.length > 2 ? [0, Math.floor((days.length - 1) / 2), days.length - 1] : [0];
+
+  return (
+    <svg className={c('chart')} viewBox={`0 0 ${WIDTH} ${height}`} role="img">
+      <g className={c('chart-areas')}>{areas}</g>
+      <YAxis max={max} height={height} />
+      {days.length > 0 &&
+        labelDays.map((i) => (
+          <text
+            key={i}
+            className={c('chart-label')}
+            x={x(i)}
+            y={height - PADDING.bottom + 14}
+            textAnchor={i === 0 ? 'start' : i === days.length - 1 ? 'end' : 'middle'}
+          >
+            {days[i].format('ll')}
+          </text>
+        ))}
+    </svg>
+  );
+}
+
+export function ChartLegend({ series }: { series: FlowSeries[] }) {
+  return (
+    <div className={c('chart-legend')}>
+      {series.map((s, index) => (
+        <span key={s.lane} className={c('chart-legend-item')}>
+          <span
+            className={c('chart-legend-swatch')}
+            style={{ backgroundColor: getSeriesColor(s, index) }}
+          />
+          {s.lane}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,423 @@
+import classcat from 'classcat';
+import moment from 'moment';
+import { Menu, Notice } from 'obsidian';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'preact/hooks';
+
+import { CalendarView } from '../../CalendarView';
+import { StateManager } from '../../StateManager';
+import {
+  CalendarCard,
+  CalendarMode,
+  cardFallsOn,
+  compareCalendarCards,
+  getCalendarDays,
+  getCalendarRange,
+  shiftCardDates,
+  toCalendarCard,
+} from '../../helpers/calendar';
+import { debugLog } from '../../helpers/debugLogger';
+import { openCardInBoard } from '../../helpers/openCard';
+import { t } from '../../lang/helpers';
+import KanbanPlugin from '../../main';
+import { updateCardDatesInMarkdown } from '../../markdownUpdater';
+import { Icon } from '../Icon/Icon';
+import { c } from '../helpers';
+
+const modeLabels: Record<CalendarMode, string> = {
+  month: t('Month'),
+  week: t('Week'),
+  agenda: t('Agenda'),
+};
+
+const stepUnits: Record<CalendarMode, [number, moment.unitOfTime.DurationConstructor]> = {
+  month: [1, 'month'],
+  week: [1, 'week'],
+  agenda: [30, 'days'],
+};
+
+interface DragState {
+  card: CalendarCard;
+  from: moment.Moment;
+}
+
+interface CalendarCardChipProps {
+  card: CalendarCard;
+  day: moment.Moment;
+  showDetails: boolean;
+  onDragStart: (drag: DragState) => void;
+  onOpen: (card: CalendarCard) => void;
+}
+
+function CalendarCardChip({ card, day, showDetails, onDragStart, onOpen }: CalendarCardChipProps) {
+  return (
+    <div
+      className={classcat([c('calendar-card'), { 'is-complete': card.checked }])}
+      style={card.laneColor ? { borderLeftColor: card.laneColor } : undefined}
+      draggable
+      title={`${card.title}\n${card.boardName} › ${card.laneName}`}
+      onDragStart={(e) => {
+        e.dataTransfer?.setData('text/plain', card.title);
+        onDragStart({ card, from: day });
+      }}
+      onClick={() => onOpen(card)}
+    >
+      <div className={c('calendar-card-title')}>
+        {card.timeStr && <span className={c('calendar-card-time')}>{card.timeStr}</span>}
+        {card.title}
+      </div>
+      {showDetails && (
+        <div className={c('calendar-card-details')}>
+          {card.boardName} › {card.laneName}
+          {card.assignedMembers.length > 0 && ` · ${card.assignedMembers.join(', ')}`}
+          {card.tags.length > 0 && ` · ${card.tags.map((tag) => `#${tag}`).join(' ')}`}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CalendarViewComponentProps {
+  plugin: KanbanPlugin;
+  view: CalendarView;
+}
+
+export function CalendarViewComponent({ plugin, view }: CalendarViewComponentProps) {
+  const [cards, setCards] = useState<CalendarCard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [mode, setMode] = useState<CalendarMode>(view.mode);
+  const [anchor, setAnchor] = useState(() => moment().startOf('day'));
+  const [activeTags, setActiveTags] = useState<string[]>([]);
+  const [activeMembers, setActiveMembers] = useState<string[]>([]);
+  const [activeBoards, setActiveBoards] = useState<string[]>([]);
+  const [showDone, setShowDone] = useState(false);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  // Per-board state managers from the last load, so drops write dates in the board's format
+  const stateManagersRef = useRef<Map<string, StateManager>>(new Map());
+
+  const loadCards = useCallback(async () => {
+    try {
+      const boards = await plugin.cardIndex.getBoards();
+      const next: CalendarCard[] = [];
+      const stateManagers = new Map<string, StateManager>();
+
+      for (const { file, board, cards: boardCards } of boards) {
+        // Dates are read with each board's own date format
+        const stateManager = new StateManager(
+          plugin.app,
+          { file } as any,
+          () => {},
+          () => plugin.settings
+        );
+        stateManager.compileSettings(board.data.settings);
+        stateManagers.set(file.path, stateManager);
+
+        boardCards.forEach((card) => {
+          const calendarCard = toCalendarCard(card, stateManager);
+          if (calendarCard) next.push(calendarCard);
+        });
+      }
+
+      debugLog(`[CalendarView] Loaded ${next.length} dated cards from ${boards.length} boards`);
+      stateManagersRef.current = stateManagers;
+      setCards(next);
+    } catch (e) {
+      console.error('[CalendarView] Error loading cards:', e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [plugin]);
+
+  useEffect(() => {
+    loadCards();
+    return plugin.cardIndex.onChange(() => loadCards());
+  }, [loadCards]);
+
+  const changeMode = (nextMode: CalendarMode) => {
+    setMode(nextMode);
+    view.setMode(nextMode);
+  };
+
+  const step = (direction: 1 | -1) => {
+    const [amount, unit] = stepUnits[mode];
+    setAnchor((current) => current.clone().add(direction * amount, unit));
+  };
+
+  const visibleCards = useMemo(
+    () =>
+      cards.filter((card) => {
+        if (!showDone && (card.checked || card.inDoneLane)) return false;
+        if (activeBoards.length && !activeBoards.includes(card.boardPath)) return false;
+
+        const tags = card.tags.map((tag) => tag.toLowerCase());
+        return (
+          activeTags.every((tag) => tags.includes(tag.toLowerCase())) &&
+          activeMembers.every((member) => card.assignedMembers.includes(member))
+        );
+      }),
+    [cards, showDone, activeBoards, activeTags, activeMembers]
+  );
+
+  const { start, end } = getCalendarRange(mode, anchor);
+  const days = useMemo(() => getCalendarDays(start, end), [start.valueOf(), end.valueOf()]);
+
+  const cardsByDay = useMemo(() => {
+    const byDay = new Map<string, CalendarCard[]>();
+    days.forEach((day) => {
+      byDay.set(
+        day.format('YYYY-MM-DD'),
+        visibleCards.filter((card) => cardFallsOn(card, day)).sort(compareCalendarCards)
+      );
+    });
+    return byDay;
+  }, [days, visibleCards]);
+
+  const allTags = useMemo(() => {
+    const tags = new Set<string>();
+    cards.forEach((card) => card.tags.forEach((tag) => tags.add(tag)));
+    return Array.from(tags).sort();
+  }, [cards]);
+
+  const allBoards = useMemo(() => {
+    const boards = new Map<string, string>();
+    cards.forEach((card) => boards.set(card.boardPath, card.boardName));
+    return Array.from(boards.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [cards]);
+
+  const showFilterMenu = (
+    e: MouseEvent,
+    options: [string, string][],
+    active: string[],
+    setActive: (update: (current: string[]) => string[]) => void,
+    emptyLabel: string
+  ) => {
+    const menu = new Menu();
+
+    if (!options.length) {
+      menu.addItem((item) => item.setTitle(emptyLabel).setDisabled(true));
+    }
+
+    options.forEach(([value, label]) => {
+      menu.addItem((item) =>
+        item
+          .setTitle(label)
+          .setChecked(active.includes(value))
+          .onClick(() =>
+            setActive((current) =>
+              current.includes(value) ? current.filter((v) => v !== value) : [...current, value]
+            )
+          )
+      );
+    });
+
+    menu.showAtMouseEvent(e);
+  };
+
+  const handleDrop = async (day: moment.Moment) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    setDropTarget(null);
+    if (!drag) return;
+
+    const { card, from } = drag;
+    const { offset, startDate, dueDate } = shiftCardDates(card, from, day);
+    if (!offset) return;
+
+    debugLog(`[CalendarView] Moving "${card.title}" by ${offset} day(s)`);
+
+    // Show the move right away; the card index reloads the card once the file is written
+    setCards((current) =>
+      current.map((existing) =>
+        existing.id === card.id
+          ? {
+              ...existing,
+              startDate: startDate ?? existing.startDate,
+              dueDate: dueDate ?? existing.dueDate,
+            }
+          : existing
+      )
+    );
+
+    const cardRef = {
+      id: card.id,
+      title: card.title,
+      titleRaw: card.titleRaw,
+      sourceBoardName: card.boardName,
+      sourceBoardPath: card.boardPath,
+      blockId: card.blockId,
+      line: card.line,
+    };
+
+    try {
+      await updateCardDatesInMarkdown(
+        plugin.app,
+        card.boardPath,
+        cardRef,
+        startDate,
+        dueDate,
+        stateManagersRef.current.get(card.boardPath)?.compiledSettings || plugin.settings
+      );
+    } catch (e) {
+      console.error(`[CalendarView] Error updating dates for "${card.title}":`, e);
+      new Notice(t('Could not move the card. See the console for details.'));
+      loadCards();
+    }
+  };
+
+  const renderDay = (day: moment.Moment, className: string, showDetails: boolean) => {
+    const key = day.format('YYYY-MM-DD');
+    const dayCards = cardsByDay.get(key) || [];
+
+    return (
+      <div
+        key={key}
+        className={classcat([
+          className,
+          {
+            'is-today': day.isSame(moment(), 'day'),
+            'is-outside-month': mode === 'month' && !day.isSame(anchor, 'month'),
+            'is-drop-target': dropTarget === key,
+          },
+        ])}
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (dropTarget !== key) setDropTarget(key);
+        }}
+        onDragLeave={(e) => {
+          if (!(e.currentTarget as HTMLElement).contains(e.relatedTarget as Node)) {
+            setDropTarget((current) => (current === key ? null : current));
+          }
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          handleDrop(day);
+        }}
+      >
+        <div className={c('calendar-day-header')}>
+          {mode === 'month' ? day.format('D') : day.format(mode === 'week' ? 'ddd D' : 'dddd, LL')}
+        </div>
+        <div className={c('calendar-day-cards')}>
+          {dayCards.map((card) => (
+            <CalendarCardChip
+              key={card.id}
+              card={card}
+              day={day}
+              showDetails={showDetails}
+              onDragStart={(drag) => (dragRef.current = drag)}
+              onOpen={(target) =>
+                openCardInBoard(plugin.app, {
+                  boardPath: target.boardPath,
+                  blockId: target.blockId,
+                  title: target.title,
+                  laneName: target.laneName,
+                })
+              }
+            />
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const title =
+    mode === 'month' ? anchor.format('MMMM YYYY') : `${start.format('ll')} – ${end.format('ll')}`;
+  const agendaDays = days.filter((day) => cardsByDay.get(day.format('YYYY-MM-DD'))?.length);
+
+  return (
+    <div className={c('calendar')}>
+      <div className={c('calendar-toolbar')}>
+        <div className={c('calendar-nav')}>
+          <button aria-label={t('Previous')} onClick={() => step(-1)}>
+            <Icon name="lucide-chevron-left" />
+          </button>
+          <button onClick={() => setAnchor(moment().startOf('day'))}>{t('Today')}</button>
+          <button aria-label={t('Next')} onClick={() => step(1)}>
+            <Icon name="lucide-chevron-right" />
+          </button>
+          <div className={c('calendar-title')}>{title}</div>
+        </div>
+        <div className={c('calendar-modes')}>
+          {(Object.keys(modeLabels) as CalendarMode[]).map((m) => (
+            <button
+              key={m}
+              className={classcat({ 'is-active': mode === m })}
+              onClick={() => changeMode(m)}
+            >
+              {modeLabels[m]}
+            </button>
+          ))}
+        </div>
+        <div className={c('calendar-filters')}>
+          <button
+            onClick={(e) =>
+              showFilterMenu(
+                e,
+                allTags.map((tag) => [tag, tag]),
+                activeTags,
+                setActiveTags,
+                t('No tags available')
+              )
+            }
+          >
+            {activeTags.length ? activeTags.map((tag) => `#${tag}`).join(', ') : t('All tags')}
+          </button>
+          <button
+            onClick={(e) =>
+              showFilterMenu(
+                e,
+                (plugin.settings.teamMembers || []).map((member) => [member, member]),
+                activeMembers,
+                setActiveMembers,
+                t('No members configured')
+              )
+            }
+          >
+            {activeMembers.length ? activeMembers.join(', ') : t('All members')}
+          </button>
+          <button
+            onClick={(e) =>
+              showFilterMenu(e, allBoards, activeBoards, setActiveBoards, t('No boards found'))
+            }
+          >
+            {activeBoards.length
+              ? allBoards
+                  .filter(([path]) => activeBoards.includes(path))
+                  .map(([, name]) => name)
+                  .join(', ')
+              : t('All boards')}
+          </button>
+          <label className={c('calendar-show-done')}>
+            <input
+              type="checkbox"
+              checked={showDone}
+              onChange={(e) => setShowDone((e.target as HTMLInputElement).checked)}
+            />
+            {t('Show done')}
+          </label>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className={c('calendar-empty')}>{t('Loading...')}</div>
+      ) : mode === 'agenda' ? (
+        <div className={c('calendar-agenda')}>
+          {agendaDays.length ? (
+            agendaDays.map((day) => renderDay(day, c('calendar-agenda-day'), true))
+          ) : (
+            <div className={c('calendar-empty')}>{t('No dated cards in this period')}</div>
+          )}
+        </div>
+      ) : (
+        <div className={c(mode === 'week' ? 'calendar-week' : 'calendar-month')}>
+          {mode === 'month' &&
+            days.slice(0, 7).map((day) => (
+              <div key={day.day()} className={c('calendar-weekday')}>
+                {day.format('ddd')}
+              </div>
+            ))}
+          {days.map((day) => renderDay(day, c('calendar-day'), mode === 'week'))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -72,7 +72,7 @@ export function InlineMetadata({ item, stateManager }: InlineMetadataProps) {
             {!isEmojiPriority && (
               <span className={c('item-task-inline-metadata-item-value')}>
                 <MetadataValue
-                  searchQuery={search?.query}
+                  searchQuery={search?.terms}
                   dateLabel={isDate ? label : undefined}
                   data={data}
                 />
@@ -27,11 +27,15 @@ import {
   isEditingActive,
 } from '../types';
 import { DateAndTime } from './DateAndTime';
+import { ItemActivityTimeline } from './ItemActivityTimeline';
+import { ItemBlockedBadge } from './ItemBlockedBadge';
 import { ItemCheckbox } from './ItemCheckbox';
 import { AssignedMembers, ItemContent, Tags } from './ItemContent';
 import { useItemMenu } from './ItemMenu';
 import { ItemMenuButton } from './ItemMenuButton';
 import { ItemPriority } from './ItemPriority';
+import { ItemSubtaskProgress } from './ItemSubtaskProgress';
+import { ItemTimeTracker } from './ItemTimeTracker';
 import { ItemMetadata } from './MetadataTable';
 import {
   constructDatePicker,
@@ -54,7 +58,7 @@ export interface ItemInnerProps {
   isStatic?: boolean;
   shouldMarkItemsComplete?: boolean;
   isMatch?: boolean;
-  searchQuery?: string;
+  searchQuery?: string[];
   targetHighlight?: any;
   cancelEditCounter: number;
 }
@@ -317,6 +321,13 @@ const ItemInner = memo(function ItemInner({
         </div>
       </div>
 
+      {!isCardEditingState(editState) && (
+        <ItemSubtaskProgress
+          progress={item.data.metadata?.subtasks}
+          style={{ margin: '0 8px 4px' }}
+        />
+      )}
+
       {!isCardEditingState(editState) && (
         <div
           className={c('item-bottom-metadata')}
@@ -342,6 +353,15 @@ const ItemInner = memo(function ItemInner({
                 marginBottom: '7px',
               }}
             />
+            <ItemTimeTracker
+              item={item}
+              stateManager={stateManager}
+              boardModifiers={boardModifiers}
+              path={path}
+              isHovered={isHovered}
+              readOnly={isStatic || filePath === 'member-board-virtual'}
+              style={{ marginLeft: '4px', marginBottom: '7px' }}
+            />
           </div>
           <div style={{ display: 'flex', alignItems: 'flex-end' }}>
             <AssignedMembers
@@ -350,6 +370,9 @@ const ItemInner = memo(function ItemInner({
               teamMemberColors={teamMemberColors}
               style={{ flexGrow: 0, flexShrink: 0, marginRight: '8px', marginBottom: '7px' }}
             />
+            {filePath !== 'member-board-virtual' && (
+              <ItemBlockedBadge item={item} style={{ marginRight: '6px', marginBottom: '7px' }} />
+            )}
             <ItemPriority
               priority={item.data.metadata?.priority}
               style={{ marginBottom: '7px' }}
@@ -359,6 +382,14 @@ const ItemInner = memo(function ItemInner({
         </div>
       )}
 
+      {!isCardEditingState(editState) && (
+        <ItemActivityTimeline
+          entries={item.data.metadata?.activity}
+          stateManager={stateManager}
+          style={{ margin: '0 8px 6px' }}
+        />
+      )}
+
       <ItemMetadata searchQuery={isMatch ? searchQuery : undefined} item={item} />
     </div>
   );
@@ -373,7 +404,7 @@ export const DraggableItem = memo(function DraggableItem(props: DraggableItemPro
 
   const bindHandle = useDragHandle(measureRef, measureRef);
 
-  const isMatch = search?.query ? innerProps.item.data.titleSearch.includes(search.query) : false;
+  const isMatch = search?.query ? search.items.has(innerProps.item) : false;
   const classModifiers: string[] = getItemClassModifiers({
     item: innerProps.item,
     isStatic: innerProps.isStatic,
@@ -397,7 +428,7 @@ export const DraggableItem = memo(function DraggableItem(props: DraggableItemPro
           <ItemInner
             {...innerProps}
             isMatch={isMatch}
-            searchQuery={search?.query}
+            searchQuery={search?.terms}
             isStatic={true}
             targetHighlight={targetHighlight}
           />
@@ -418,7 +449,7 @@ export const DraggableItem = memo(function DraggableItem(props: DraggableItemPro
             <ItemInner
               {...innerProps}
               isMatch={isMatch}
-              searchQuery={search?.query}
+              searchQuery={search?.terms}
               targetHighlight={targetHighlight}
             />
           </Droppable>
@@ -0,0 +1,55 @@
+import { JSX } from 'preact';
+import { StateManager } from 'src/StateManager';
+import { ActivityEntry, ActivityType } from 'src/helpers/activityLog';
+import { t } from 'src/lang/helpers';
+
+import { c } from '../helpers';
+
+const activityLabels: Record<ActivityType, () => string> = {
+  created: () => t('Created in'),
+  moved: () => t('Moved to'),
+  assigned: () => t('Assigned'),
+  unassigned: () => t('Unassigned'),
+  completed: () => t('Completed'),
+  reopened: () => t('Reopened'),
+};
+
+export interface ItemActivityTimelineProps {
+  entries?: ActivityEntry[];
+  stateManager: StateManager;
+  style?: JSX.CSSProperties;
+}
+
+export function ItemActivityTimeline({ entries, stateManager, style }: ItemActivityTimelineProps) {
+  const dateDisplayFormat = stateManager.useSetting('date-display-format');
+  const timeFormat = stateManager.useSetting('time-format');
+
+  if (!entries?.length) return null;
+
+  return (
+    <details
+      className={c('item-activity')}
+      style={style}
+      onClick={(e) => e.stopPropagation()}
+      // eslint-disable-next-line react/no-unknown-property
+      onDblClick={(e) => e.stopPropagation()}
+    >
+      <summary className={c('item-activity-summary')}>
+        {t('Activity')} ({entries.length})
+      </summary>
+      <ol className={c('item-activity-timeline')}>
+        {entries.map((entry, i) => (
+          <li key={i} className={`${c('item-activity-entry')} is-${entry.type}`}>
+            <span className={c('item-activity-time')}>
+              {entry.timestamp.format(`${dateDisplayFormat} ${timeFormat}`)}
+            </span>
+            <span className={c('item-activity-label')}>
+              {activityLabels[entry.type]()}
+              {entry.detail ? ` ${entry.detail}` : ''}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
@@ -0,0 +1,73 @@
+import { JSX } from 'preact';
+import { useContext, useEffect, useState } from 'preact/compat';
+import { ResolvedDependency, isBlocked, resolveDependencies } from 'src/helpers/dependencies';
+import { t } from 'src/lang/helpers';
+
+import { Icon } from '../Icon/Icon';
+import { KanbanContext } from '../context';
+import { c } from '../helpers';
+import { Board, Item } from '../types';
+
+export interface ItemBlockedBadgeProps {
+  item: Item;
+  style?: JSX.CSSProperties;
+}
+
+export function ItemBlockedBadge({ item, style }: ItemBlockedBadgeProps) {
+  const { stateManager, view } = useContext(KanbanContext);
+  const [resolved, setResolved] = useState<ResolvedDependency[]>([]);
+  const [indexVersion, setIndexVersion] = useState(0);
+
+  const blockedBy = item.data.metadata.blockedBy;
+  const plugin = view?.plugin;
+  const sourcePath = stateManager.file?.path;
+  const [board, setBoard] = useState(stateManager.state);
+
+  // Blockers on this board are read from its live state
+  useEffect(() => {
+    if (!blockedBy?.length) return;
+    const receiver = (state: Board) => setBoard(state);
+    stateManager.stateReceivers.push(receiver);
+    return () => {
+      stateManager.stateReceivers.remove(receiver);
+    };
+  }, [stateManager, blockedBy]);
+
+  // Blockers on other boards change without this board re-rendering
+  useEffect(() => {
+    if (!plugin?.cardIndex || !blockedBy?.length) return;
+    return plugin.cardIndex.onChange(() => setIndexVersion((version) => version + 1));
+  }, [plugin, blockedBy]);
+
+  useEffect(() => {
+    if (!plugin || !sourcePath || !blockedBy?.length) {
+      setResolved([]);
+      return;
+    }
+
+    let cancelled = false;
+    resolveDependencies(plugin, blockedBy, sourcePath, board)
+      .then((result) => {
+        if (!cancelled) setResolved(result);
+      })
+      .catch((e) => console.error('[ItemBlockedBadge] Error resolving blockers:', e));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [plugin, sourcePath, blockedBy, board, indexVersion]);
+
+  if (!isBlocked(resolved)) return null;
+
+  const openBlockers = resolved
+    .filter((dependency) => dependency.found && !dependency.checked)
+    .map((dependency) => dependency.title || `^${dependency.blockId}`);
+  const label = `${t('Blocked by')}: ${openBlockers.join(', ')}`;
+
+  return (
+    <div className={c('item-blocked-badge')} style={style} aria-label={label} title={label}>
+      <Icon name="lucide-lock" />
+      <span>{t('Blocked')}</span>
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ import useOnclickOutside from 'react-cool-onclickoutside';
 import { StateManager } from 'src/StateManager';
 import { useNestedEntityPath } from 'src/dnd/components/Droppable';
 import { Path } from 'src/dnd/types';
+import { areSubtasksComplete } from 'src/helpers/subtasks';
 import { t } from 'src/lang/helpers';
 import { getTaskStatusDone, toggleTaskString } from 'src/parsers/helpers/inlineMetadata';
 
@@ -27,6 +28,7 @@ import { KanbanContext, SearchContext } from '../context';
 import {
   c,
   escapeRegExpStr,
+  isSearchMatch,
   useGetDateColorFn,
   useGetTagColorFn,
   useGetTagSymbolFn,
@@ -109,7 +111,7 @@ export function useDatePickers(item: Item, explicitPath?: Path) {
 export interface ItemContentProps {
   item: Item;
   setEditState: Dispatch<StateUpdater<EditState>>;
-  searchQuery?: string;
+  searchQuery?: string[];
   showMetadata?: boolean;
   editState: EditState;
   isStatic: boolean;
@@ -159,7 +161,7 @@ function checkCheckbox(stateManager: StateManager, title: string, checkboxIndex:
 
 interface TagsProps {
   tags?: string[];
-  searchQuery?: string;
+  searchQuery?: string[];
   alwaysShow?: boolean;
   style?: JSX.CSSProperties;
 }
@@ -253,9 +255,7 @@ export function Tags(props: TagsProps) {
             }}
             key={i}
             className={`tag ${c('item-tag')} ${
-              searchQuery && originalTag.toLocaleLowerCase().contains(searchQuery)
-                ? 'is-search-match'
-                : ''
+              isSearchMatch(originalTag, searchQuery) ? 'is-search-match' : ''
             }`}
             aria-label={t('Search Tag')}
             style={{
@@ -276,7 +276,7 @@ export function Tags(props: TagsProps) {
 
 export interface AssignedMembersProps {
   assignedMembers?: string[];
-  searchQuery?: string;
+  searchQuery?: string[];
   teamMemberColors?: Record<string, TeamMemberColorConfig>;
   style?: JSX.CSSProperties;
 }
@@ -848,7 +848,26 @@ const ItemContentComponent = function ItemContent({
         if (isStatic) return;
         const checkboxIndex = parseInt(e.targetNode.dataset.checkboxIndex);
         const newTitle = checkCheckbox(stateManager, item.data.titleRaw, checkboxIndex);
-        boardModifiers.updateItem(path, stateManager.updateItemContent(item, newTitle));
+        const newItem = stateManager.updateItemContent(item, newTitle);
+
+        // Lanes can complete a card as soon as its last subtask is checked
+        const lane = stateManager.state?.children.find((lane) =>
+          lane.children.some((child) => child.id === item.id)
+        );
+        if (
+          lane?.data.shouldCompleteOnSubtasks &&
+          !item.data.checked &&
+          areSubtasksComplete(newItem.data.metadata.subtasks)
+        ) {
+          stateManager.updateItem(
+            item.id,
+            { ...newItem.data, checked: true, checkChar: getTaskStatusDone() },
+            stateManager.state.children
+          );
+          return;
+        }
+
+        boardModifiers.updateItem(path, newItem);
       }
     },
     [stateManager, item, boardModifiers, path, isStatic]
@@ -7,6 +7,8 @@ import { moveEntity } from 'src/dnd/util/data';
 import { t } from 'src/lang/helpers';
 
 import { BoardModifiers } from '../../helpers/boardModifiers';
+import { applyLaneMoveRules } from '../../helpers/laneRules';
+import { hasRunningTimer, toggleTimer } from '../../helpers/timeTracking';
 import { TagNameModal } from '../../modals/TagNameModal';
 import { getAllTagsFromKanbanBoards } from '../../utils/kanbanTags';
 import { applyTemplate, escapeRegExpStr, generateInstanceId, getTagSymbolFn } from '../helpers';
@@ -397,7 +399,15 @@ function addMoveToOptions(
           .onClick(() => {
             if (path[0] === i) return;
             stateManager.setState((boardData) => {
-              return moveEntity(boardData, path, [i, 0]);
+              return moveEntity(boardData, path, [i, 0], (entity) =>
+                applyLaneMoveRules(
+                  stateManager,
+                  boardData.children[path[0]],
+                  stateManager,
+                  boardData.children[i],
+                  entity as Item
+                )
+              );
             });
           })
       );
@@ -640,6 +650,21 @@ export function useItemMenu({
         }
       }
 
+      if (stateManager.getSetting('enableTimeTracking')) {
+        const isTimerRunning = hasRunningTimer(item.data.metadata.timeLog);
+        menu.addItem((menuItem) => {
+          menuItem
+            .setIcon(isTimerRunning ? 'lucide-square' : 'lucide-play')
+            .setTitle(isTimerRunning ? t('Stop timer') : t('Start timer'))
+            .onClick(() => {
+              boardModifiers.updateItem(
+                path,
+                stateManager.updateItemContent(item, toggleTimer(item.data.titleRaw))
+              );
+            });
+        });
+      }
+
       // 5. Move to List
       addMoveToOptions(menu, path, stateManager, boardModifiers);
 
@@ -0,0 +1,39 @@
+import classcat from 'classcat';
+import { JSX } from 'preact';
+import {
+  SubtaskProgress,
+  areSubtasksComplete,
+  formatSubtaskProgress,
+  hasSubtasks,
+} from 'src/helpers/subtasks';
+import { t } from 'src/lang/helpers';
+
+import { c } from '../helpers';
+
+export interface ItemSubtaskProgressProps {
+  progress?: SubtaskProgress;
+  style?: JSX.CSSProperties;
+}
+
+export function ItemSubtaskProgress({ progress, style }: ItemSubtaskProgressProps) {
+  if (!hasSubtasks(progress)) return null;
+
+  const label = formatSubtaskProgress(progress);
+  const percent = Math.round((progress.done / progress.total) * 100);
+
+  return (
+    <div
+      className={classcat([
+        c('item-subtask-progress'),
+        { 'is-complete': areSubtasksComplete(progress) },
+      ])}
+      style={style}
+      aria-label={`${t('Subtasks')}: ${label}`}
+    >
+      <div className={c('item-subtask-progress-bar')}>
+        <div className={c('item-subtask-progress-fill')} style={{ width: `${percent}%` }} />
+      </div>
+      <span className={c('item-subtask-progress-count')}>{label}</span>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import classcat from 'classcat';
+import { JSX } from 'preact';
+import { useEffect, useState } from 'preact/compat';
+import { StateManager } from 'src/StateManager';
+import { Path } from 'src/dnd/types';
+import { BoardModifiers } from 'src/helpers/boardModifiers';
+import {
+  formatTrackedTime,
+  getTrackedTime,
+  hasRunningTimer,
+  toggleTimer,
+} from 'src/helpers/timeTracking';
+import { t } from 'src/lang/helpers';
+
+import { Icon } from '../Icon/Icon';
+import { c } from '../helpers';
+import { Item } from '../types';
+
+export interface ItemTimeTrackerProps {
+  item: Item;
+  stateManager: StateManager;
+  boardModifiers: BoardModifiers;
+  path: Path;
+  isHovered: boolean;
+  // Cards outside their board (e.g. in the member view) only display their tracked time
+  readOnly?: boolean;
+  style?: JSX.CSSProperties;
+}
+
+export function ItemTimeTracker({
+  item,
+  stateManager,
+  boardModifiers,
+  path,
+  isHovered,
+  readOnly,
+  style,
+}: ItemTimeTrackerProps) {
+  const enabled = stateManager.useSetting('enableTimeTracking');
+  const timeLog = item.data.metadata.timeLog;
+  const isRunning = hasRunningTimer(timeLog);
+  const [, setTick] = useState(0);
+
+  // Keep the running total current without re-rendering the whole board
+  useEffect(() => {
+    if (!enabled || !isRunning) return;
+    const interval = window.setInterval(() => setTick((tick) => tick + 1), 30000);
+    return () => window.clearInterval(interval);
+  }, [enabled, isRunning]);
+
+  if (!enabled) return null;
+  if (!timeLog?.length && (readOnly || !isHovered)) return null;
+
+  const total = getTrackedTime(timeLog);
+  const label = isRunning ? t('Stop timer') : t('Start timer');
+
+  return (
+    <div
+      className={classcat([c('item-time-tracker'), { 'is-running': isRunning }])}
+      style={style}
+      title={readOnly ? t('Time tracked') : label}
+      aria-label={readOnly ? t('Time tracked') : label}
+      onClick={(e) => {
+        if (readOnly) return;
+        e.stopPropagation();
+        boardModifiers.updateItem(
+          path,
+          stateManager.updateItemContent(item, toggleTimer(item.data.titleRaw))
+        );
+      }}
+      // eslint-disable-next-line react/no-unknown-property
+      onDblClick={(e) => e.stopPropagation()}
+    >
+      <Icon name={readOnly ? 'lucide-timer' : isRunning ? 'lucide-square' : 'lucide-play'} />
+      {!!timeLog?.length && <span>{formatTrackedTime(total)}</span>}
+    </div>
+  );
+}
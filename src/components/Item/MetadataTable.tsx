@@ -10,13 +10,13 @@ import { InlineField, taskFields } from 'src/parsers/helpers/inlineMetadata';
 
 import { MarkdownRenderer } from '../MarkdownRenderer/MarkdownRenderer';
 import { KanbanContext } from '../context';
-import { c, parseMetadataWithOptions, useGetDateColorFn } from '../helpers';
+import { c, isSearchMatch, parseMetadataWithOptions, useGetDateColorFn } from '../helpers';
 import { DataKey, FileMetadata, Item, PageData } from '../types';
 import { Tags } from './ItemContent';
 
 export interface ItemMetadataProps {
   item: Item;
-  searchQuery?: string;
+  searchQuery?: string[];
 }
 
 function mergeMetadata(
@@ -77,7 +77,7 @@ export function ItemMetadata({ item, searchQuery }: ItemMetadataProps) {
 interface MetadataValueProps {
   data: PageData;
   dateLabel?: string;
-  searchQuery?: string;
+  searchQuery?: string[];
 }
 
 export function getDateFromObj(v: any, stateManager: StateManager) {
@@ -155,7 +155,7 @@ export function MetadataValue({ data, dateLabel, searchQuery }: MetadataValuePro
     const link = getLinkFromObj(v, view);
     const date = getDate(v);
     const str = anyToString(v, stateManager);
-    const isMatch = searchQuery && str.toLocaleLowerCase().contains(searchQuery);
+    const isMatch = isSearchMatch(str, searchQuery);
 
     let content: ComponentChild;
     if (link || data.containsMarkdown) {
@@ -216,7 +216,7 @@ export function MetadataValue({ data, dateLabel, searchQuery }: MetadataValuePro
 export interface MetadataTableProps {
   metadata: { [k: string]: PageData } | null;
   order?: string[];
-  searchQuery?: string;
+  searchQuery?: string[];
 }
 
 export const MetadataTable = memo(function MetadataTable({
@@ -236,7 +236,7 @@ export const MetadataTable = memo(function MetadataTable({
           const data = metadata[k];
           if (!data) return null;
 
-          const isSearchMatch = (data.label || k).toLocaleLowerCase().contains(searchQuery);
+          const isLabelMatch = isSearchMatch(data.label || k, searchQuery);
           return (
             <tr key={k} className={c('meta-row')}>
               {!data.shouldHideLabel && (
@@ -244,7 +244,7 @@ export const MetadataTable = memo(function MetadataTable({
                   className={classcat([
                     c('meta-key'),
                     {
-                      'is-search-match': isSearchMatch,
+                      'is-search-match': isLabelMatch,
                     },
                   ])}
                   data-key={k}
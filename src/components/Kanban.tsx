@@ -19,6 +19,7 @@ import { useDebounce } from 'use-debounce';
 import { DndScope } from '../dnd/components/Scope';
 import { getBoardModifiers } from '../helpers/boardModifiers';
 import { debugLog } from '../helpers/debugLogger';
+import { parseDoneLanes } from '../helpers/doneLanes';
 import KanbanPlugin from '../main';
 import { frontmatterKey } from '../parsers/common';
 import { Icon } from './Icon/Icon';
@@ -86,6 +87,8 @@ export const Kanban = ({
 
   const dateColorsFromHook = stateManager.useSetting('date-colors');
   const tagColorsFromHook = stateManager.useSetting('tag-colors');
+  const doneLanesSetting = stateManager.useSetting('done-lanes');
+  const doneLanes = useMemo(() => parseDoneLanes(doneLanesSetting), [doneLanesSetting]);
 
   const [boardData, setBoardData] = useState<Board | null>(board);
   const [searchQuery, setSearchQuery] = useState('');
@@ -232,6 +235,7 @@ export const Kanban = ({
   const searchValue = useSearchValue(
     boardData,
     debouncedSearchQuery,
+    doneLanes,
     setSearchQuery,
     setDebouncedSearchQuery,
     setIsSearching
@@ -287,8 +291,9 @@ export const Kanban = ({
                     }
                   }}
                   type="text"
-                  className={c('filter-input')}
+                  className={classcat([c('filter-input'), { 'is-invalid': !!searchValue.error }])}
                   placeholder={t('Search...')}
+                  aria-invalid={!!searchValue.error}
                 />
                 <a
                   className={`${c('search-cancel-button')} clickable-icon`}
@@ -301,6 +306,7 @@ export const Kanban = ({
                 >
                   <Icon name="lucide-x" />
                 </a>
+                {searchValue.error && <div className={c('search-error')}>{searchValue.error}</div>}
               </div>
             )}
             {boardView === 'table' ? (
@@ -4,6 +4,7 @@ import { KanbanView } from 'src/KanbanView';
 import { hasFrontmatterKey } from 'src/helpers';
 import KanbanPlugin from 'src/main';
 
+import { ItemSubtaskProgress } from './Item/ItemSubtaskProgress';
 import { MarkdownRenderer } from './MarkdownRenderer/MarkdownRenderer';
 import { KanbanContext } from './context';
 import { c } from './helpers';
@@ -195,6 +196,8 @@ export const KanbanCardEmbed = memo(function KanbanCardEmbed({
         </div>
       </div>
 
+      <ItemSubtaskProgress progress={item.data.metadata?.subtasks} style={{ marginTop: '4px' }} />
+
       {item.data.metadata?.tags && item.data.metadata.tags.length > 0 && (
         <div className={c('card-embed-tags')}>
           {item.data.metadata.tags.map((tag, index) => (
@@ -16,6 +16,8 @@ import { frontmatterKey } from 'src/parsers/common';
 import { getTaskStatusDone } from 'src/parsers/helpers/inlineMetadata';
 
 import { debugLog } from '../../helpers/debugLogger';
+import { isDoneLane, parseDoneLanes } from '../../helpers/doneLanes';
+import { getWipLimitMode, isOverWipLimit } from '../../helpers/wipLimits';
 import { Items } from '../Item/Item';
 import { ItemForm } from '../Item/ItemForm';
 import { KanbanContext, SearchContext, SortContext } from '../context';
@@ -55,6 +57,7 @@ function DraggableLaneRaw({
   const laneWidth = stateManager.useSetting('lane-width');
   const fullWidth = boardView === 'list' && stateManager.useSetting('full-list-lane-width');
   const insertionMethod = stateManager.useSetting('new-card-insertion-method');
+  const wipLimitMode = getWipLimitMode(stateManager.useSetting('wip-limit-mode'));
   const laneStyles = useMemo(
     () =>
       !(isCollapsed && collapseDir === 'horizontal') && (fullWidth || laneWidth)
@@ -175,7 +178,14 @@ function DraggableLaneRaw({
         <div
           data-count={lane.children.length}
           ref={elementRef}
-          className={classcat([c('lane'), { 'will-prepend': shouldPrepend }])}
+          className={classcat([
+            c('lane'),
+            {
+              'will-prepend': shouldPrepend,
+              'is-over-wip-limit':
+                wipLimitMode !== 'off' && isOverWipLimit(lane.children.length, lane.data.maxItems),
+            },
+          ])}
           style={dynamicLaneContentStyles}
         >
           <CollapsedDropArea {...dropAreaProps}>
@@ -265,16 +275,17 @@ function LanesRaw({
   cancelEditCounter,
 }: LanesProps) {
   const search = useContext(SearchContext);
-  const { view } = useContext(KanbanContext);
+  const { view, stateManager } = useContext(KanbanContext);
   const boardView = view.useViewState(frontmatterKey) || 'board';
   const collapseState = view.useViewState('list-collapse') || [];
+  const doneLanesSetting = stateManager.useSetting('done-lanes');
+  const doneLanes = useMemo(() => parseDoneLanes(doneLanesSetting), [doneLanesSetting]);
 
   return (
     <>
       {lanes.map((lane, i) => {
-        // Hide Done lane with CSS if hideDoneLane is enabled (keeps DND indices correct)
-        const isDoneLane = lane.data.title?.toLowerCase() === 'done';
-        const shouldHide = hideDoneLane && isDoneLane;
+        // Hide done lanes with CSS if hideDoneLane is enabled (keeps DND indices correct)
+        const shouldHide = hideDoneLane && isDoneLane(lane, doneLanes);
 
         return (
           <div key={boardView + lane.id} style={shouldHide ? { display: 'none' } : undefined}>
@@ -0,0 +1,143 @@
+import update from 'immutability-helper';
+import { useContext } from 'preact/compat';
+import {
+  LaneRule,
+  LaneRuleAction,
+  LaneRuleTrigger,
+  laneRuleActions,
+  laneRuleHasValue,
+} from 'src/helpers/laneRules';
+import { t } from 'src/lang/helpers';
+
+import { Icon } from '../Icon/Icon';
+import { KanbanContext } from '../context';
+import { c } from '../helpers';
+import { Lane } from '../types';
+
+const triggerLabels: Record<LaneRuleTrigger, string> = {
+  enter: t('When a card enters'),
+  leave: t('When a card leaves'),
+};
+
+const actionLabels: Record<LaneRuleAction, string> = {
+  'add-tag': t('Add tag'),
+  'remove-tag': t('Remove tag'),
+  'assign-member': t('Assign member'),
+  'unassign-member': t('Unassign member'),
+  'set-priority': t('Set priority'),
+  'set-start-date': t('Set start date to today'),
+  'set-due-date': t('Set due date to today'),
+  'clear-date': t('Clear due date'),
+  check: t('Mark as complete'),
+  uncheck: t('Mark as incomplete'),
+};
+
+export interface LaneRulesProps {
+  lane: Lane;
+}
+
+export function LaneRules({ lane }: LaneRulesProps) {
+  const { stateManager } = useContext(KanbanContext);
+  const allRules = stateManager.useSetting('lane-rules') || {};
+  const rules = allRules[lane.id] || [];
+  const teamMembers = stateManager.getSetting('teamMembers') || [];
+
+  const setRules = (nextRules: LaneRule[]) => {
+    stateManager.setState((board) => {
+      const current = { ...(board.data.settings['lane-rules'] || {}) };
+
+      if (nextRules.length) {
+        current[lane.id] = nextRules;
+      } else {
+        delete current[lane.id];
+      }
+
+      return update(board, {
+        data: { settings: { 'lane-rules': { $set: current } } },
+      });
+    });
+  };
+
+  const updateRule = (index: number, rule: Partial<LaneRule>) => {
+    setRules(update(rules, { [index]: { $merge: rule } }));
+  };
+
+  return (
+    <div className={c('lane-rules')}>
+      <div className={c('checkbox-label')}>{t('Automation rules')}</div>
+      {rules.map((rule, index) => (
+        <div key={index} className={c('lane-rule')}>
+          <select
+            className="dropdown"
+            value={rule.trigger}
+            onChange={(e) =>
+              updateRule(index, { trigger: e.currentTarget.value as LaneRuleTrigger })
+            }
+          >
+            {(Object.keys(triggerLabels) as LaneRuleTrigger[]).map((trigger) => (
+              <option key={trigger} value={trigger}>
+                {triggerLabels[trigger]}
+              </option>
+            ))}
+          </select>
+          <select
+            className="dropdown"
+            value={rule.action}
+            onChange={(e) => updateRule(index, { action: e.currentTarget.value as LaneRuleAction })}
+          >
+            {laneRuleActions.map((action) => (
+              <option key={action} value={action}>
+                {actionLabels[action]}
+              </option>
+            ))}
+          </select>
+          {rule.action === 'set-priority' ? (
+            <select
+              className="dropdown"
+              value={rule.value || ''}
+              onChange={(e) => updateRule(index, { value: e.currentTarget.value })}
+            >
+              <option value="">{t('None')}</option>
+              <option value="high">{t('High')}</option>
+              <option value="medium">{t('Medium')}</option>
+              <option value="low">{t('Low')}</option>
+            </select>
+          ) : (
+            laneRuleHasValue(rule.action) && (
+              <input
+                type="text"
+                list={
+                  rule.action === 'assign-member' || rule.action === 'unassign-member'
+                    ? `${lane.id}-rule-members`
+                    : undefined
+                }
+                placeholder={
+                  rule.action === 'add-tag' || rule.action === 'remove-tag' ? '#tag' : t('Member')
+                }
+                value={rule.value || ''}
+                onChange={(e) => updateRule(index, { value: e.currentTarget.value })}
+              />
+            )
+          )}
+          <a
+            aria-label={t('Delete')}
+            className="clickable-icon"
+            onClick={() => setRules(update(rules, { $splice: [[index, 1]] }))}
+          >
+            <Icon name="lucide-trash-2" />
+          </a>
+        </div>
+      ))}
+      <datalist id={`${lane.id}-rule-members`}>
+        {teamMembers.map((member) => (
+          <option key={member} value={member} />
+        ))}
+      </datalist>
+      <button
+        onClick={() => setRules([...rules, { trigger: 'enter', action: 'add-tag', value: '' }])}
+      >
+        {t('Add rule')}
+      </button>
+    </div>
+  );
+}
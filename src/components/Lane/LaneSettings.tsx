@@ -6,6 +6,7 @@ import { t } from 'src/lang/helpers';
 import { KanbanContext } from '../context';
 import { c } from '../helpers';
 import { EditState, Lane, isEditCoordinates } from '../types';
+import { LaneRules } from './LaneRules';
 
 export interface LaneSettingsProps {
   lane: Lane;
@@ -34,6 +35,23 @@ export function LaneSettings({ lane, lanePath, editState }: LaneSettingsProps) {
           className={`checkbox-container ${lane.data.shouldMarkItemsComplete ? 'is-enabled' : ''}`}
         />
       </div>
+      <div className={c('checkbox-wrapper')}>
+        <div className={c('checkbox-label')}>
+          {t('Complete cards when all their subtasks are done')}
+        </div>
+        <div
+          onClick={() =>
+            boardModifiers.updateLane(
+              lanePath,
+              update(lane, {
+                data: { $toggle: ['shouldCompleteOnSubtasks'] },
+              })
+            )
+          }
+          className={`checkbox-container ${lane.data.shouldCompleteOnSubtasks ? 'is-enabled' : ''}`}
+        />
+      </div>
+      <LaneRules lane={lane} />
     </div>
   );
 }
@@ -3,15 +3,28 @@ import moment from 'moment';
 import { Notice, TFile } from 'obsidian';
 import { createElement } from 'preact';
 import { memo, useEffect, useMemo, useRef, useState } from 'preact/compat';
+import { IndexedCard } from 'src/CardIndex';
 import { DEFAULT_SETTINGS } from 'src/Settings';
 import { StateManager } from 'src/StateManager';
 import { generateInstanceId } from 'src/components/helpers';
 import { Lane } from 'src/components/types';
-import { hasFrontmatterKey } from 'src/helpers';
 import KanbanPlugin from 'src/main';
 import { ListFormat } from 'src/parsers/List';
 
 import { debugLog } from '../helpers/debugLogger';
+import {
+  findDoneLaneIndex,
+  getBoardDoneLanes,
+  getNewDoneLaneTitle,
+  isDoneLane,
+} from '../helpers/doneLanes';
+import {
+  matchesKanbanQuery,
+  orderKanbanQueryResults,
+  parseKanbanQuery,
+} from '../helpers/kanbanQuery';
+import { SubtaskProgress, getSubtaskProgress } from '../helpers/subtasks';
+import { ItemSubtaskProgress } from './Item/ItemSubtaskProgress';
 import { getTagColorFn, getTagSymbolFn, useGetDateColorFn } from './helpers';
 
 // Interactive Markdown Renderer Component for handling both internal and external links
@@ -141,15 +154,13 @@ function InteractiveMarkdownRenderer(props: {
   return createElement('span', { ref: contentRef }, ...parts);
 }
 
-// Helper function to move a card to the "Done" lane in markdown
+// Helper function to move a card to the board's done lane in markdown
 async function moveCardToDoneLane(
   plugin: KanbanPlugin,
   markdownContent: string,
   targetFile: TFile,
   cardToMove: LinkedCard
 ): Promise<string> {
-  const DONE_LANE_NAME = 'Done';
-
   // Create a temporary StateManager to parse the board
   const tempStateManager = new StateManager(
     plugin.app,
@@ -191,8 +202,11 @@ async function moveCardToDoneLane(
       return markdownContent; // Card not found, return original content
     }
 
-    // Find or create "Done" lane
-    let doneLaneIndex = board.children.findIndex((lane) => lane.data.title === DONE_LANE_NAME);
+    // Find or create the done lane, leaving cards that are already in one where they are
+    const doneLanes = getBoardDoneLanes(board, plugin.settings);
+    let doneLaneIndex = isDoneLane(board.children[sourceLaneIndex], doneLanes)
+      ? sourceLaneIndex
+      : findDoneLaneIndex(board.children, doneLanes);
     let boardForUpdate = board;
 
     if (doneLaneIndex === -1) {
@@ -202,7 +216,7 @@ async function moveCardToDoneLane(
         type: 'lane',
         accepts: ['item'],
         data: {
-          title: DONE_LANE_NAME,
+          title: getNewDoneLaneTitle(doneLanes),
         },
         children: [],
       };
@@ -250,19 +264,30 @@ interface LinkedCard {
   tags?: string[];
   metadata?: any;
   checked: boolean;
+  // Cards in one of the board's done lanes count as done even when they aren't checked
+  inDoneLane: boolean;
   assignedMembers?: string[];
   priority?: 'high' | 'medium' | 'low';
   date?: string;
+  subtasks?: SubtaskProgress;
+}
+
+function isCardDone(card: LinkedCard) {
+  return card.checked || card.inDoneLane;
 }
 
 interface LinkedCardsDisplayProps {
   plugin: KanbanPlugin;
   currentFilePath: string;
+  // Body of the ```kanban``` block. When it contains a query, matching cards from any board
+  // are shown instead of the cards linking to the current file.
+  query?: string;
 }
 
 export const LinkedCardsDisplay = memo(function LinkedCardsDisplay({
   plugin,
   currentFilePath,
+  query,
 }: LinkedCardsDisplayProps) {
   const [showDone, setShowDone] = useState(false);
   const [loading, setLoading] = useState(true);
@@ -270,6 +295,11 @@ export const LinkedCardsDisplay = memo(function LinkedCardsDisplay({
   const [linkedCards, setLinkedCards] = useState<LinkedCard[]>([]);
   const [forceRenderKey, setForceRenderKey] = useState(0); // Add force render key
 
+  const { query: kanbanQuery, errors: queryErrors } = useMemo(
+    () => parseKanbanQuery(query || ''),
+    [query]
+  );
+
   // Get tag color and symbol functions
   const getTagColor = useMemo(
     () => getTagColorFn(plugin.settings['tag-colors'] || []),
@@ -347,7 +377,10 @@ export const LinkedCardsDisplay = memo(function LinkedCardsDisplay({
 
   useEffect(() => {
     loadLinkedCards();
-  }, [currentFilePath]);
+
+    // Keep the list current as boards change; the card index tells us when
+    return plugin.cardIndex.onChange(() => loadLinkedCards(true));
+  }, [currentFilePath, query]);
 
   // Re-render when settings change (specifically the hide settings)
   const [hideWhenNoneExistSetting, setHideWhenNoneExistSetting] = useState(() => {
@@ -403,43 +436,36 @@ export const LinkedCardsDisplay = memo(function LinkedCardsDisplay({
     };
   }, [plugin]);
 
-  const loadLinkedCards = async () => {
+  // `silent` reloads (triggered by board changes) keep the current cards on screen
+  const loadLinkedCards = async (silent = false) => {
     try {
-      setLoading(true);
+      if (!silent) setLoading(true);
       setError(null);
 
+      // Invalid queries are reported by the render below, don't scan the vault for them
+      if (queryErrors.length > 0) {
+        setLinkedCards([]);
+        return;
+      }
+
       const currentFile = plugin.app.vault.getAbstractFileByPath(currentFilePath) as TFile;
       if (!currentFile) {
         setError('Current file not found');
         return;
       }
 
-      const cards: LinkedCard[] = [];
-      const allMarkdownFiles = plugin.app.vault.getMarkdownFiles();
-      const kanbanBoards: TFile[] = [];
-
-      // Find all Kanban boards
-      for (const file of allMarkdownFiles) {
-        if (hasFrontmatterKey(file)) {
-          kanbanBoards.push(file);
-        }
-      }
+      // Query blocks match on card fields, plain blocks on links to the current file
+      const indexedCards = await plugin.cardIndex.getCards((card) =>
+        kanbanQuery
+          ? matchesKanbanQuery(card, kanbanQuery)
+          : checkForFileLink(
+              card.data.titleRaw || card.data.title,
+              currentFile.basename,
+              currentFile.path
+            )
+      );
 
-      // Search each board for cards that link to the current file
-      for (const boardFile of kanbanBoards) {
-        try {
-          const fileContent = await plugin.app.vault.cachedRead(boardFile);
-          const boardCards = await findLinkedCardsInBoard(
-            fileContent,
-            boardFile,
-            currentFile,
-            plugin
-          );
-          cards.push(...boardCards);
-        } catch (e) {
-          console.warn(`Error searching board ${boardFile.path} for linked cards:`, e);
-        }
-      }
+      const cards = indexedCards.map(toLinkedCard);
 
       // Sort cards by board name, then lane name, then title
       cards.sort((a, b) => {
@@ -461,69 +487,29 @@ export const LinkedCardsDisplay = memo(function LinkedCardsDisplay({
     }
   };
 
-  const findLinkedCardsInBoard = async (
-    boardContent: string,
-    boardFile: TFile,
-    targetFile: TFile,
-    plugin: KanbanPlugin
-  ): Promise<LinkedCard[]> => {
-    const cards: LinkedCard[] = [];
-
-    try {
-      // Create a temporary StateManager to parse the board
-      const tempView = { file: boardFile } as any;
-      const tempStateManager = new StateManager(
-        plugin.app,
-        tempView,
-        () => {},
-        () => plugin.settings
-      );
-
-      const parser = new ListFormat(tempStateManager);
-      const board = parser.mdToBoard(boardContent);
-
-      if (!board || !board.children) return cards;
-
-      // Get the target file name and path for matching
-      const targetFileName = targetFile.basename;
-      const targetFilePath = targetFile.path;
-
-      for (const lane of board.children) {
-        if (!lane.children) continue;
-
-        for (const item of lane.children) {
-          const itemData = item.data;
-          const titleRaw = itemData.titleRaw || itemData.title;
-
-          // Check if this card contains a link to the target file
-          const containsLink = checkForFileLink(titleRaw, targetFileName, targetFilePath);
-
-          if (containsLink) {
-            const extractedMetadata = extractMetadata(titleRaw);
-            cards.push({
-              title: itemData.title,
-              titleRaw: titleRaw,
-              content: extractCardContent(titleRaw),
-              boardName: boardFile.basename,
-              boardPath: boardFile.path,
-              laneName: lane.data.title,
-              laneColor: lane.data.backgroundColor,
-              blockId: itemData.blockId,
-              tags: itemData.metadata?.tags || [],
-              metadata: itemData.metadata,
-              checked: itemData.checked || false,
-              assignedMembers: extractedMetadata.assignedMembers,
-              priority: extractedMetadata.priority,
-              date: extractedMetadata.date,
-            });
-          }
-        }
-      }
-    } catch (e) {
-      console.warn(`Error parsing board ${boardFile.path}:`, e);
-    }
+  const toLinkedCard = (card: IndexedCard): LinkedCard => {
+    const itemData = card.data;
+    const titleRaw = itemData.titleRaw || itemData.title;
+    const extractedMetadata = extractMetadata(titleRaw);
 
-    return cards;
+    return {
+      title: itemData.title,
+      titleRaw: titleRaw,
+      content: extractCardContent(titleRaw),
+      boardName: card.boardName,
+      boardPath: card.boardPath,
+      laneName: card.laneName,
+      laneColor: card.laneColor,
+      blockId: itemData.blockId,
+      tags: itemData.metadata?.tags || [],
+      metadata: itemData.metadata,
+      checked: itemData.checked || false,
+      inDoneLane: card.inDoneLane,
+      assignedMembers: extractedMetadata.assignedMembers,
+      priority: extractedMetadata.priority,
+      date: extractedMetadata.date,
+      subtasks: getSubtaskProgress(titleRaw),
+    };
   };
 
   const checkForFileLink = (content: string, fileName: string, filePath: string): boolean => {
@@ -982,6 +968,13 @@ export const LinkedCardsDisplay = memo(function LinkedCardsDisplay({
     }
   };
 
+  // Filter cards based on showDone setting, then apply the query's sort and limit.
+  // Kept above the early returns so every render calls the same hooks
+  const filteredCards = useMemo(() => {
+    const visibleCards = showDone ? linkedCards : linkedCards.filter((card) => !isCardDone(card));
+    return kanbanQuery ? orderKanbanQueryResults(visibleCards, kanbanQuery) : visibleCards;
+  }, [linkedCards, showDone, kanbanQuery]);
+
   if (loading) {
     return (
       <div className="kanban-plugin__linked-cards-container">
@@ -1002,15 +995,25 @@ export const LinkedCardsDisplay = memo(function LinkedCardsDisplay({
     );
   }
 
-  // Filter cards based on showDone setting
-  const filteredCards = useMemo(() => {
-    return showDone ? linkedCards : linkedCards.filter((card) => !card.checked);
-  }, [linkedCards, showDone]);
+  if (queryErrors.length > 0) {
+    return (
+      <div className="kanban-plugin__linked-cards-container">
+        <div className="kanban-plugin__linked-cards-error">
+          <span>⚠️ Invalid kanban query:</span>
+          <ul>
+            {queryErrors.map((queryError, index) => (
+              <li key={index}>{queryError}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    );
+  }
 
   // Check if we should hide the component based on settings
   const hideWhenNoneExist = hideWhenNoneExistSetting;
   const hideWhenOnlyDone = hideWhenOnlyDoneSetting;
-  const allCardsAreDone = linkedCards.length > 0 && linkedCards.every((card) => card.checked);
+  const allCardsAreDone = linkedCards.length > 0 && linkedCards.every(isCardDone);
 
   // Debug logging
   debugLog('LinkedCardsDisplay Debug:', {
@@ -1030,8 +1033,9 @@ export const LinkedCardsDisplay = memo(function LinkedCardsDisplay({
     defaultOnlyDone: DEFAULT_SETTINGS['hide-linked-cards-when-only-done'],
   });
 
-  // Hide if no cards at all and setting is enabled
-  if (linkedCards.length === 0 && hideWhenNoneExist) {
+  // Hide if no cards at all and setting is enabled. The hide settings only apply to
+  // backlink blocks; an empty query result is shown so the query can be adjusted.
+  if (!kanbanQuery && linkedCards.length === 0 && hideWhenNoneExist) {
     debugLog('LinkedCardsDisplay: Hiding due to no cards and setting enabled');
     // Return a hidden marker instead of null to help with CSS targeting
     return (
@@ -1040,7 +1044,7 @@ export const LinkedCardsDisplay = memo(function LinkedCardsDisplay({
   }
 
   // Hide if setting is enabled and all cards are done
-  if (hideWhenOnlyDone && allCardsAreDone) {
+  if (!kanbanQuery && hideWhenOnlyDone && allCardsAreDone) {
     debugLog('LinkedCardsDisplay: Hiding due to setting enabled with all done');
     return null;
   }
@@ -1048,7 +1052,7 @@ export const LinkedCardsDisplay = memo(function LinkedCardsDisplay({
   // Hide if cards exist but none match the current filter AND we have mixed done/undone cards
   // (Don't hide if all cards are done - let the user use "Show Done" checkbox)
   // (Don't hide if no cards exist at all - that's handled by the first condition)
-  if (linkedCards.length > 0 && filteredCards.length === 0 && !allCardsAreDone) {
+  if (!kanbanQuery && linkedCards.length > 0 && filteredCards.length === 0 && !allCardsAreDone) {
     debugLog('LinkedCardsDisplay: Hiding due to no filtered cards (mixed done/undone)');
     return null;
   }
@@ -1058,7 +1062,9 @@ export const LinkedCardsDisplay = memo(function LinkedCardsDisplay({
   return (
     <div className="kanban-plugin__linked-cards-container">
       <div className="kanban-plugin__linked-cards-header">
-        <h4>Linked Kanban Cards ({filteredCards.length})</h4>
+        <h4>
+          {kanbanQuery ? 'Kanban Query' : 'Linked Kanban Cards'} ({filteredCards.length})
+        </h4>
         <div className="kanban-plugin__linked-cards-controls">
           <label className="kanban-plugin__linked-cards-show-done">
             <input
@@ -1071,6 +1077,10 @@ export const LinkedCardsDisplay = memo(function LinkedCardsDisplay({
         </div>
       </div>
 
+      {kanbanQuery && filteredCards.length === 0 && (
+        <div className="kanban-plugin__linked-cards-empty">No cards match this query</div>
+      )}
+
       <div className="kanban-plugin__linked-cards-grid">
         {filteredCards.map((card, index) => {
           // Check if lane colors should be used
@@ -1140,6 +1150,7 @@ export const LinkedCardsDisplay = memo(function LinkedCardsDisplay({
                     currentFilePath
                   )}
                 </div>
+                <ItemSubtaskProgress progress={card.subtasks} style={{ marginTop: '4px' }} />
               </div>
 
               {card.tags &&
@@ -22,7 +22,7 @@ import { DateColor, TagColor } from '../types';
 interface MarkdownRendererProps extends HTMLAttributes<HTMLDivElement> {
   className?: string;
   markdownString: string;
-  searchQuery?: string;
+  searchQuery?: string[];
   entityId?: string;
   searchMatches?: any[];
 }
@@ -419,7 +419,7 @@ export const MarkdownRenderer = memo(function MarkdownPreviewRenderer({
     const preview = renderer.current;
     if (!preview) return;
     preview.mark.unmark();
-    if (searchQuery && searchQuery.trim()) {
+    if (searchQuery?.length) {
       preview.mark.mark(searchQuery);
     }
   }, [searchQuery]);
@@ -14,6 +14,10 @@ import { Sortable } from '../dnd/components/Sortable';
 import { DndManagerContext } from '../dnd/components/context';
 import { getBoardModifiers } from '../helpers/boardModifiers';
 import { debugLog } from '../helpers/debugLogger';
+import { getMemberColumns, isWipColumn } from '../helpers/memberWorkflow';
+import { formatTrackedTime, getTrackedTime, parseTimeLog } from '../helpers/timeTracking';
+import { getMemberWipLimit, isOverWipLimit } from '../helpers/wipLimits';
+import { t } from '../lang/helpers';
 import KanbanPlugin from '../main';
 import { Items } from './Item/Item';
 import { MemberItems } from './MemberItems';
@@ -36,6 +40,47 @@ function DndDebugInfo() {
   return null;
 }
 
+interface MemberTimeReportProps {
+  memberCards: any[];
+}
+
+// Tracked time on the member's cards, broken down by board
+function MemberTimeReport({ memberCards }: MemberTimeReportProps) {
+  const boards = useMemo(() => {
+    const totals = new Map<string, { name: string; time: number }>();
+
+    for (const card of memberCards) {
+      const time = getTrackedTime(parseTimeLog(card.titleRaw));
+      if (!time) continue;
+
+      const entry = totals.get(card.sourceBoardPath) || { name: card.sourceBoardName, time: 0 };
+      entry.time += time;
+      totals.set(card.sourceBoardPath, entry);
+    }
+
+    return Array.from(totals.entries()).sort((a, b) => b[1].time - a[1].time);
+  }, [memberCards]);
+
+  if (!boards.length) return null;
+
+  const total = boards.reduce((sum, [, board]) => sum + board.time, 0);
+
+  return (
+    <div className={c('member-board-time-report')}>
+      <div className={c('member-board-time-report-row')}>
+        <strong>{t('Time tracked')}</strong>
+        <strong>{formatTrackedTime(total)}</strong>
+      </div>
+      {boards.map(([path, board]) => (
+        <div key={path} className={c('member-board-time-report-row')}>
+          <span>{board.name}</span>
+          <span>{formatTrackedTime(board.time)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 // Extract lane component to fix hooks violation
 interface MemberLaneProps {
   lane: Lane;
@@ -45,6 +90,10 @@ interface MemberLaneProps {
   memberCards: any[];
   view: MemberView;
   onRefresh: () => void;
+  // The member's WIP limit, shown against the columns that count toward it
+  wipLimit?: number;
+  // Cards in all of those columns
+  wipCount?: number;
 }
 
 function MemberLane({
@@ -55,8 +104,12 @@ function MemberLane({
   memberCards,
   view,
   onRefresh,
+  wipLimit,
+  wipCount,
 }: MemberLaneProps) {
   const laneRef = useRef<HTMLDivElement>(null);
+  const column = getMemberColumns(view.plugin.settings).find((c) => c.id === lane.id);
+  const showWipLimit = isWipColumn(column) && wipLimit > 0;
 
   return (
     <div className={c('lane-wrapper')} style={{ width: `${memberViewLaneWidth}px` }}>
@@ -64,7 +117,17 @@ function MemberLane({
         <div className={c('lane-header-wrapper')}>
           <div className={c('lane-title')}>
             <div className={c('lane-title-text')}>{lane.data.title}</div>
-            <div className={c('lane-title-count')}>{lane.children.length}</div>
+            <div
+              className={classcat([
+                c('lane-title-count'),
+                {
+                  [c('member-board-lane-wip')]: showWipLimit,
+                  'is-over-wip-limit': showWipLimit && isOverWipLimit(wipCount, wipLimit),
+                },
+              ])}
+            >
+              {showWipLimit ? `${wipCount}/${wipLimit}` : lane.children.length}
+            </div>
           </div>
         </div>
         <div className={c('lane-items-wrapper')}>
@@ -86,7 +149,7 @@ function MemberLane({
                   <MemberItems
                     items={lane.children}
                     laneId={lane.id}
-                    shouldMarkItemsComplete={lane.id === 'done'}
+                    shouldMarkItemsComplete={column?.match === 'checked'}
                     targetHighlight={null}
                     cancelEditCounter={0}
                     memberCards={memberCards}
@@ -277,6 +340,7 @@ export function MemberBoard(props: MemberBoardProps) {
           'date-picker-week-start': 0,
           'date-time-display-format': 'MMM D, YYYY h:mm a',
           'table-sizing': {},
+          enableTimeTracking: plugin.settings.enableTimeTracking || false,
         };
         return defaults[key] || DEFAULT_SETTINGS[key];
       },
@@ -302,6 +366,8 @@ export function MemberBoard(props: MemberBoardProps) {
 
   const searchContext = {
     query: '',
+    terms: [] as string[],
+    error: null as string | null,
     items: new Set(),
   };
 
@@ -382,6 +448,12 @@ export function MemberBoard(props: MemberBoardProps) {
   // Show "Sort by..." when sortBy is empty string, otherwise show the actual sort value
   const sortDisplayValue = sortBy;
 
+  const columns = getMemberColumns(plugin.settings);
+  const wipCount = board.children.reduce((count, lane) => {
+    const column = columns.find((c) => c.id === lane.id);
+    return isWipColumn(column) ? count + lane.children.length : count;
+  }, 0);
+
   return (
     <div
       className={c('member-board-container')}
@@ -514,6 +586,8 @@ export function MemberBoard(props: MemberBoardProps) {
                 </div>
               </div>
 
+              {plugin.settings.enableTimeTracking && <MemberTimeReport memberCards={memberCards} />}
+
               {/* Board with same appearance as regular Kanban - With drag-and-drop */}
               <KanbanContext.Provider value={kanbanContext}>
                 <SearchContext.Provider value={searchContext}>
@@ -551,6 +625,8 @@ export function MemberBoard(props: MemberBoardProps) {
                               memberCards={memberCards}
                               view={view}
                               onRefresh={onRefresh}
+                              wipLimit={getMemberWipLimit(plugin.settings, selectedMember)}
+                              wipCount={wipCount}
                             />
                           );
                         })}
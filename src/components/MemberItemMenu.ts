@@ -5,6 +5,7 @@ import { useCallback, useEffect, useState } from 'preact/hooks';
 import { KanbanView } from '../KanbanView';
 import { MemberView } from '../MemberView';
 import { debugLog } from '../helpers/debugLogger';
+import { getMemberColumns } from '../helpers/memberWorkflow';
 import { t } from '../lang/helpers';
 import { TagNameModal } from '../modals/TagNameModal';
 import { getAllTagsFromKanbanBoards } from '../utils/kanbanTags';
@@ -21,7 +22,7 @@ interface MemberCard {
   title: string;
   titleRaw: string;
   checked: boolean;
-  hasDoing: boolean;
+  columnId: string;
   sourceBoardPath: string;
   sourceBoardName: string;
   sourceStartLine?: number;
@@ -177,32 +178,16 @@ export function useMemberItemMenu({ memberCard, view, onCardUpdate }: UseMemberI
 
       menu.addSeparator();
 
-      // 2. Move to... (Backlog/Doing/Done)
+      // 2. Move to... (the Member view columns)
       menu.addItem((menuItem) => {
         menuItem.setTitle('Move to...').setIcon('lucide-move');
         const moveSubMenu = (menuItem as any).setSubmenu();
 
-        const lanes = [
-          { id: 'backlog', title: 'Backlog' },
-          { id: 'doing', title: 'Doing' },
-          { id: 'done', title: 'Done' },
-        ];
-
-        lanes.forEach((lane) => {
+        getMemberColumns(view.plugin.settings).forEach((lane) => {
           moveSubMenu.addItem((subMenuItem: MenuItem) => {
-            // Determine if this is the current lane
-            let isCurrentLane = false;
-            if (lane.id === 'backlog') {
-              isCurrentLane = !memberCard.checked && !memberCard.hasDoing;
-            } else if (lane.id === 'doing') {
-              isCurrentLane = !memberCard.checked && memberCard.hasDoing;
-            } else if (lane.id === 'done') {
-              isCurrentLane = memberCard.checked;
-            }
-
             subMenuItem
               .setTitle(lane.title)
-              .setChecked(isCurrentLane)
+              .setChecked(memberCard.columnId === lane.id)
               .onClick(async () => {
                 try {
                   await view.handleDrop(
@@ -84,7 +84,7 @@ const MemberItemInner = memo(function MemberItemInner({
   }
 
   const { stateManager, boardModifiers } = useContext(KanbanContext);
-  const { query: searchQuery, items: matchedItems } = useContext(SearchContext);
+  const { query: searchQuery, terms: searchTerms, items: matchedItems } = useContext(SearchContext);
   const dndManager = useContext(DndManagerContext);
   const path = useNestedEntityPath();
 
@@ -278,7 +278,7 @@ const MemberItemInner = memo(function MemberItemInner({
           <div style={{ flexGrow: 1, marginRight: '8px', minWidth: 0 }}>
             <Tags
               tags={item.data.metadata?.tags}
-              searchQuery={isMatch ? searchQuery : undefined}
+              searchQuery={isMatch ? searchTerms : undefined}
               alwaysShow={true}
               style={{
                 marginLeft: '8px',
@@ -309,7 +309,7 @@ const MemberItemInner = memo(function MemberItemInner({
           item={item}
           setEditState={setEditState}
           showMetadata={true}
-          searchQuery={isMatch ? searchQuery : undefined}
+          searchQuery={isMatch ? searchTerms : undefined}
           isStatic={isStatic}
         />
       </div>
@@ -343,7 +343,7 @@ const MemberItemInner = memo(function MemberItemInner({
           <div style={{ display: 'flex', alignItems: 'flex-end' }}>
             <AssignedMembers
               assignedMembers={item.data.assignedMembers}
-              searchQuery={isMatch ? searchQuery : undefined}
+              searchQuery={isMatch ? searchTerms : undefined}
               teamMemberColors={teamMemberColors}
               style={{ flexGrow: 0, flexShrink: 0, marginRight: '8px', marginBottom: '7px' }}
             />
@@ -396,7 +396,7 @@ const MemberDraggableItem = memo(function MemberDraggableItem(props: MemberDragg
     }
   }, [item, isStatic, stateManager]);
 
-  const isMatch = search?.query ? item.data.titleSearch.includes(search.query) : false;
+  const isMatch = search?.query ? search.items.has(item) : false;
 
   return (
     <div
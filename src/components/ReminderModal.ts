@@ -1,90 +1,67 @@
-import moment from 'moment';
-import { App, Modal, Setting } from 'obsidian';
-
-export interface TaskForEmail {
-  title: string;
-  boardName: string;
-  boardPath: string;
-  dueDate?: string; // Make optional to support tasks without due dates
-  tags?: string[];
-  priority?: 'high' | 'medium' | 'low';
-  laneName: string;
-}
-
-// Default priority colors removed as HTML is not used
-// const DEFAULT_PRIORITY_COLORS: Record<string, string> = {
-//   high: '#FF0000',
-//   medium: '#FFA500',
-//   low: '#0000FF',
-// };
+import { App, Modal, Notice, Setting } from 'obsidian';
+
+import { createEmailTransport, isEmailTransportConfigured } from '../helpers/emailTransport';
+import {
+  ReminderEmail,
+  TaskForEmail,
+  buildReminderEmail,
+  getTimeframeText,
+  loadReminderTemplate,
+} from '../helpers/reminderEmail';
+import KanbanPlugin from '../main';
 
 export class ReminderModal extends Modal {
+  plugin: KanbanPlugin;
   tasksByEmail: Record<string, Array<TaskForEmail>>;
   reminderTimeframeDays: number;
   tasksWithoutDueDateByEmail: Record<string, Array<TaskForEmail>>;
 
   constructor(
     app: App,
+    plugin: KanbanPlugin,
     tasksByEmail: Record<string, Array<TaskForEmail>>,
     reminderTimeframeDays: number,
     tasksWithoutDueDateByEmail: Record<string, Array<TaskForEmail>> = {}
   ) {
     super(app);
+    this.plugin = plugin;
     this.tasksByEmail = tasksByEmail;
     this.reminderTimeframeDays = reminderTimeframeDays;
     this.tasksWithoutDueDateByEmail = tasksWithoutDueDateByEmail;
   }
 
-  convertWikilinksToObsidianUrls(text: string): string {
-    if (!text) return text;
-
-    // Get the vault name for the obsidian:// URL
-    const vaultName = this.app.vault.getName();
+  renderPreview(containerEl: HTMLElement, email: ReminderEmail) {
+    containerEl.empty();
 
-    let result = text;
-
-    // Replace external markdown links [text](url) first
-    result = result.replace(/\[([^\]]+)\]\(([^)]+)\)/g, (match, linkText, url) => {
-      return `${linkText} (${url})`;
+    containerEl.createDiv({
+      cls: 'kanban-plugin__reminder-preview-subject',
+      text: `Subject: ${email.subject}`,
     });
-
-    // Replace wikilinks with Obsidian URLs
-    // Pattern matches: [[filename]] or [[path/filename]] or [[filename|display text]]
-    result = result.replace(
-      /\[\[([^\]|]+)(\|([^\]]+))?\]\]/g,
-      (match, filePath, pipe, displayText) => {
-        // Use display text if provided, otherwise use the filename
-        const linkText = displayText || filePath.split('/').pop() || filePath;
-
-        // Encode the file path for URL
-        const encodedPath = encodeURIComponent(filePath);
-
-        // Create the obsidian:// URL
-        const obsidianUrl = `obsidian://open?vault=${encodeURIComponent(vaultName)}&file=${encodedPath}`;
-
-        // Return as a clickable link (for plain text emails, this will show as a URL)
-        return `${linkText} (${obsidianUrl})`;
-      }
-    );
-
-    return result;
-  }
-
-  createBoardLink(boardName: string, boardPath: string): string {
-    // Get the vault name for the obsidian:// URL
-    const vaultName = this.app.vault.getName();
-
-    // Encode the file path for URL
-    const encodedPath = encodeURIComponent(boardPath);
-
-    // Create the obsidian:// URL
-    const obsidianUrl = `obsidian://open?vault=${encodeURIComponent(vaultName)}&file=${encodedPath}`;
-
-    // Text version for mailto links
-    return `${boardName} (${obsidianUrl})`;
+    const tabsEl = containerEl.createDiv({ cls: 'kanban-plugin__reminder-preview-tabs' });
+    const bodyEl = containerEl.createDiv({ cls: 'kanban-plugin__reminder-preview-body' });
+
+    const showHtml = () => {
+      bodyEl.empty();
+      // Sandboxed so template markup can't run scripts or reach the app
+      const frame = bodyEl.createEl('iframe', {
+        cls: 'kanban-plugin__reminder-preview-frame',
+        attr: { sandbox: '' },
+      });
+      frame.srcdoc = email.html;
+    };
+
+    const showText = () => {
+      bodyEl.empty();
+      bodyEl.createEl('pre', { cls: 'kanban-plugin__reminder-preview-text', text: email.text });
+    };
+
+    tabsEl.createEl('button', { text: 'HTML' }).onClickEvent(showHtml);
+    tabsEl.createEl('button', { text: 'Text' }).onClickEvent(showText);
+
+    showHtml();
   }
 
-  onOpen() {
+  async onOpen() {
     const { contentEl } = this;
     contentEl.empty();
     contentEl.createEl('h2', { text: 'Due Soon Kanban Tasks' });
@@ -97,8 +74,9 @@ export class ReminderModal extends Modal {
       return;
     }
 
-    const timeframeText =
-      this.reminderTimeframeDays === 1 ? 'day' : `${this.reminderTimeframeDays} days`;
+    const timeframeText = getTimeframeText(this.reminderTimeframeDays);
+    const template = await loadReminderTemplate(this.plugin);
+    const canSend = isEmailTransportConfigured(this.plugin.settings);
 
     // Get unique email addresses from both structures
     const allEmails = new Set([
@@ -107,97 +85,21 @@ export class ReminderModal extends Modal {
     ]);
 
     for (const email of allEmails) {
-      let tasks = this.tasksByEmail[email] || [];
+      const tasks = this.tasksByEmail[email] || [];
       const noDueDateTasks = this.tasksWithoutDueDateByEmail[email] || [];
 
       if (tasks.length > 0 || noDueDateTasks.length > 0) {
-        // 1. Sort tasks by due date (sooner first)
-        tasks.sort((a, b) => moment(a.dueDate).diff(moment(b.dueDate)));
-
-        // Reverted to plain text email body
-        let emailBody = '';
-
-        if (tasks.length > 0) {
-          emailBody = `You have the following tasks due in the next ${timeframeText}:\n\n`;
-
-          tasks.forEach((task) => {
-            const dueDateMoment = moment(task.dueDate);
-            const today = moment().startOf('day');
-            const daysUntilDue = dueDateMoment.diff(today, 'days');
-            let dueInText = '';
-            if (daysUntilDue < 0) {
-              dueInText = `overdue by ${Math.abs(daysUntilDue)} day(s)`;
-            } else if (daysUntilDue === 0) {
-              dueInText = 'today';
-            } else if (daysUntilDue === 1) {
-              dueInText = '1 day';
-            } else {
-              dueInText = `${daysUntilDue} days`;
-            }
-
-            let cleanTitle = task.title
-              .replace(/@\{[^}]+\}/g, '') // Remove @{date}
-              .replace(/!\[[^]]+\]/g, '') // Remove ![priority] (if it was part of the title)
-              .replace(/!\w+/g, '') // Remove !high, !medium, !low (if it was part of the title)
-              .replace(/@@\w+/g, '') // Remove @@member
-              .replace(/#[\w-]+(\/[\w-]+)*\s?/g, '') // Remove #tags and #nested/tags
-              .replace(/\s{2,}/g, ' ') // Replace multiple spaces with single
-              .trim();
-
-            // Convert wikilinks to Obsidian URLs
-            cleanTitle = this.convertWikilinksToObsidianUrls(cleanTitle);
-
-            // Create board link
-            const boardLink = this.createBoardLink(task.boardName, task.boardPath);
-
-            // Capitalize priority (first letter only), no color
-            let priorityDisplay = '';
-            if (task.priority) {
-              priorityDisplay = `[${task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}] `;
-            }
-
-            emailBody += `- ${cleanTitle} @ ${boardLink}:${task.laneName} ${priorityDisplay}[${dueInText}]\n\n`; // Added extra newline for separation
-          });
-        }
-
-        // Add tasks without due dates at the bottom
-        if (noDueDateTasks.length > 0) {
-          if (tasks.length > 0) {
-            emailBody += `\n\n--- Tasks Without Due Date (${noDueDateTasks.length}) ---\n\n`;
-          } else {
-            emailBody = `You have the following tasks without due dates:\n\n`;
-          }
-
-          noDueDateTasks.forEach((task) => {
-            let cleanTitle = task.title
-              .replace(/@\{[^}]+\}/g, '') // Remove @{date}
-              .replace(/!\[[^]]+\]/g, '') // Remove ![priority] (if it was part of the title)
-              .replace(/!\w+/g, '') // Remove !high, !medium, !low (if it was part of the title)
-              .replace(/@@\w+/g, '') // Remove @@member
-              .replace(/#[\w-]+(\/[\w-]+)*\s?/g, '') // Remove #tags and #nested/tags
-              .replace(/\s{2,}/g, ' ') // Replace multiple spaces with single
-              .trim();
-
-            // Convert wikilinks to Obsidian URLs
-            cleanTitle = this.convertWikilinksToObsidianUrls(cleanTitle);
-
-            // Create board link
-            const boardLink = this.createBoardLink(task.boardName, task.boardPath);
-
-            // Capitalize priority (first letter only), no color
-            let priorityDisplay = '';
-            if (task.priority) {
-              priorityDisplay = `[${task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}] `;
-            }
-
-            emailBody += `- ${cleanTitle} @ ${boardLink}:${task.laneName} ${priorityDisplay}[No due date]\n\n`; // Added extra newline for separation
-          });
-        }
-
-        emailBody += 'Regards,\nYour Kanban Plugin';
-
-        const encodedSubject = encodeURIComponent('Kanban Task Reminders - Due Soon');
-        const encodedBody = encodeURIComponent(emailBody);
+        const reminderEmail = await buildReminderEmail(
+          this.plugin,
+          email,
+          tasks,
+          noDueDateTasks,
+          this.reminderTimeframeDays,
+          template
+        );
+
+        const encodedSubject = encodeURIComponent(reminderEmail.subject);
+        const encodedBody = encodeURIComponent(reminderEmail.text);
         const mailtoLink = `mailto:${email}?subject=${encodedSubject}&body=${encodedBody}`;
 
         const totalTaskCount = tasks.length + noDueDateTasks.length;
@@ -210,17 +112,56 @@ export class ReminderModal extends Modal {
           settingName += ` without due date)`;
         }
 
-        new Setting(contentEl)
+        const setting = new Setting(contentEl)
           .setName(settingName)
-          .setDesc('Click the button to compose this reminder in your email client.') // Reverted description
-          .addButton((button) => {
-            button
-              .setButtonText('Compose Email')
-              .setCta()
-              .onClick(() => {
-                window.open(mailtoLink, '_blank');
-              });
+          .setDesc(
+            canSend
+              ? 'Preview the reminder, then send it or compose it in your email client.'
+              : 'Preview the reminder, then compose it in your email client.'
+          );
+
+        const previewEl = contentEl.createDiv({ cls: 'kanban-plugin__reminder-preview' });
+        previewEl.hide();
+
+        setting.addButton((button) => {
+          button.setButtonText('Preview').onClick(() => {
+            if (previewEl.isShown()) {
+              previewEl.hide();
+            } else {
+              this.renderPreview(previewEl, reminderEmail);
+              previewEl.show();
+            }
+          });
+        });
+
+        if (canSend) {
+          setting.addButton((button) => {
+            button.setButtonText('Send').onClick(async () => {
+              button.setDisabled(true);
+              try {
+                await createEmailTransport(this.app, this.plugin.settings).send({
+                  from: this.plugin.settings.automaticEmailSenderAddress,
+                  to: email,
+                  ...reminderEmail,
+                });
+                new Notice(`${totalTaskCount} Kanban task reminders sent to ${email}.`);
+              } catch (error) {
+                console.error(`[KanbanPlugin] Error sending email to ${email}:`, error);
+                new Notice(`Error sending reminders to ${email}. Check console for details.`);
+                button.setDisabled(false);
+              }
+            });
           });
+        }
+
+        setting.addButton((button) => {
+          button
+            .setButtonText('Compose Email')
+            .setCta()
+            .onClick(() => {
+              window.open(mailtoLink, '_blank');
+            });
+        });
       }
     }
   }
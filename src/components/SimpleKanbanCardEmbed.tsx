@@ -3,8 +3,10 @@ import { TFile } from 'obsidian';
 import { createElement } from 'preact';
 import { memo, useEffect, useMemo, useState } from 'preact/compat';
 import { hasFrontmatterKey } from 'src/helpers';
+import { SubtaskProgress, getSubtaskProgress } from 'src/helpers/subtasks';
 import KanbanPlugin from 'src/main';
 
+import { ItemSubtaskProgress } from './Item/ItemSubtaskProgress';
 import { c } from './helpers';
 import { getTagColorFn, getTagSymbolFn } from './helpers';
 import { ItemData } from './types';
@@ -69,6 +71,7 @@ interface CardData {
   assignedMembers?: string[];
   priority?: 'high' | 'medium' | 'low';
   date?: string;
+  subtasks?: SubtaskProgress;
 }
 
 export const SimpleKanbanCardEmbed = memo(function SimpleKanbanCardEmbed({
@@ -481,6 +484,7 @@ export const SimpleKanbanCardEmbed = memo(function SimpleKanbanCardEmbed({
       assignedMembers,
       priority: metadata.priority as 'high' | 'medium' | 'low' | undefined,
       date: metadata.date,
+      subtasks: getSubtaskProgress(fullCardText),
     };
   };
 
@@ -619,6 +623,7 @@ export const SimpleKanbanCardEmbed = memo(function SimpleKanbanCardEmbed({
     assignedMembers: cardData.assignedMembers,
     priority: cardData.priority,
     date: cardData.date,
+    subtasks: cardData.subtasks,
   };
 
   return (
@@ -650,6 +655,8 @@ export const SimpleKanbanCardEmbed = memo(function SimpleKanbanCardEmbed({
           {renderMarkdownLists(cleanCardTitle(card.titleRaw || card.title), plugin, sourcePath)}
         </div>
 
+        <ItemSubtaskProgress progress={card.subtasks} style={{ marginTop: '4px' }} />
+
         {card.tags &&
           card.tags.length > 0 &&
           (() => {
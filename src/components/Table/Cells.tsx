@@ -3,7 +3,8 @@ import { Menu } from 'obsidian';
 import { JSX, memo, useCallback, useContext, useState } from 'preact/compat';
 import isEqual from 'react-fast-compare';
 import { ExplicitPathContext } from 'src/dnd/components/context';
-import { moveEntity } from 'src/dnd/util/data';
+import { getEntityFromPath, moveEntity } from 'src/dnd/util/data';
+import { checkLaneWipLimit, checkMemberWipChange, getMemberWipCard } from 'src/helpers/wipLimits';
 
 import { Icon } from '../Icon/Icon';
 import { DateAndTime } from '../Item/DateAndTime';
@@ -98,7 +99,7 @@ export const ItemCell = memo(
               item={item}
               setEditState={setEditState}
               showMetadata={false}
-              searchQuery={search?.query}
+              searchQuery={search?.terms}
               isStatic={false}
             />
           </div>
@@ -116,11 +117,11 @@ export const ItemCell = memo(
 );
 
 export const LaneCell = memo(function LaneCell({ lane, path }: { lane: Lane; path: number[] }) {
-  const { stateManager } = useContext(KanbanContext);
+  const { stateManager, view } = useContext(KanbanContext);
   const search = useContext(SearchContext);
   return (
     <div className={c('cell-flex-wrapper')}>
-      <MarkdownRenderer searchQuery={search?.query} markdownString={lane.data.title} />
+      <MarkdownRenderer searchQuery={search?.terms} markdownString={lane.data.title} />
       <div
         onClick={(e) => {
           const menu = new Menu();
@@ -134,6 +135,19 @@ export const LaneCell = memo(function LaneCell({ lane, path }: { lane: Lane; pat
                 .setTitle(l.data.title)
                 .onClick(() => {
                   if (lane === l) return;
+
+                  const item: Item = getEntityFromPath(stateManager.state, path);
+                  if (
+                    !checkLaneWipLimit(stateManager, l, 1) ||
+                    !checkMemberWipChange(
+                      view.plugin,
+                      getMemberWipCard(item, lane),
+                      getMemberWipCard(item, l)
+                    )
+                  ) {
+                    return;
+                  }
+
                   stateManager.setState((boardData) => {
                     const target = boardData.children[i];
                     return moveEntity(boardData, path, [i, target.children.length]);
@@ -12,6 +12,7 @@ import moment from 'moment';
 import { useCallback, useContext, useMemo, useRef, useState } from 'preact/hooks';
 import { StateManager } from 'src/StateManager';
 import { c } from 'src/components/helpers';
+import { formatTrackedTime, getTrackedTime, hasRunningTimer } from 'src/helpers/timeTracking';
 import { defaultSort } from 'src/helpers/util';
 import { t } from 'src/lang/helpers';
 import { getDataviewPlugin, lableToName, taskFields } from 'src/parsers/helpers/inlineMetadata';
@@ -60,6 +61,7 @@ export function useTableData(board: Board, stateManager: StateManager): TableDat
     const lanes: Lane[] = board?.children || [];
     const metadataKeys = stateManager.getSetting('metadata-keys');
     const moveInlineMetadata = stateManager.getSetting('inline-metadata-position') !== 'body';
+    const timeTracking = stateManager.getSetting('enableTimeTracking');
 
     for (let i = 0, len = lanes.length; i < len; i++) {
       const lane = lanes[i];
@@ -76,6 +78,9 @@ export function useTableData(board: Board, stateManager: StateManager): TableDat
         if (!metadata.has('tags') && itemMetadata.tags?.length) {
           metadata.add('tags');
         }
+        if (!metadata.has('time') && timeTracking && itemMetadata.timeLog?.length) {
+          metadata.add('time');
+        }
 
         for (const key of fileMetaOrder) {
           if (!fileMetadata.has(key) && itemfileMetadata[key]) {
@@ -220,7 +225,8 @@ export function useTableColumns(boardData: Board, stateManager: StateManager) {
                 id: 'card-tags',
                 size: tableSizing['card-tags'],
                 cell: (info) => {
-                  const searchQuery = info.table.getState().globalFilter;
+                  const globalFilter = info.table.getState().globalFilter;
+                  const searchQuery = globalFilter ? [globalFilter] : undefined;
                   const tags = info.getValue();
                   if (!tags?.length) return null;
                   return <Tags tags={tags} searchQuery={searchQuery} />;
@@ -257,6 +263,31 @@ export function useTableColumns(boardData: Board, stateManager: StateManager) {
             );
           }
           break;
+        case 'time':
+          columns.push(
+            columnHelper.accessor((row) => getTrackedTime(row.item.data.metadata?.timeLog), {
+              header: () => t('Time tracked'),
+              id: 'time-tracked',
+              size: tableSizing['time-tracked'],
+              cell: (info) => {
+                const timeLog = info.row.original.item.data.metadata?.timeLog;
+                if (!timeLog?.length) return null;
+                return (
+                  <span
+                    className={classcat([
+                      c('item-time-tracker'),
+                      { 'is-running': hasRunningTimer(timeLog) },
+                    ])}
+                  >
+                    {formatTrackedTime(info.getValue())}
+                  </span>
+                );
+              },
+              sortingFn: (a, b, id) => a.getValue<number>(id) - b.getValue<number>(id),
+              sortDescFirst: true,
+            })
+          );
+          break;
       }
     }
 
@@ -304,7 +335,7 @@ export function useTableColumns(boardData: Board, stateManager: StateManager) {
                   {!isEmojiPriority && (
                     <span className={c('item-task-inline-metadata-item-value')}>
                       <MetadataValue
-                        searchQuery={search?.query}
+                        searchQuery={search?.terms}
                         data={{
                           value: val,
                           label: '',
@@ -361,7 +392,8 @@ export function useTableColumns(boardData: Board, stateManager: StateManager) {
             cell: (info) => {
               const val = info.getValue();
               if (!val) return null;
-              const searchQuery = info.table.getState().globalFilter;
+              const globalFilter = info.table.getState().globalFilter;
+              const searchQuery = globalFilter ? [globalFilter] : undefined;
               if (key === 'tags') {
                 return <Tags searchQuery={searchQuery} tags={val.value as string[]} alwaysShow />;
               }
@@ -4,9 +4,8 @@ import moment from 'moment';
 import {
   App,
   Component,
+  Notice,
   MarkdownRenderer as ObsidianMarkdownRenderer,
-  TFile,
-  TFolder,
   WorkspaceLeaf,
 } from 'obsidian';
 import { Fragment, createElement } from 'preact';
@@ -16,15 +15,12 @@ import { KanbanView, kanbanViewType } from 'src/KanbanView';
 import { DEFAULT_SETTINGS, KanbanSettings } from 'src/Settings';
 import { updateCardDatesInMarkdown } from 'src/markdownUpdater';
 
-import { getHeadingText } from '../../KanbanWorkspaceView';
 import { StateManager } from '../../StateManager';
-import { hasFrontmatterKey } from '../../helpers';
 import { debugLog } from '../../helpers/debugLogger';
+import { CardDependency, getDependencyPath } from '../../helpers/dependencies';
+import { t } from '../../lang/helpers';
 import KanbanPlugin from '../../main';
-// Assuming this path and file are correct
-import { listItemToItemData } from '../../parsers/formats/list';
-// Assuming ItemMetadata will have startDate
-import { parseMarkdown } from '../../parsers/parseMarkdown';
+import { frontmatterKey } from '../../parsers/common';
 import { MarkdownRenderer } from '../MarkdownRenderer/MarkdownRenderer';
 // Import helper functions for tags and members - CORRECTED PATH
 import { getTagColorFn, getTagSymbolFn } from '../helpers';
@@ -114,6 +110,13 @@ export interface TimelineCardData {
   tags?: string[];
   assignedMembers?: string[];
   line?: number;
+  blockedBy?: CardDependency[];
+}
+
+// A "blocked by" link between two cards on the timeline, as indexes into the card list
+interface TimelineDependencyLink {
+  blockerIndex: number;
+  dependentIndex: number;
 }
 
 interface TimelineViewComponentProps {
@@ -296,260 +299,167 @@ export function TimelineViewComponent(props: TimelineViewComponentProps) {
     // Removed the check for props.app.vault.getAbstractFileByPath(props.view.file.path)
     // as props.view.file is not used and not relevant for a global timeline.
 
-    const app = props.plugin.app; // or directly props.app, ensure consistency
     const allFetchedCards: TimelineCardData[] = [];
     let minDate: moment.Moment | null = null;
     let maxDate: moment.Moment | null = null;
 
     try {
-      const targetFolder = app.vault.getRoot();
-      const allMdFiles = await recursivelyGetAllMdFilesInFolder(targetFolder);
-      debugLog(`[TimelineView] Found ${allMdFiles.length} MD files to scan.`);
+      const indexedBoards = await props.plugin.cardIndex.getBoards();
+      debugLog(`[TimelineView] Found ${indexedBoards.length} boards to scan.`);
 
-      for (const mdFile of allMdFiles) {
+      for (const { file: mdFile, board, cards: boardCards } of indexedBoards) {
         try {
-          if (!hasFrontmatterKey(mdFile)) {
+          // Only files set up as boards are shown on the timeline
+          if (board.data.settings?.[frontmatterKey] !== 'board') {
             continue;
           }
-          const fileContent = await props.plugin.app.vault.cachedRead(mdFile);
+
           const tempStateManager = new StateManager(
             props.plugin.app,
             { file: mdFile } as any,
             () => {},
             () => props.plugin.settings
           );
+          // Resolve the board's own settings (e.g. its date format) over the global ones
+          tempStateManager.compileSettings(board.data.settings);
 
-          // Initialize the StateManager's compiled settings before parsing
-          tempStateManager.compileSettings();
-
-          // Capture the full result from parseMarkdown
-          const parsedResult = parseMarkdown(tempStateManager, fileContent) as {
-            ast: any; // Adjust 'any' to a more specific mdast type if available/known
-            settings: any; // Adjust 'any' to KanbanSettings if appropriate
-          };
-          debugLog(
-            `[TimelineView] DEBUG: After parseMarkdown for ${mdFile.path}. parsedResult exists: ${!!parsedResult}, settings exists: ${!!parsedResult?.settings}`
-          );
-
-          // Log the value being checked for board identification
-          const kanbanPluginSetting = parsedResult?.settings?.['kanban-plugin'];
-          debugLog(
-            `[TimelineView] File: ${mdFile.path}, kanban-plugin setting: "${kanbanPluginSetting}" (Type: ${typeof kanbanPluginSetting})`
-          );
+          for (const indexedCard of boardCards) {
+            const itemData: ItemData = indexedCard.data;
+            const currentLaneTitle = indexedCard.laneName;
+            const currentLaneColor = indexedCard.laneColor;
 
-          // Check if the parsed file is a Kanban board based on its settings
-          if (parsedResult && parsedResult.settings && kanbanPluginSetting === 'board') {
-            debugLog(
-              `[TimelineView] File ${mdFile.path} identified as a Kanban board. Processing for timeline cards.`
-            );
-            const ast = parsedResult.ast; // Use the AST from the parsed result
-
-            // Existing logic for processing ast.children (headings, colors, lists) starts here
-            debugLog(
-              `[TimelineView] Processing AST for ${mdFile.path}. Number of root children: ${ast.children.length}`
+            if (itemData.checked) {
+              continue;
+            }
+            let cardStartDate: moment.Moment | null = null;
+            let cardDueDate: moment.Moment | null = null;
+            const globalDateFormat = tempStateManager.getSetting('date-format');
+            const startDateUserFormat =
+              (props.plugin.settings as any)['start-date-format'] || globalDateFormat;
+            const startDateTriggerSetting =
+              (props.plugin.settings as any)['start-date-trigger'] || '@start{';
+            const startDatePrefix = startDateTriggerSetting.substring(
+              0,
+              startDateTriggerSetting.indexOf('{') > -1
+                ? startDateTriggerSetting.indexOf('{')
+                : startDateTriggerSetting.length
             );
-            let currentLaneColor: string | undefined = undefined;
-            let currentLaneTitle: string | undefined = undefined;
-
-            for (const astNode of ast.children) {
-              debugLog(`[TimelineView] AST Node: type=${astNode.type}`);
-              if (astNode.type === 'heading') {
-                currentLaneColor = undefined;
-                currentLaneTitle = getHeadingText(astNode as any);
-                debugLog(
-                  `[TimelineView] Encountered heading: "${currentLaneTitle}". Reset color. Searching for color comment...`
+            const metadata = itemData.metadata;
+            if (metadata?.startDateStr) {
+              const d = moment(metadata.startDateStr, startDateUserFormat);
+              if (d.isValid()) cardStartDate = d;
+            }
+            if (
+              !cardStartDate &&
+              moment.isMoment(metadata?.startDate) &&
+              metadata.startDate.isValid()
+            ) {
+              cardStartDate = metadata.startDate.clone();
+            }
+            if (metadata?.dateStr) {
+              const d = moment(metadata.dateStr, globalDateFormat);
+              if (d.isValid()) cardDueDate = d;
+            }
+            if (!cardDueDate && moment.isMoment(metadata?.date) && metadata.date.isValid()) {
+              if (!itemData.titleRaw.includes(startDatePrefix)) {
+                cardDueDate = metadata.date.clone();
+              }
+            }
+            if (itemData.titleRaw.includes(startDatePrefix)) {
+              let potentialStartDateFromHeuristic: moment.Moment | null = null;
+              let potentialDueDateFromHeuristic: moment.Moment | null = null;
+              if (moment.isMoment(metadata?.date) && metadata.date.isValid()) {
+                potentialStartDateFromHeuristic = metadata.date.clone();
+              }
+              if (metadata?.dateStr) {
+                const d = moment(metadata.dateStr, globalDateFormat);
+                if (d.isValid()) {
+                  potentialDueDateFromHeuristic = d;
+                }
+              }
+              const regexString = escapeRegExp(startDatePrefix) + '\\{' + '([^}]+)' + '\\}';
+              const correctStartDateRegexPattern = new RegExp(regexString);
+              const titleMatch = itemData.titleRaw.match(correctStartDateRegexPattern);
+              if (titleMatch && titleMatch[1]) {
+                const originalStartDateString = titleMatch[1];
+                const reparsedStartDateFromTitle = moment(
+                  originalStartDateString,
+                  startDateUserFormat
                 );
-                const headingIndex = ast.children.indexOf(astNode);
-                for (let i = headingIndex + 1; i < ast.children.length; i++) {
-                  const nextNode = ast.children[i];
-                  debugLog(
-                    `[TimelineView]  Sub-check for color: nextNode type=${nextNode.type}, index=${i}`
-                  );
-                  if (nextNode.type === 'html') {
-                    const htmlContent = nextNode.value as string;
-                    debugLog(`[TimelineView]    HTML node content: "${htmlContent}"`);
-                    const colorCommentRegex =
-                      /<!--\s*kanban-lane-background-color:\s*(#[0-9a-fA-F]{6}|[a-zA-Z]+)\s*-->/i;
-                    const colorMatch = colorCommentRegex.exec(htmlContent);
-                    if (colorMatch && colorMatch[1]) {
-                      currentLaneColor = colorMatch[1].trim();
-                      debugLog(`[TimelineView]    Found and set lane color: ${currentLaneColor}`);
-                      break;
-                    } else {
-                      debugLog(`[TimelineView]    HTML node did not match color regex.`);
-                    }
-                  } else if (nextNode.type === 'list' || nextNode.type === 'heading') {
-                    debugLog(
-                      `[TimelineView]  Stopping color search for current heading; encountered ${nextNode.type}.`
-                    );
-                    break;
+                if (reparsedStartDateFromTitle.isValid()) {
+                  if (
+                    potentialStartDateFromHeuristic &&
+                    potentialStartDateFromHeuristic.date() !== reparsedStartDateFromTitle.date()
+                  ) {
+                    potentialStartDateFromHeuristic = reparsedStartDateFromTitle;
+                  } else if (!potentialStartDateFromHeuristic) {
+                    potentialStartDateFromHeuristic = reparsedStartDateFromTitle;
                   }
                 }
-                if (!currentLaneColor) {
-                  debugLog(`[TimelineView] No color comment found for the preceding heading.`);
-                }
               }
-              if (astNode.type === 'list') {
-                debugLog(
-                  `[TimelineView] Processing list. Active lane color for this list: ${currentLaneColor}`
-                );
-                for (const listItemNode of (astNode as any).children) {
-                  if (listItemNode.type === 'listItem') {
-                    const itemData: ItemData = listItemToItemData(
-                      tempStateManager,
-                      fileContent,
-                      listItemNode as any
-                    );
-                    if (itemData.checked) {
-                      continue;
-                    }
-                    let cardStartDate: moment.Moment | null = null;
-                    let cardDueDate: moment.Moment | null = null;
-                    const globalDateFormat = tempStateManager.getSetting('date-format');
-                    const startDateUserFormat =
-                      (props.plugin.settings as any)['start-date-format'] || globalDateFormat;
-                    const startDateTriggerSetting =
-                      (props.plugin.settings as any)['start-date-trigger'] || '@start{';
-                    const startDatePrefix = startDateTriggerSetting.substring(
-                      0,
-                      startDateTriggerSetting.indexOf('{') > -1
-                        ? startDateTriggerSetting.indexOf('{')
-                        : startDateTriggerSetting.length
-                    );
-                    const metadata = itemData.metadata;
-                    if (metadata?.startDateStr) {
-                      const d = moment(metadata.startDateStr, startDateUserFormat);
-                      if (d.isValid()) cardStartDate = d;
-                    }
-                    if (
-                      !cardStartDate &&
-                      moment.isMoment(metadata?.startDate) &&
-                      metadata.startDate.isValid()
-                    ) {
-                      cardStartDate = metadata.startDate.clone();
-                    }
-                    if (metadata?.dateStr) {
-                      const d = moment(metadata.dateStr, globalDateFormat);
-                      if (d.isValid()) cardDueDate = d;
-                    }
-                    if (
-                      !cardDueDate &&
-                      moment.isMoment(metadata?.date) &&
-                      metadata.date.isValid()
-                    ) {
-                      if (!itemData.titleRaw.includes(startDatePrefix)) {
-                        cardDueDate = metadata.date.clone();
-                      }
-                    }
-                    if (itemData.titleRaw.includes(startDatePrefix)) {
-                      let potentialStartDateFromHeuristic: moment.Moment | null = null;
-                      let potentialDueDateFromHeuristic: moment.Moment | null = null;
-                      if (moment.isMoment(metadata?.date) && metadata.date.isValid()) {
-                        potentialStartDateFromHeuristic = metadata.date.clone();
-                      }
-                      if (metadata?.dateStr) {
-                        const d = moment(metadata.dateStr, globalDateFormat);
-                        if (d.isValid()) {
-                          potentialDueDateFromHeuristic = d;
-                        }
-                      }
-                      const regexString = escapeRegExp(startDatePrefix) + '\\{' + '([^}]+)' + '\\}';
-                      const correctStartDateRegexPattern = new RegExp(regexString);
-                      const titleMatch = itemData.titleRaw.match(correctStartDateRegexPattern);
-                      if (titleMatch && titleMatch[1]) {
-                        const originalStartDateString = titleMatch[1];
-                        const reparsedStartDateFromTitle = moment(
-                          originalStartDateString,
-                          startDateUserFormat
-                        );
-                        if (reparsedStartDateFromTitle.isValid()) {
-                          if (
-                            potentialStartDateFromHeuristic &&
-                            potentialStartDateFromHeuristic.date() !==
-                              reparsedStartDateFromTitle.date()
-                          ) {
-                            potentialStartDateFromHeuristic = reparsedStartDateFromTitle;
-                          } else if (!potentialStartDateFromHeuristic) {
-                            potentialStartDateFromHeuristic = reparsedStartDateFromTitle;
-                          }
-                        }
-                      }
-                      if (potentialStartDateFromHeuristic) {
-                        if (!cardStartDate) {
-                          cardStartDate = potentialStartDateFromHeuristic;
-                          if (potentialDueDateFromHeuristic && !cardDueDate) {
-                            cardDueDate = potentialDueDateFromHeuristic;
-                          }
-                        } else {
-                          // cardStartDate already exists, so we only potentially set cardDueDate
-                          if (potentialDueDateFromHeuristic && !cardDueDate) {
-                            cardDueDate = potentialDueDateFromHeuristic;
-                          }
-                        }
-                      }
-                    }
-                    if (cardDueDate && cardDueDate.isValid()) {
-                      if (!cardStartDate || !cardStartDate.isValid()) {
-                        cardStartDate = cardDueDate.clone().startOf('day');
-                      } else {
-                        // Ensure startDate is not after dueDate if both are valid
-                        if (cardStartDate.isAfter(cardDueDate)) {
-                          cardStartDate = cardDueDate.clone().startOf('day');
-                        }
-                      }
-                    } else {
-                      // If cardDueDate is not valid, this card will be skipped anyway.
-                      // cardStartDate will be whatever it was parsed as (or null).
-                      // No further defaulting of cardStartDate is needed here for skipping purposes.
-                    }
-
-                    if (
-                      cardDueDate &&
-                      cardStartDate &&
-                      cardStartDate.isValid() &&
-                      cardDueDate.isValid()
-                    ) {
-                      const card: TimelineCardData = {
-                        id: `${mdFile.path}-${itemData.title.slice(0, 10).replace(/\s/g, '_')}-${Math.random()}`,
-                        title: itemData.title,
-                        titleRaw: itemData.titleRaw,
-                        sourceBoardName: mdFile.basename.replace('.md', ''),
-                        sourceBoardPath: mdFile.path,
-                        blockId: itemData.blockId,
-                        startDate: cardStartDate ?? undefined,
-                        dueDate: cardDueDate ?? undefined,
-                        checked: itemData.checked,
-                        laneColor: currentLaneColor,
-                        sourceLaneTitle: currentLaneTitle,
-                        tags: itemData.metadata.tags,
-                        assignedMembers: itemData.assignedMembers,
-                        line: itemData.line,
-                      };
-                      debugLog(
-                        `[TimelineView] Adding card: "${card.titleRaw.substring(0, 30)}...", assigned laneColor: ${card.laneColor}, File: ${mdFile.path}`
-                      );
-                      allFetchedCards.push(card);
-
-                      if (!minDate || cardStartDate.isBefore(minDate)) {
-                        minDate = cardStartDate.clone().startOf('day');
-                      }
-                      if (!maxDate || cardDueDate.isAfter(maxDate)) {
-                        maxDate = cardDueDate.clone().endOf('day');
-                      }
-                    } else {
-                      debugLog(
-                        `[TimelineView] Card SKIPPED due to invalid/missing dates: "${itemData.titleRaw.substring(0, 30)}...", File: ${mdFile.path}`
-                      );
-                    }
+              if (potentialStartDateFromHeuristic) {
+                if (!cardStartDate) {
+                  cardStartDate = potentialStartDateFromHeuristic;
+                  if (potentialDueDateFromHeuristic && !cardDueDate) {
+                    cardDueDate = potentialDueDateFromHeuristic;
+                  }
+                } else {
+                  // cardStartDate already exists, so we only potentially set cardDueDate
+                  if (potentialDueDateFromHeuristic && !cardDueDate) {
+                    cardDueDate = potentialDueDateFromHeuristic;
                   }
                 }
               }
             }
-            // End of existing logic for processing ast.children
-          } else {
-            // Optional: Log if a file was parsed but not identified as a Kanban board.
-            // This might be noisy if there are many non-Kanban files.
-            // debugLog(`[TimelineView] File ${mdFile.path} is not a Kanban board or has no 'kanban-plugin: board' setting. Skipping for timeline.`);
+            if (cardDueDate && cardDueDate.isValid()) {
+              if (!cardStartDate || !cardStartDate.isValid()) {
+                cardStartDate = cardDueDate.clone().startOf('day');
+              } else {
+                // Ensure startDate is not after dueDate if both are valid
+                if (cardStartDate.isAfter(cardDueDate)) {
+                  cardStartDate = cardDueDate.clone().startOf('day');
+                }
+              }
+            } else {
+              // If cardDueDate is not valid, this card will be skipped anyway.
+              // cardStartDate will be whatever it was parsed as (or null).
+              // No further defaulting of cardStartDate is needed here for skipping purposes.
+            }
+
+            if (cardDueDate && cardStartDate && cardStartDate.isValid() && cardDueDate.isValid()) {
+              const card: TimelineCardData = {
+                id: `${mdFile.path}-${itemData.title.slice(0, 10).replace(/\s/g, '_')}-${Math.random()}`,
+                title: itemData.title,
+                titleRaw: itemData.titleRaw,
+                sourceBoardName: mdFile.basename.replace('.md', ''),
+                sourceBoardPath: mdFile.path,
+                blockId: itemData.blockId,
+                startDate: cardStartDate ?? undefined,
+                dueDate: cardDueDate ?? undefined,
+                checked: itemData.checked,
+                laneColor: currentLaneColor,
+                sourceLaneTitle: currentLaneTitle,
+                tags: itemData.metadata.tags,
+                assignedMembers: itemData.assignedMembers,
+                line: itemData.line,
+                blockedBy: itemData.metadata.blockedBy,
+              };
+              debugLog(
+                `[TimelineView] Adding card: "${card.titleRaw.substring(0, 30)}...", assigned laneColor: ${card.laneColor}, File: ${mdFile.path}`
+              );
+              allFetchedCards.push(card);
+
+              if (!minDate || cardStartDate.isBefore(minDate)) {
+                minDate = cardStartDate.clone().startOf('day');
+              }
+              if (!maxDate || cardDueDate.isAfter(maxDate)) {
+                maxDate = cardDueDate.clone().endOf('day');
+              }
+            } else {
+              debugLog(
+                `[TimelineView] Card SKIPPED due to invalid/missing dates: "${itemData.titleRaw.substring(0, 30)}...", File: ${mdFile.path}`
+              );
+            }
           }
         } catch (e) {
           console.error(
@@ -706,6 +616,44 @@ export function TimelineViewComponent(props: TimelineViewComponentProps) {
     );
   }, [timelineStartDate, timelineEndDate]);
 
+  const dependencyLinks = useMemo(() => {
+    const links: TimelineDependencyLink[] = [];
+    cards.forEach((card, dependentIndex) => {
+      card.blockedBy?.forEach((dependency) => {
+        const path = getDependencyPath(props.plugin, dependency, card.sourceBoardPath);
+        const blockerIndex = cards.findIndex(
+          (other) => other.sourceBoardPath === path && other.blockId === dependency.blockId
+        );
+        if (blockerIndex !== -1 && blockerIndex !== dependentIndex) {
+          links.push({ blockerIndex, dependentIndex });
+        }
+      });
+    });
+    return links;
+  }, [cards, props.plugin]);
+
+  // Warns about every dependency a drag leaves scheduled to start before its blocker is due
+  const warnAboutDependencyConflicts = (
+    draggedIndex: number,
+    newStartDate: moment.Moment,
+    newDueDate: moment.Moment
+  ) => {
+    for (const { blockerIndex, dependentIndex } of dependencyLinks) {
+      if (blockerIndex !== draggedIndex && dependentIndex !== draggedIndex) continue;
+
+      const blocker = cards[blockerIndex];
+      const dependent = cards[dependentIndex];
+      const blockerDue = blockerIndex === draggedIndex ? newDueDate : blocker.dueDate;
+      const dependentStart = dependentIndex === draggedIndex ? newStartDate : dependent.startDate;
+
+      if (blockerDue && dependentStart?.isBefore(blockerDue, 'day')) {
+        new Notice(
+          `"${dependent.title}" ${t('now starts before its blocker is due')}: "${blocker.title}"`
+        );
+      }
+    }
+  };
+
   // Drag and Drop Handlers
   const draggedItemData = useRef<{
     cardId: string;
@@ -844,6 +792,8 @@ export function TimelineViewComponent(props: TimelineViewComponentProps) {
       // debugLog(`[TimelineView] Moving Card: '${draggedCard.title}' New Start: ${newStartDate.format('YYYY-MM-DD')}, New Due: ${newDueDate.format('YYYY-MM-DD')}`);
     }
 
+    warnAboutDependencyConflicts(cards.indexOf(draggedCard), newStartDate, newDueDate);
+
     // debugLog(`[TimelineView] Card '${draggedCard.title}' (ID: ${draggedCard.id}) dropped. isResizingLeft: ${isResizingLeft}, isResizingRight: ${isResizingRight}. New Start: ${newStartDate.format(props.plugin.settings['date-format'])}, New Due: ${newDueDate.format(props.plugin.settings['date-format'])}`);
 
     try {
@@ -985,6 +935,47 @@ export function TimelineViewComponent(props: TimelineViewComponentProps) {
     );
   };
 
+  // Position of a card's bar in the grid, or null when it falls outside the timeline range
+  const getCardBarGeometry = (card: TimelineCardData, index: number) => {
+    if (!timelineStartDate || !timelineEndDate || !card.startDate || !card.dueDate) {
+      return null;
+    }
+
+    const cardStartDate = moment(card.startDate).startOf('day');
+    const cardDueDate = moment(card.dueDate).endOf('day');
+
+    if (cardDueDate.isBefore(timelineStartDate) || cardStartDate.isAfter(timelineEndDate)) {
+      return null;
+    }
+
+    let startOffsetDays = cardStartDate.diff(timelineStartDate, 'days');
+    let durationDays = cardDueDate.diff(cardStartDate, 'days') + 1;
+
+    if (cardStartDate.isBefore(timelineStartDate)) {
+      durationDays = cardDueDate.diff(timelineStartDate, 'days') + 1;
+      startOffsetDays = 0;
+    }
+    if (cardDueDate.isAfter(timelineEndDate)) {
+      durationDays =
+        timelineEndDate.diff(
+          cardStartDate.isBefore(timelineStartDate) ? timelineStartDate : cardStartDate,
+          'days'
+        ) + 1;
+    }
+    if (durationDays <= 0) durationDays = 1;
+
+    const left = startOffsetDays * DAY_WIDTH_PX;
+    const width = durationDays * DAY_WIDTH_PX - 2;
+    // Use calculated position if available, otherwise fall back to fixed calculation
+    const top =
+      cardPositions[index] !== undefined
+        ? cardPositions[index]
+        : TIMELINE_HEADER_HEIGHT_PX + index * (CARD_HEIGHT_PX + ROW_GAP_PX) + ROW_GAP_PX;
+    const height = Math.max(cardElementRefs.current[index]?.offsetHeight || 0, CARD_HEIGHT_PX);
+
+    return { cardStartDate, cardDueDate, left, width, top, height };
+  };
+
   const renderTimelineCards = () => {
     if (!timelineStartDate || !timelineEndDate || cards.length === 0) {
       // debugLog('[TimelineView] renderTimelineCards: No cards or timeline range to render.');
@@ -993,46 +984,13 @@ export function TimelineViewComponent(props: TimelineViewComponentProps) {
     // debugLog('[TimelineView] renderTimelineCards: Rendering cards. Count:', cards.length);
 
     return cards.map((card, index) => {
-      if (!card.startDate || !card.dueDate) {
-        // debugLog(`[TimelineView] Card ${card.id} skipped (missing start/due date in render):`, card);
-        return null;
-      }
-
-      const cardStartDate = moment(card.startDate).startOf('day');
-      const cardDueDate = moment(card.dueDate).endOf('day');
-
-      // debugLog(`[TimelineView] Rendering card ${card.id}: ${card.title}, Start: ${cardStartDate.format('YYYY-MM-DD')}, Due: ${cardDueDate.format('YYYY-MM-DD')}`);
-
-      if (cardDueDate.isBefore(timelineStartDate) || cardStartDate.isAfter(timelineEndDate)) {
-        // debugLog(`[TimelineView] Card ${card.id} is outside current timeline range. Start: ${timelineStartDate.format('YYYY-MM-DD')}, End: ${timelineEndDate.format('YYYY-MM-DD')}`);
+      const geometry = getCardBarGeometry(card, index);
+      if (!geometry) {
+        // debugLog(`[TimelineView] Card ${card.id} skipped (missing dates or outside the timeline range):`, card);
         return null;
       }
 
-      let startOffsetDays = cardStartDate.diff(timelineStartDate, 'days');
-      let durationDays = cardDueDate.diff(cardStartDate, 'days') + 1;
-
-      if (cardStartDate.isBefore(timelineStartDate)) {
-        durationDays = cardDueDate.diff(timelineStartDate, 'days') + 1;
-        startOffsetDays = 0;
-      }
-      if (cardDueDate.isAfter(timelineEndDate)) {
-        durationDays =
-          timelineEndDate.diff(
-            cardStartDate.isBefore(timelineStartDate) ? timelineStartDate : cardStartDate,
-            'days'
-          ) + 1;
-      }
-      if (durationDays <= 0) durationDays = 1;
-
-      const left = startOffsetDays * DAY_WIDTH_PX;
-      const width = durationDays * DAY_WIDTH_PX - 2;
-      // Use calculated position if available, otherwise fall back to fixed calculation
-      const top =
-        cardPositions[index] !== undefined
-          ? cardPositions[index]
-          : TIMELINE_HEADER_HEIGHT_PX + index * (CARD_HEIGHT_PX + ROW_GAP_PX) + ROW_GAP_PX;
-
-      // Card positioned using dynamic or fallback calculation
+      const { cardStartDate, cardDueDate, left, width, top } = geometry;
 
       return (
         <div
@@ -1249,6 +1207,63 @@ export function TimelineViewComponent(props: TimelineViewComponentProps) {
     });
   };
 
+  // Draws an arrow from the end of each blocker's bar to the start of the card it blocks.
+  // Arrows turn red when the blocked card is scheduled to start before its blocker is due.
+  const renderDependencyArrows = () => {
+    if (!dependencyLinks.length) return null;
+
+    const arrows = dependencyLinks.map(({ blockerIndex, dependentIndex }) => {
+      const blocker = cards[blockerIndex];
+      const dependent = cards[dependentIndex];
+      const from = getCardBarGeometry(blocker, blockerIndex);
+      const to = getCardBarGeometry(dependent, dependentIndex);
+      if (!from || !to) return null;
+
+      const x1 = from.left + from.width;
+      const y1 = from.top + from.height / 2;
+      const x2 = to.left;
+      const y2 = to.top + to.height / 2;
+      const curve = Math.max(20, Math.abs(x2 - x1) / 2);
+      const isConflict = dependent.startDate.isBefore(blocker.dueDate, 'day');
+
+      return (
+        <path
+          key={`${blocker.id}-${dependent.id}`}
+          d={`M ${x1} ${y1} C ${x1 + curve} ${y1}, ${x2 - curve} ${y2}, ${x2} ${y2}`}
+          className={isConflict ? 'is-conflict' : undefined}
+          // eslint-disable-next-line react/no-unknown-property
+          marker-end={`url(#kanban-timeline-arrow${isConflict ? '-conflict' : ''})`}
+        />
+      );
+    });
+
+    return (
+      <svg
+        className="kanban-plugin__timeline-dependencies"
+        width={totalTimelineWidth}
+        height={actualTotalTimelineHeight}
+      >
+        <defs>
+          {['', '-conflict'].map((suffix) => (
+            <marker
+              key={suffix}
+              id={`kanban-timeline-arrow${suffix}`}
+              viewBox="0 0 10 10"
+              refX="9"
+              refY="5"
+              markerWidth="6"
+              markerHeight="6"
+              orient="auto-start-reverse"
+            >
+              <path d="M 0 0 L 10 5 L 0 10 z" />
+            </marker>
+          ))}
+        </defs>
+        {arrows}
+      </svg>
+    );
+  };
+
   // NEW function to render vertical day divider lines
   const renderDayBackgroundLines = () => {
     if (!timelineStartDate || !timelineEndDate || !timelineGridRef.current) return null;
@@ -1320,6 +1335,7 @@ export function TimelineViewComponent(props: TimelineViewComponentProps) {
               {renderDateHeaders()}
               {renderDayBackgroundLines()}
               {renderTimelineCards()}
+              {renderDependencyArrows()}
             </div>
           </div>
         )}
@@ -1336,16 +1352,3 @@ export function TimelineViewComponent(props: TimelineViewComponentProps) {
     );
   }
 }
-
-// Placeholder for recursivelyGetAllMdFilesInFolder if not moved to a shared location
-async function recursivelyGetAllMdFilesInFolder(folder: TFolder): Promise<TFile[]> {
-  const mdFiles: TFile[] = [];
-  for (const child of folder.children) {
-    if (child instanceof TFile && child.extension === 'md') {
-      mdFiles.push(child);
-    } else if (child instanceof TFolder) {
-      mdFiles.push(...(await recursivelyGetAllMdFilesInFolder(child)));
-    }
-  }
-  return mdFiles;
-}
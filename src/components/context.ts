@@ -18,6 +18,10 @@ export const KanbanContext = createContext<KanbanContextProps>(null);
 
 export interface SearchContextProps {
   query: string;
+  // Words and phrases to highlight in matching cards, see parseBoardSearch
+  terms: string[];
+  // Set when the query can't be parsed, in which case it is searched as plain text
+  error: string | null;
   items: Set<Item>;
   lanes: Set<Lane>;
   search: (query: string, immediate?: boolean) => void;
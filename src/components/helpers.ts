@@ -1,4 +1,3 @@
-import { debugLog } from '../helpers/debugLogger';
 import update from 'immutability-helper';
 import { App, MarkdownView, TFile, moment } from 'obsidian';
 import Preact, { Dispatch, RefObject, useEffect } from 'preact/compat';
@@ -13,6 +12,9 @@ import {
   toggleTask,
 } from 'src/parsers/helpers/inlineMetadata';
 
+import { matchesBoardSearch, parseBoardSearch } from '../helpers/boardSearch';
+import { debugLog } from '../helpers/debugLogger';
+import { isDoneLane } from '../helpers/doneLanes';
 import { SearchContextProps } from './context';
 import {
   Board,
@@ -400,24 +402,40 @@ export function useOnMount(refs: RefObject<HTMLElement>[], cb: () => void, onUnm
   }, []);
 }
 
+// Whether the text contains one of the board search's highlight terms
+export function isSearchMatch(text: string, terms?: string[]) {
+  if (!terms?.length) return false;
+  const lower = text.toLocaleLowerCase();
+  return terms.some((term) => lower.contains(term));
+}
+
 export function useSearchValue(
   board: Board,
   query: string,
+  doneLanes: string[],
   setSearchQuery: Dispatch<StateUpdater<string>>,
   setDebouncedSearchQuery: Dispatch<StateUpdater<string>>,
   setIsSearching: Dispatch<StateUpdater<boolean>>
 ) {
   return useMemo<SearchContextProps>(() => {
-    query = query.trim().toLocaleLowerCase();
+    const rawQuery = query.trim();
+    query = rawQuery.toLocaleLowerCase();
 
     const lanes = new Set<Lane>();
     const items = new Set<Item>();
+    const parsed = parseBoardSearch(rawQuery);
+    // Malformed queries fall back to a plain text search while the error hint is shown
+    const terms = parsed.error ? [query] : parsed.terms;
 
     if (query) {
       board.children.forEach((lane) => {
+        const inDoneLane = isDoneLane(lane, doneLanes);
         let laneMatched = false;
         lane.children.forEach((item) => {
-          if (item.data.titleSearch.includes(query)) {
+          const isMatch = parsed.error
+            ? item.data.titleSearch.includes(query)
+            : matchesBoardSearch(parsed, { item, lane, inDoneLane });
+          if (isMatch) {
             laneMatched = true;
             items.add(item);
           }
@@ -430,6 +448,8 @@ export function useSearchValue(
       lanes,
       items,
       query,
+      terms: query ? terms : [],
+      error: query ? parsed.error : null,
       search: (query, immediate) => {
         debugLog(
           '[useSearchValue] search function called with query:',
@@ -451,7 +471,7 @@ export function useSearchValue(
         }
       },
     };
-  }, [board, query, setSearchQuery, setDebouncedSearchQuery]);
+  }, [board, query, doneLanes, setSearchQuery, setDebouncedSearchQuery]);
 }
 
 export function resolveMentions(app: App, text: string) {
@@ -1,6 +1,10 @@
 import { TFile } from 'obsidian';
 import { KanbanSettings } from 'src/Settings';
 import { Nestable } from 'src/dnd/types';
+import { ActivityEntry } from 'src/helpers/activityLog';
+import { CardDependency } from 'src/helpers/dependencies';
+import { SubtaskProgress } from 'src/helpers/subtasks';
+import { TimeLogEntry } from 'src/helpers/timeTracking';
 import { InlineField } from 'src/parsers/helpers/inlineMetadata';
 import { FileAccessor } from 'src/parsers/helpers/parser';
 
@@ -15,6 +19,8 @@ export enum LaneSort {
 
 export interface LaneData {
   shouldMarkItemsComplete?: boolean;
+  // Completes a card once every subtask in it is checked
+  shouldCompleteOnSubtasks?: boolean;
   title: string;
   maxItems?: number;
   dom?: HTMLDivElement;
@@ -101,6 +107,10 @@ export interface ItemMetadata {
   inlineMetadata?: InlineField[];
   startDate?: moment.Moment;
   startDateStr?: string;
+  timeLog?: TimeLogEntry[];
+  activity?: ActivityEntry[];
+  subtasks?: SubtaskProgress;
+  blockedBy?: CardDependency[];
 }
 
 export interface ItemData {
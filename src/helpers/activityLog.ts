@@ -0,0 +1,220 @@
+import update from 'immutability-helper';
+import { moment } from 'obsidian';
+
+import { KanbanSettings } from '../Settings';
+import { StateManager } from '../StateManager';
+import { Board, Item } from '../components/types';
+
+export type ActivityType =
+  'created' | 'moved' | 'assigned' | 'unassigned' | 'completed' | 'reopened';
+
+export interface ActivityEvent {
+  type: ActivityType;
+  // The list a card was created in or moved to, or the member it was (un)assigned
+  detail?: string;
+}
+
+export interface ActivityEntry extends ActivityEvent {
+  timestamp: moment.Moment;
+}
+
+export const ACTIVITY_FIELD = 'activity';
+const ACTIVITY_FORMAT = 'YYYY-MM-DDTHH:mm';
+const activityTypes: ActivityType[] = [
+  'created',
+  'moved',
+  'assigned',
+  'unassigned',
+  'completed',
+  'reopened',
+];
+
+// The whole history lives in one inline field so it stays on the card's first line, e.g.
+// [activity:: 2024-05-01T09:00 created Todo; 2024-05-02T10:30 moved Doing; 2024-05-03T16:00 completed]
+const activityRegex = new RegExp(`\\s*\\[${ACTIVITY_FIELD}::\\s*([^\\]]*?)\\s*\\]`, 'g');
+const entryRegex = /^(\S+)\s+([a-z]+)(?:\s+(.*))?$/;
+
+function sanitizeDetail(detail: string) {
+  return detail
+    .replace(/[[\];]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function formatEvents(events: ActivityEvent[], now: moment.Moment) {
+  return events
+    .map((event) => {
+      const detail = event.detail ? sanitizeDetail(event.detail) : '';
+      return `${now.format(ACTIVITY_FORMAT)} ${event.type}${detail ? ` ${detail}` : ''}`;
+    })
+    .join('; ');
+}
+
+function getActivityMatches(titleRaw: string) {
+  const matches: RegExpExecArray[] = [];
+  if (!titleRaw) return matches;
+
+  activityRegex.lastIndex = 0;
+  let match;
+  while ((match = activityRegex.exec(titleRaw)) !== null) {
+    matches.push(match);
+  }
+
+  return matches;
+}
+
+export function getActivityLogRanges(titleRaw: string) {
+  return getActivityMatches(titleRaw).map((match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+export function parseActivityLog(titleRaw: string): ActivityEntry[] {
+  const entries: ActivityEntry[] = [];
+
+  for (const match of getActivityMatches(titleRaw)) {
+    for (const part of match[1].split(';')) {
+      const entry = part.trim().match(entryRegex);
+      if (!entry) continue;
+
+      const timestamp = moment(entry[1], ACTIVITY_FORMAT, true);
+      const type = entry[2] as ActivityType;
+      if (!timestamp.isValid() || !activityTypes.includes(type)) continue;
+
+      entries.push({ timestamp, type, detail: entry[3]?.trim() || undefined });
+    }
+  }
+
+  return entries;
+}
+
+export function stripActivityLog(text: string) {
+  return text ? text.replace(activityRegex, '') : text;
+}
+
+// Appends events to the card's activity field, creating it at the end of the first line if needed
+export function addActivity(
+  titleRaw: string,
+  events: ActivityEvent[],
+  now: moment.Moment = moment()
+) {
+  if (!events.length) return titleRaw;
+
+  const formatted = formatEvents(events, now);
+  const matches = getActivityMatches(titleRaw);
+
+  if (matches.length) {
+    const last = matches[matches.length - 1];
+    const closing = last.index + last[0].lastIndexOf(']');
+    const separator = last[1] ? '; ' : '';
+    return titleRaw.slice(0, closing) + separator + formatted + titleRaw.slice(closing);
+  }
+
+  const field = `[${ACTIVITY_FIELD}:: ${formatted}]`;
+  if (!titleRaw) return field;
+
+  const lineEnd = titleRaw.indexOf('\n');
+  const firstLine = lineEnd === -1 ? titleRaw : titleRaw.slice(0, lineEnd);
+  const rest = lineEnd === -1 ? '' : titleRaw.slice(lineEnd);
+  return `${firstLine.replace(/\s+$/, '')} ${field}${rest}`;
+}
+
+// For views that edit the markdown directly: adds events to a `- [ ] card ^blockid` line,
+// keeping the block ID at the end
+export function addActivityToLine(
+  line: string,
+  events: ActivityEvent[],
+  now: moment.Moment = moment()
+) {
+  if (!events.length) return line;
+
+  const blockIdMatch = line.match(/\s+\^[a-zA-Z0-9-]+\s*$/);
+  const body = blockIdMatch ? line.slice(0, blockIdMatch.index) : line;
+  const blockId = blockIdMatch ? blockIdMatch[0] : '';
+  return addActivity(body, events, now) + blockId;
+}
+
+// Status and assignment changes between two versions of the same card
+export function getItemChangeEvents(before: Item, after: Item): ActivityEvent[] {
+  const events: ActivityEvent[] = [];
+
+  if (!before.data.checked && after.data.checked) events.push({ type: 'completed' });
+  if (before.data.checked && !after.data.checked) events.push({ type: 'reopened' });
+
+  const beforeMembers = before.data.assignedMembers || [];
+  const afterMembers = after.data.assignedMembers || [];
+  afterMembers
+    .filter((member) => !beforeMembers.includes(member))
+    .forEach((member) => events.push({ type: 'assigned', detail: member }));
+  beforeMembers
+    .filter((member) => !afterMembers.includes(member))
+    .forEach((member) => events.push({ type: 'unassigned', detail: member }));
+
+  return events;
+}
+
+// For boards edited outside of an open view, where the board's own settings have to be merged
+// with the global ones by hand
+export function isActivityLogEnabled(board: Board | undefined, globalSettings: KanbanSettings) {
+  return !!(board?.data?.settings?.['activity-log'] ?? globalSettings['activity-log']);
+}
+
+// Records events on a single card if the board has the activity log turned on
+export function recordItemActivity(
+  stateManager: StateManager,
+  item: Item,
+  events: ActivityEvent[]
+) {
+  if (!stateManager.getSetting('activity-log') || !events.length) return item;
+  return stateManager.updateItemContent(item, addActivity(item.data.titleRaw, events));
+}
+
+// Compares two versions of a board and stamps every card that was created, moved, completed,
+// reopened or (un)assigned in between
+export function recordBoardActivity(
+  stateManager: StateManager,
+  previous: Board,
+  next: Board
+): Board {
+  const previousLaneIds = new Set<string>();
+  const previousItems = new Map<string, { item: Item; laneId: string }>();
+  previous.children.forEach((lane) => {
+    previousLaneIds.add(lane.id);
+    lane.children.forEach((item) => previousItems.set(item.id, { item, laneId: lane.id }));
+  });
+
+  let board = next;
+  next.children.forEach((lane, laneIndex) => {
+    // Lanes that just appeared were moved here from another board, not created with their cards
+    if (!previousLaneIds.has(lane.id)) return;
+
+    lane.children.forEach((item, itemIndex) => {
+      const before = previousItems.get(item.id);
+      if (before?.item === item) return;
+
+      // Blank cards that open straight in the editor are stamped once their first edit is saved
+      if (item.data.forceEditMode) return;
+
+      let events: ActivityEvent[] = [];
+      if (!before || before.item.data.forceEditMode) {
+        // Cards moved in from another board were already stamped by the drop
+        if (!parseActivityLog(item.data.titleRaw).length) {
+          events = [{ type: 'created', detail: lane.data.title }];
+        }
+      } else {
+        if (before.laneId !== lane.id) events.push({ type: 'moved', detail: lane.data.title });
+        events = events.concat(getItemChangeEvents(before.item, item));
+      }
+
+      if (!events.length) return;
+
+      const stamped = stateManager.updateItemContent(item, addActivity(item.data.titleRaw, events));
+      board = update(board, {
+        children: { [laneIndex]: { children: { [itemIndex]: { $set: stamped } } } },
+      });
+    });
+  });
+
+  return board;
+}
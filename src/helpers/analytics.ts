@@ -0,0 +1,253 @@
+import { moment } from 'obsidian';
+
+import { IndexedBoard, IndexedCard } from '../CardIndex';
+import { KanbanSettings } from '../Settings';
+import { ActivityEntry } from './activityLog';
+import { getBoardDoneLanes, isDoneLaneTitle } from './doneLanes';
+
+export interface LaneTransition {
+  lane: string;
+  at: moment.Moment;
+}
+
+// A card's path across the board, derived from its activity log
+export interface CardFlow {
+  card: IndexedCard;
+  transitions: LaneTransition[];
+  createdAt?: moment.Moment;
+  // When the card first left the list it was created in
+  startedAt?: moment.Moment;
+  completedAt?: moment.Moment;
+}
+
+export interface FlowSeries {
+  lane: string;
+  color?: string;
+  // One count per day of the range
+  values: number[];
+}
+
+export interface ChartDatum {
+  label: string;
+  value: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Upper bounds, in days, of the lead and cycle time buckets. The last bucket is open-ended.
+const durationBuckets = [1, 2, 4, 8, 16, 32];
+
+// Cross-board moves are recorded as "Board › List"
+function getLaneFromDetail(detail?: string) {
+  if (!detail) return null;
+  const parts = detail.split(' › ');
+  return parts[parts.length - 1].trim() || null;
+}
+
+function toMoment(value: unknown) {
+  return moment.isMoment(value) && value.isValid() ? value : undefined;
+}
+
+export function getCardFlow(card: IndexedCard, doneLanes: string[]): CardFlow {
+  const activity: ActivityEntry[] = card.data.metadata?.activity || [];
+  const transitions: LaneTransition[] = [];
+  let createdAt: moment.Moment | undefined;
+  let completedAt: moment.Moment | undefined;
+
+  activity.forEach((entry) => {
+    if (entry.type === 'created' && !createdAt) createdAt = entry.timestamp;
+
+    if (entry.type === 'created' || entry.type === 'moved') {
+      const lane = getLaneFromDetail(entry.detail);
+      if (!lane) return;
+
+      const wasDone = transitions.length
+        ? isDoneLaneTitle(transitions[transitions.length - 1].lane, doneLanes)
+        : false;
+      const isDone = isDoneLaneTitle(lane, doneLanes);
+      transitions.push({ lane, at: entry.timestamp });
+
+      if (isDone && !completedAt) completedAt = entry.timestamp;
+      if (wasDone && !isDone) completedAt = undefined;
+    } else if (entry.type === 'completed') {
+      if (!completedAt) completedAt = entry.timestamp;
+    } else if (entry.type === 'reopened') {
+      completedAt = undefined;
+    }
+  });
+
+  const isDone = card.data.checked || card.inDoneLane || card.archived;
+  if (!isDone) completedAt = undefined;
+
+  // Cards from before the activity log was turned on can still have Tasks-style dates
+  createdAt = createdAt || toMoment(card.data.metadata?.created);
+  if (isDone && !completedAt) completedAt = toMoment(card.data.metadata?.completed);
+
+  const first = transitions[0];
+  const started = first && transitions.find((transition) => transition.lane !== first.lane);
+
+  return { card, transitions, createdAt, startedAt: started?.at, completedAt };
+}
+
+export function getBoardFlows(board: IndexedBoard, globalSettings: KanbanSettings) {
+  const doneLanes = getBoardDoneLanes(board.board, globalSettings);
+  return board.cards.concat(board.archive).map((card) => getCardFlow(card, doneLanes));
+}
+
+// Lane titles in board order. Boards that share a title share a lane in the charts.
+export function getFlowLanes(boards: IndexedBoard[]) {
+  const lanes: { lane: string; color?: string }[] = [];
+  boards.forEach(({ board }) => {
+    board.children.forEach((lane) => {
+      if (!lanes.some((existing) => existing.lane === lane.data.title)) {
+        lanes.push({ lane: lane.data.title, color: lane.data.backgroundColor });
+      }
+    });
+  });
+  return lanes;
+}
+
+export function getRangeDays(start: moment.Moment, end: moment.Moment) {
+  const days: moment.Moment[] = [];
+  const day = start.clone().startOf('day');
+  while (day.isSameOrBefore(end, 'day')) {
+    days.push(day.clone());
+    day.add(1, 'day');
+  }
+  return days;
+}
+
+function getLaneAt(flow: CardFlow, at: moment.Moment) {
+  let lane: string | null = null;
+  for (const transition of flow.transitions) {
+    if (transition.at.isAfter(at)) break;
+    lane = transition.lane;
+  }
+  return lane;
+}
+
+// How many cards sat in each lane at the end of every day
+export function getCumulativeFlow(
+  flows: CardFlow[],
+  lanes: { lane: string; color?: string }[],
+  days: moment.Moment[]
+): FlowSeries[] {
+  const series = lanes.map(({ lane, color }) => ({
+    lane,
+    color,
+    values: days.map(() => 0),
+  }));
+
+  days.forEach((day, dayIndex) => {
+    const endOfDay = day.clone().endOf('day');
+    flows.forEach((flow) => {
+      const lane = getLaneAt(flow, endOfDay);
+      const laneSeries = lane && series.find((s) => s.lane === lane);
+      if (laneSeries) laneSeries.values[dayIndex]++;
+    });
+  });
+
+  return series;
+}
+
+function isInRange(date: moment.Moment | undefined, start: moment.Moment, end: moment.Moment) {
+  return !!date && date.isBetween(start, end, 'day', '[]');
+}
+
+export function getLeadTimes(flows: CardFlow[], start: moment.Moment, end: moment.Moment) {
+  return flows
+    .filter((flow) => flow.createdAt && isInRange(flow.completedAt, start, end))
+    .map((flow) => Math.max(0, flow.completedAt.diff(flow.createdAt) / DAY_MS));
+}
+
+export function getCycleTimes(flows: CardFlow[], start: moment.Moment, end: moment.Moment) {
+  return flows
+    .filter(
+      (flow) =>
+        flow.startedAt &&
+        isInRange(flow.completedAt, start, end) &&
+        !flow.completedAt.isBefore(flow.startedAt)
+    )
+    .map((flow) => flow.completedAt.diff(flow.startedAt) / DAY_MS);
+}
+
+export function getDurationDistribution(durations: number[]): ChartDatum[] {
+  const data = durationBuckets.map((max, i) => ({
+    label: `${i === 0 ? 0 : durationBuckets[i - 1]}–${max}d`,
+    value: 0,
+  }));
+  data.push({ label: `${durationBuckets[durationBuckets.length - 1]}d+`, value: 0 });
+
+  durations.forEach((days) => {
+    const index = durationBuckets.findIndex((max) => days < max);
+    data[index === -1 ? data.length - 1 : index].value++;
+  });
+
+  return data;
+}
+
+export function getWeeklyThroughput(
+  flows: CardFlow[],
+  start: moment.Moment,
+  end: moment.Moment
+): ChartDatum[] {
+  const data: ChartDatum[] = [];
+  const week = start.clone().startOf('isoWeek');
+  while (week.isSameOrBefore(end, 'day')) {
+    const weekEnd = week.clone().endOf('isoWeek');
+    data.push({
+      label: week.format('GGGG-[W]WW'),
+      value: flows.filter(
+        (flow) =>
+          isInRange(flow.completedAt, start, end) &&
+          flow.completedAt.isBetween(week, weekEnd, undefined, '[]')
+      ).length,
+    });
+    week.add(1, 'week');
+  }
+  return data;
+}
+
+export function getMemberCompletions(
+  flows: CardFlow[],
+  start: moment.Moment,
+  end: moment.Moment,
+  unassignedLabel: string
+): ChartDatum[] {
+  const counts = new Map<string, number>();
+  flows
+    .filter((flow) => isInRange(flow.completedAt, start, end))
+    .forEach((flow) => {
+      const members = flow.card.assignedMembers?.length
+        ? flow.card.assignedMembers
+        : [unassignedLabel];
+      members.forEach((member) => counts.set(member, (counts.get(member) || 0) + 1));
+    });
+
+  return Array.from(counts.entries())
+    .map(([label, value]) => ({ label, value }))
+    .sort((a, b) => b.value - a.value || a.label.localeCompare(b.label));
+}
+
+export function getAverage(values: number[]) {
+  return values.length ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+}
+
+export function getPercentile(values: number[], percentile: number) {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.ceil((percentile / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+function escapeTableCell(value: string | number) {
+  return String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+export function toMarkdownTable(headers: string[], rows: Array<Array<string | number>>) {
+  const lines = [
+    `| ${headers.map(escapeTableCell).join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(escapeTableCell).join(' | ')} |`),
+  ];
+  return lines.join('\n');
+}
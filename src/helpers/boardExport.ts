@@ -0,0 +1,244 @@
+import { Notice, TFile, moment, normalizePath } from 'obsidian';
+
+import { StateManager } from '../StateManager';
+import { getTagColorFn } from '../components/helpers';
+import { Board, Item, TagColor } from '../components/types';
+import { t } from '../lang/helpers';
+import { debugLog } from './debugLogger';
+
+export type BoardExportFormat = 'csv' | 'json' | 'html';
+
+export const boardExportFormats: Array<[BoardExportFormat, () => string]> = [
+  ['csv', () => t('Export as CSV')],
+  ['json', () => t('Export as JSON')],
+  ['html', () => t('Export as HTML')],
+];
+
+export interface CardExportRow {
+  title: string;
+  lane: string;
+  tags: string[];
+  members: string[];
+  priority: string;
+  startDate: string;
+  dueDate: string;
+  time: string;
+  done: boolean;
+  archived: boolean;
+  blockId: string;
+}
+
+const csvHeaders = [
+  'Title',
+  'Lane',
+  'Tags',
+  'Members',
+  'Priority',
+  'Start date',
+  'Due date',
+  'Time',
+  'Done',
+  'Archived',
+  'Block ID',
+];
+
+function toExportRow(
+  stateManager: StateManager,
+  item: Item,
+  lane: string,
+  archived: boolean
+): CardExportRow {
+  const { metadata } = item.data;
+  const dateFormat = stateManager.getSetting('date-format');
+
+  // Dates are written as ISO dates so spreadsheets can read them regardless of the board format
+  const toIsoDate = (dateStr?: string, date?: moment.Moment) => {
+    const parsed = dateStr ? moment(dateStr, dateFormat) : date;
+    return parsed?.isValid() ? parsed.format('YYYY-MM-DD') : '';
+  };
+
+  return {
+    title: item.data.title.trim(),
+    lane,
+    tags: (metadata?.tags || []).map((tag) => tag.replace(/^#/, '')),
+    members: item.data.assignedMembers || [],
+    priority: metadata?.priority || '',
+    startDate: toIsoDate(metadata?.startDateStr, metadata?.startDate),
+    dueDate: toIsoDate(metadata?.dateStr, metadata?.date),
+    time: metadata?.timeStr || '',
+    done: item.data.checked,
+    archived,
+    blockId: item.data.blockId || '',
+  };
+}
+
+export function getCardExportRows(stateManager: StateManager, board: Board): CardExportRow[] {
+  const rows: CardExportRow[] = [];
+  board.children.forEach((lane) => {
+    lane.children.forEach((item) =>
+      rows.push(toExportRow(stateManager, item, lane.data.title, false))
+    );
+  });
+  board.data.archive.forEach((item) =>
+    rows.push(toExportRow(stateManager, item, t('Archive'), true))
+  );
+  return rows;
+}
+
+function escapeCsvValue(value: string) {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function boardToCsv(stateManager: StateManager, board: Board) {
+  const lines = getCardExportRows(stateManager, board).map((row) =>
+    [
+      row.title,
+      row.lane,
+      row.tags.join(' '),
+      row.members.join(' '),
+      row.priority,
+      row.startDate,
+      row.dueDate,
+      row.time,
+      row.done ? 'true' : 'false',
+      row.archived ? 'true' : 'false',
+      row.blockId,
+    ]
+      .map(escapeCsvValue)
+      .join(',')
+  );
+
+  return [csvHeaders.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+// The parsed board model, minus the references to the vault and the DOM it holds while open
+export function boardToJson(board: Board) {
+  return JSON.stringify(
+    board,
+    (key, value) => {
+      if (value instanceof TFile) return value.path;
+      if (key === 'dom' || value instanceof HTMLElement) return undefined;
+      return value;
+    },
+    2
+  );
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const htmlStyles = `
+body { margin: 0; padding: 24px; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; background: #f5f5f7; color: #222; }
+h1 { margin: 0 0 4px; font-size: 22px; }
+.exported { margin: 0 0 20px; color: #777; font-size: 12px; }
+.board { display: flex; align-items: flex-start; gap: 12px; overflow-x: auto; }
+.lane { flex: 0 0 272px; background: #e9e9ee; border-radius: 8px; padding: 8px; }
+.lane h2 { margin: 4px 4px 8px; font-size: 14px; display: flex; justify-content: space-between; }
+.lane h2 span { color: #777; font-weight: normal; }
+.card { background: #fff; border-radius: 6px; padding: 8px 10px; margin-bottom: 8px; box-shadow: 0 1px 2px rgba(0, 0, 0, 0.12); font-size: 13px; }
+.card.done .title { text-decoration: line-through; color: #888; }
+.title { white-space: pre-wrap; word-break: break-word; }
+.meta { display: flex; flex-wrap: wrap; gap: 4px; margin-top: 6px; font-size: 11px; color: #666; }
+.tag, .member, .priority, .date { border-radius: 4px; padding: 1px 6px; background: #eee; }
+.priority-high { background: #ffd6d6; }
+.priority-medium { background: #fff0c2; }
+.priority-low { background: #dff3df; }
+`;
+
+// A self-contained page that looks like the board, for people without Obsidian
+export function boardToHtml(stateManager: StateManager, board: Board, title: string) {
+  const getTagColor = getTagColorFn(stateManager.getSetting('tag-colors') as TagColor[]);
+  const rows = getCardExportRows(stateManager, board).filter((row) => !row.archived);
+
+  const renderTag = (tag: string) => {
+    const color = getTagColor(`#${tag}`) || getTagColor(tag);
+    const style = color
+      ? ` style="color: ${escapeHtml(color.color)}; background: ${escapeHtml(color.backgroundColor)}"`
+      : '';
+    return `<span class="tag"${style}>#${escapeHtml(tag)}</span>`;
+  };
+
+  const renderCard = (row: CardExportRow) => {
+    const meta = [
+      ...row.tags.map(renderTag),
+      ...row.members.map((member) => `<span class="member">@${escapeHtml(member)}</span>`),
+      row.priority
+        ? `<span class="priority priority-${escapeHtml(row.priority)}">!${escapeHtml(row.priority)}</span>`
+        : '',
+      row.startDate || row.dueDate
+        ? `<span class="date">${escapeHtml(
+            [row.startDate, row.dueDate].filter(Boolean).join(' → ') +
+              (row.time ? ` ${row.time}` : '')
+          )}</span>`
+        : '',
+    ].filter(Boolean);
+
+    const id = row.blockId ? ` id="${escapeHtml(row.blockId)}"` : '';
+    return `<div class="card${row.done ? ' done' : ''}"${id}><div class="title">${escapeHtml(
+      row.title
+    )}</div>${meta.length ? `<div class="meta">${meta.join('')}</div>` : ''}</div>`;
+  };
+
+  let rowIndex = 0;
+  const lanes = board.children.map((lane) => {
+    const laneRows = rows.slice(rowIndex, rowIndex + lane.children.length);
+    rowIndex += lane.children.length;
+    const style = lane.data.backgroundColor
+      ? ` style="background: ${escapeHtml(lane.data.backgroundColor)}"`
+      : '';
+    return `<section class="lane"${style}><h2>${escapeHtml(lane.data.title)}<span>${
+      laneRows.length
+    }</span></h2>${laneRows.map(renderCard).join('')}</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${htmlStyles}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="exported">${escapeHtml(moment().format('LLL'))}</p>
+<main class="board">${lanes.join('')}</main>
+</body>
+</html>
+`;
+}
+
+// Writes the export next to the board file and returns its path
+export async function exportBoard(stateManager: StateManager, format: BoardExportFormat) {
+  const { app, file, state } = stateManager;
+  if (!file || !state) return null;
+
+  const content =
+    format === 'csv'
+      ? boardToCsv(stateManager, state)
+      : format === 'json'
+        ? boardToJson(state)
+        : boardToHtml(stateManager, state, file.basename);
+
+  try {
+    const folder = file.parent?.path && file.parent.path !== '/' ? `${file.parent.path}/` : '';
+    let path = normalizePath(`${folder}${file.basename}.${format}`);
+    for (let i = 1; await app.vault.adapter.exists(path); i++) {
+      path = normalizePath(`${folder}${file.basename} ${i}.${format}`);
+    }
+
+    await app.vault.create(path, content);
+    debugLog(`[KanbanPlugin] Exported ${file.path} to ${path}`);
+    new Notice(`${t('Board exported to')} ${path}`);
+    return path;
+  } catch (e) {
+    console.error(`[KanbanPlugin] Error exporting ${file.path}:`, e);
+    new Notice(t('Could not export the board. See the console for details.'));
+    return null;
+  }
+}
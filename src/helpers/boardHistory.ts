@@ -0,0 +1,91 @@
+import { generateInstanceId } from '../components/helpers';
+import { Board } from '../components/types';
+
+// Ties together history entries that were recorded on several boards by one operation, such as
+// dragging a card between boards, so they are undone and redone together.
+export interface BoardHistoryGroup {
+  id: string;
+  boardPaths: string[];
+}
+
+export interface BoardHistoryEntry {
+  board: Board;
+  group?: BoardHistoryGroup;
+}
+
+export function createHistoryGroup(boardPaths: string[]): BoardHistoryGroup {
+  return { id: generateInstanceId(), boardPaths };
+}
+
+// Undo/redo stacks for a single board. Each entry is the board as it was before a change.
+export class BoardHistory {
+  undoStack: BoardHistoryEntry[] = [];
+  redoStack: BoardHistoryEntry[] = [];
+
+  private lastRecordedAt = 0;
+
+  constructor(
+    public maxSize: number = 100,
+    // Changes arriving within this many ms of the previous one are merged into a single step
+    public coalesceMs: number = 500
+  ) {}
+
+  get canUndo() {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo() {
+    return this.redoStack.length > 0;
+  }
+
+  record(previous: Board, group?: BoardHistoryGroup) {
+    const now = Date.now();
+    const last = this.undoStack.last();
+
+    const shouldCoalesce =
+      !group && last && !last.group && now - this.lastRecordedAt < this.coalesceMs;
+
+    this.lastRecordedAt = now;
+    this.redoStack.length = 0;
+
+    if (shouldCoalesce) return;
+
+    this.undoStack.push({ board: previous, group });
+    if (this.undoStack.length > this.maxSize) {
+      this.undoStack.shift();
+    }
+  }
+
+  peekUndo() {
+    return this.undoStack.last();
+  }
+
+  peekRedo() {
+    return this.redoStack.last();
+  }
+
+  // Swaps the current board for the previous one and returns it
+  undo(current: Board): BoardHistoryEntry | undefined {
+    const entry = this.undoStack.pop();
+    if (!entry) return;
+
+    this.redoStack.push({ board: current, group: entry.group });
+    this.lastRecordedAt = 0;
+    return entry;
+  }
+
+  redo(current: Board): BoardHistoryEntry | undefined {
+    const entry = this.redoStack.pop();
+    if (!entry) return;
+
+    this.undoStack.push({ board: current, group: entry.group });
+    this.lastRecordedAt = 0;
+    return entry;
+  }
+
+  clear() {
+    this.undoStack.length = 0;
+    this.redoStack.length = 0;
+    this.lastRecordedAt = 0;
+  }
+}
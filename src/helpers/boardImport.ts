@@ -0,0 +1,339 @@
+import { App, moment } from 'obsidian';
+
+import { KanbanSettings } from '../Settings';
+import { getDefaultDateFormat } from '../components/helpers';
+import { buildLinkToDailyNote } from '../helpers';
+import { basicFrontmatter } from '../parsers/common';
+import { indentNewLines } from '../parsers/helpers/parser';
+import { defaultDateTrigger } from '../settingHelpers';
+
+export type ImportSource = 'trello' | 'github' | 'csv';
+
+export interface ImportedChecklistItem {
+  text: string;
+  checked: boolean;
+}
+
+export interface ImportedCard {
+  title: string;
+  checked: boolean;
+  description?: string;
+  tags: string[];
+  members: string[];
+  due?: moment.Moment;
+  checklist: ImportedChecklistItem[];
+}
+
+export interface ImportedLane {
+  title: string;
+  cards: ImportedCard[];
+}
+
+export interface ImportedBoard {
+  title: string;
+  lanes: ImportedLane[];
+}
+
+export type CsvField = 'title' | 'lane' | 'tags' | 'members' | 'due' | 'done' | 'description';
+
+// Column index for each card field, -1 when the CSV has no such column
+export type CsvColumnMapping = Record<CsvField, number>;
+
+export const csvFields: CsvField[] = [
+  'title',
+  'lane',
+  'tags',
+  'members',
+  'due',
+  'done',
+  'description',
+];
+
+// Header names recognised when guessing the mapping, in lower case
+const csvFieldAliases: Record<CsvField, string[]> = {
+  title: ['title', 'name', 'card', 'summary', 'task', 'subject'],
+  lane: ['lane', 'list', 'status', 'column', 'stage', 'state'],
+  tags: ['tags', 'labels', 'label', 'tag', 'categories'],
+  members: ['members', 'assignees', 'assignee', 'owner', 'assigned to', 'members assigned'],
+  due: ['due', 'due date', 'deadline', 'due on', 'date'],
+  done: ['done', 'completed', 'complete', 'closed', 'checked'],
+  description: ['description', 'desc', 'body', 'notes', 'details'],
+};
+
+const dueDateFormats = [moment.ISO_8601, 'YYYY-MM-DD', 'MM/DD/YYYY', 'DD.MM.YYYY', 'D MMM YYYY'];
+
+function parseDate(value: unknown) {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const date = moment(value.trim(), dueDateFormats, true);
+  return date.isValid() ? date : undefined;
+}
+
+function splitList(value?: string) {
+  return (value || '')
+    .split(/[,;]/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+// Task lines in a description become the card's checklist, the rest is kept as text
+function splitDescription(body?: string) {
+  const checklist: ImportedChecklistItem[] = [];
+  const lines: string[] = [];
+
+  (body || '').split(/\r?\n/).forEach((line) => {
+    const task = line.match(/^\s*[-*]\s+\[([ xX])\]\s+(.*)$/);
+    if (task) {
+      checklist.push({ text: task[2].trim(), checked: task[1] !== ' ' });
+    } else {
+      lines.push(line);
+    }
+  });
+
+  return { description: lines.join('\n').trim(), checklist };
+}
+
+function byPos<T extends { pos?: number }>(a: T, b: T) {
+  return (a.pos ?? 0) - (b.pos ?? 0);
+}
+
+// A board exported from Trello's "Print and export" > "Export as JSON"
+export function parseTrelloExport(json: any): ImportedBoard {
+  if (!Array.isArray(json?.lists) || !Array.isArray(json?.cards)) {
+    throw new Error('This does not look like a Trello board export');
+  }
+
+  const members = new Map<string, string>();
+  (json.members || []).forEach((member: any) =>
+    members.set(member.id, member.username || member.fullName)
+  );
+
+  const labels = new Map<string, string>();
+  (json.labels || []).forEach((label: any) => labels.set(label.id, label.name || label.color));
+
+  const checklists = new Map<string, ImportedChecklistItem[]>();
+  (json.checklists || []).forEach((checklist: any) => {
+    const items = [...(checklist.checkItems || [])].sort(byPos).map((item: any) => ({
+      text: item.name,
+      checked: item.state === 'complete',
+    }));
+    checklists.set(checklist.idCard, (checklists.get(checklist.idCard) || []).concat(items));
+  });
+
+  const lanes = json.lists
+    .filter((list: any) => !list.closed)
+    .sort(byPos)
+    .map((list: any): ImportedLane => ({
+      title: list.name,
+      cards: json.cards
+        .filter((card: any) => card.idList === list.id && !card.closed)
+        .sort(byPos)
+        .map((card: any): ImportedCard => ({
+          title: card.name,
+          checked: !!card.dueComplete,
+          description: card.desc,
+          tags: (card.idLabels || []).map((id: string) => labels.get(id)).filter(Boolean),
+          members: (card.idMembers || []).map((id: string) => members.get(id)).filter(Boolean),
+          due: parseDate(card.due),
+          checklist: checklists.get(card.id) || [],
+        })),
+    }));
+
+  return { title: json.name || 'Trello', lanes };
+}
+
+function toGithubCard(issue: any): ImportedCard {
+  const content = issue.content || issue;
+  const state = String(content.state || issue.state || '').toLowerCase();
+  const { description, checklist } = splitDescription(content.body);
+  const names = (list: any[], key: string) =>
+    (list || []).map((entry) => (typeof entry === 'string' ? entry : entry?.[key])).filter(Boolean);
+
+  return {
+    title: content.number ? `${content.title} (#${content.number})` : content.title || issue.title,
+    checked: state === 'closed',
+    description,
+    tags: names(issue.labels ?? content.labels, 'name'),
+    members: names(issue.assignees ?? content.assignees, 'login'),
+    due: parseDate(
+      content.milestone?.dueOn || content.milestone?.due_on || issue['due date'] || issue.due
+    ),
+    checklist,
+  };
+}
+
+// Accepts `gh project item-list --format json` output, where cards are grouped by their
+// Status field, or a list of issues from `gh issue list --json` or the REST API, grouped
+// into open and closed
+export function parseGithubExport(json: any): ImportedBoard {
+  const projectItems = Array.isArray(json?.items) ? json.items : null;
+  const issues = Array.isArray(json) ? json : null;
+
+  if (!projectItems && !issues) {
+    throw new Error('This does not look like a GitHub project or issue export');
+  }
+
+  const lanes: ImportedLane[] = [];
+  const getLane = (title: string) => {
+    let lane = lanes.find((existing) => existing.title === title);
+    if (!lane) {
+      lane = { title, cards: [] };
+      lanes.push(lane);
+    }
+    return lane;
+  };
+
+  (projectItems || issues).forEach((issue: any) => {
+    const card = toGithubCard(issue);
+    const laneTitle = projectItems ? issue.status || 'No Status' : card.checked ? 'Closed' : 'Open';
+    getLane(laneTitle).cards.push(card);
+  });
+
+  return { title: json?.title || 'GitHub', lanes };
+}
+
+// RFC 4180 CSV, with quoted fields that may contain commas, quotes and line breaks
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim()));
+}
+
+export function guessCsvMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  return csvFields.reduce((mapping, field) => {
+    mapping[field] = normalized.findIndex((header) => csvFieldAliases[field].includes(header));
+    return mapping;
+  }, {} as CsvColumnMapping);
+}
+
+export function parseCsvExport(rows: string[][], mapping: CsvColumnMapping, title: string) {
+  if (mapping.title === -1) {
+    throw new Error('Choose the column that holds the card titles');
+  }
+
+  const board: ImportedBoard = { title, lanes: [] };
+  const get = (row: string[], field: CsvField) =>
+    mapping[field] === -1 ? '' : (row[mapping[field]] || '').trim();
+
+  rows.slice(1).forEach((row) => {
+    const cardTitle = get(row, 'title');
+    if (!cardTitle) return;
+
+    const laneTitle = get(row, 'lane') || 'Imported';
+    let lane = board.lanes.find((existing) => existing.title === laneTitle);
+    if (!lane) {
+      lane = { title: laneTitle, cards: [] };
+      board.lanes.push(lane);
+    }
+
+    const { description, checklist } = splitDescription(get(row, 'description'));
+    lane.cards.push({
+      title: cardTitle,
+      checked: /^(true|yes|y|x|1|done|closed|complete|completed)$/i.test(get(row, 'done')),
+      description,
+      tags: splitList(get(row, 'tags')),
+      members: splitList(get(row, 'members')),
+      due: parseDate(get(row, 'due')),
+      checklist,
+    });
+  });
+
+  return board;
+}
+
+function toTag(label: string) {
+  const tag = label
+    .trim()
+    .replace(/\s+/g, '-')
+    .replace(/[^\p{L}\p{N}_/-]/gu, '');
+  // Tags can't be made of digits only
+  return tag && !/^\d+$/.test(tag) ? `#${tag}` : '';
+}
+
+function toMember(name: string, prefix: string) {
+  const member = name.trim().replace(/\s+/g, '');
+  return member ? `${prefix}${member}` : '';
+}
+
+function cardToMd(app: App, card: ImportedCard, settings: KanbanSettings) {
+  const dateFormat = settings['date-format'] || getDefaultDateFormat(app);
+  const dateTrigger = settings['date-trigger'] || defaultDateTrigger;
+  const memberPrefix = settings.memberAssignmentPrefix || '@@';
+
+  let date = '';
+  if (card.due) {
+    const dateStr = card.due.format(dateFormat);
+    date = `${dateTrigger}${
+      settings['link-date-to-daily-note'] ? buildLinkToDailyNote(app, dateStr) : `{${dateStr}}`
+    }`;
+  }
+
+  const firstLine = [
+    card.title.replace(/\r?\n/g, ' ').trim(),
+    ...card.tags.map(toTag),
+    ...card.members.map((member) => toMember(member, memberPrefix)),
+    date,
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  const lines = [firstLine];
+  if (card.description?.trim()) lines.push(card.description.trim());
+  card.checklist.forEach((item) => lines.push(`- [${item.checked ? 'x' : ' '}] ${item.text}`));
+
+  return `- [${card.checked ? 'x' : ' '}] ${indentNewLines(lines.join('\n'))}`;
+}
+
+export function importedBoardToMd(app: App, board: ImportedBoard, settings: KanbanSettings) {
+  const lanes = board.lanes.map((lane) =>
+    [
+      `## ${lane.title}`,
+      '',
+      ...lane.cards.map((card) => cardToMd(app, card, settings)),
+      '',
+      '',
+    ].join('\n')
+  );
+
+  return basicFrontmatter + lanes.join('\n');
+}
+
+export function countImportedCards(board: ImportedBoard) {
+  return board.lanes.reduce((total, lane) => total + lane.cards.length, 0);
+}
@@ -16,7 +16,9 @@ import {
 
 import { generateInstanceId } from '../components/helpers';
 import { Board, DataTypes, Item, Lane } from '../components/types';
+import { t } from '../lang/helpers';
 import { createTagFromName, updateLaneTags } from './tagUpdater';
+import { checkMemberWipChange, getMemberWipCard } from './wipLimits';
 
 export interface BoardModifiers {
   appendItems: (path: Path, items: Item[]) => void;
@@ -55,26 +57,45 @@ export function getBoardModifiers(view: KanbanView, stateManager: StateManager):
     return stateManager.updateItemContent(item, titleRaw);
   };
 
+  // Adding, assigning or reopening a card can take up a slot of a team member's WIP limit.
+  // `isReplacing` is set when `items` take the place of the card at `path`.
+  const checkMemberWip = (path: Path, items: Item[], isReplacing: boolean) => {
+    const lane: Lane = getEntityFromPath(stateManager.state, path.slice(0, -1));
+    const before = isReplacing
+      ? getMemberWipCard(getEntityFromPath(stateManager.state, path), lane)
+      : null;
+    const rejection = isReplacing ? t('The card was not changed.') : t('The card was not added.');
+
+    return items.every((item) =>
+      checkMemberWipChange(view.plugin, before, getMemberWipCard(item, lane), rejection)
+    );
+  };
+
   return {
     appendItems: (path: Path, items: Item[]) => {
+      if (!checkMemberWip(path, items, false)) return;
       stateManager.setState((boardData) => appendEntities(boardData, path, items));
     },
 
     prependItems: (path: Path, items: Item[]) => {
+      if (!checkMemberWip(path, items, false)) return;
       stateManager.setState((boardData) => prependEntities(boardData, path, items));
     },
 
     insertItems: (path: Path, items: Item[]) => {
+      if (!checkMemberWip(path, items, false)) return;
       stateManager.setState((boardData) => insertEntity(boardData, path, items));
     },
 
     replaceItem: (path: Path, items: Item[]) => {
+      if (!checkMemberWip(path, items, true)) return;
       stateManager.setState((boardData) =>
         insertEntity(removeEntity(boardData, path), path, items)
       );
     },
 
     splitItem: (path: Path, items: Item[]) => {
+      if (!checkMemberWip(path, items, true)) return;
       stateManager.setState((boardData) => {
         return insertEntity(removeEntity(boardData, path), path, items);
       });
@@ -264,6 +285,7 @@ export function getBoardModifiers(view: KanbanView, stateManager: StateManager):
     },
 
     updateItem: (path: Path, item: Item) => {
+      if (!checkMemberWip(path, [item], true)) return;
       stateManager.setState((boardData) => {
         return updateParentEntity(boardData, path, {
           children: {
@@ -296,6 +318,9 @@ export function getBoardModifiers(view: KanbanView, stateManager: StateManager):
     },
 
     duplicateEntity: (path: Path) => {
+      const original = getEntityFromPath(stateManager.state, path);
+      if (original?.type === DataTypes.Item && !checkMemberWip(path, [original], false)) return;
+
       stateManager.setState((boardData) => {
         const entity = getEntityFromPath(boardData, path);
         let entityWithNewID = update(entity, {
@@ -0,0 +1,207 @@
+import { Item, Lane } from '../components/types';
+import { KanbanQueryDueFilter, dueMatches, parseDueFilter } from './kanbanQuery';
+import { laneMatchesPattern } from './memberWorkflow';
+
+// Query language for the board search bar.
+//
+// Words and "quoted phrases" match the card text. `key:value` terms filter on card fields:
+//
+//   tag:#bug  member:alice  priority:high  lane:Doing  lane:"In review"
+//   due:<2025-01-01  due:<7d  due:overdue  is:done  is:open  has:date
+//
+// A leading - excludes cards matching the term, e.g. -tag:wontfix. Terms are ANDed; OR
+// separates alternatives and binds looser than AND, so `tag:#bug lane:Doing OR priority:high`
+// matches bugs in Doing as well as every high priority card. Words with an unknown key, like
+// a pasted URL, are searched as text.
+
+type BoardSearchKey = 'tag' | 'member' | 'priority' | 'due' | 'lane' | 'is' | 'has';
+
+interface BoardSearchTerm {
+  key: BoardSearchKey | 'text';
+  value: string;
+  negated: boolean;
+  due?: KanbanQueryDueFilter;
+}
+
+export interface BoardSearch {
+  // Alternatives separated by OR, each holding terms that must all match
+  groups: BoardSearchTerm[][];
+  // Text to highlight in matching cards
+  terms: string[];
+  error: string | null;
+}
+
+export interface BoardSearchCandidate {
+  item: Item;
+  lane: Lane;
+  inDoneLane: boolean;
+}
+
+const searchKeys: BoardSearchKey[] = ['tag', 'member', 'priority', 'due', 'lane', 'is', 'has'];
+const priorities = ['high', 'medium', 'low'];
+const isValues = ['done', 'open'];
+const hasValues = ['date', 'start', 'time', 'tag', 'member', 'priority'];
+
+// Optional -, optional key: and then a quoted phrase or a single word
+const tokenRegex = /(-?)(?:([a-z]+):)?(?:"([^"]*)("?)|([^\s"]+))/iy;
+
+function normalizeTag(tag: string) {
+  return (tag.startsWith('#') ? tag : `#${tag}`).toLowerCase();
+}
+
+function normalizeMember(member: string) {
+  return member.replace(/^@@/, '').toLowerCase();
+}
+
+function parseTerm(key: string, value: string, negated: boolean): BoardSearchTerm {
+  const lower = value.toLowerCase();
+
+  switch (key) {
+    case 'tag':
+      if (!/^#?[^\s#]+$/.test(value)) throw new Error(`"${value}" is not a valid tag`);
+      return { key, value: normalizeTag(value), negated };
+    case 'member':
+      return { key, value: normalizeMember(value), negated };
+    case 'priority':
+      if (!priorities.includes(lower)) {
+        throw new Error(`priority: expects one of ${priorities.join(', ')}`);
+      }
+      return { key, value: lower, negated };
+    case 'due': {
+      const due = parseDueFilter(value);
+      if (!due) {
+        throw new Error(
+          `Invalid due filter "${value}". Use e.g. <2025-01-01, <7d, today, overdue, none or any`
+        );
+      }
+      return { key, value: lower, negated, due };
+    }
+    case 'is':
+      if (!isValues.includes(lower)) throw new Error(`is: expects one of ${isValues.join(', ')}`);
+      return { key, value: lower, negated };
+    case 'has':
+      if (!hasValues.includes(lower)) {
+        throw new Error(`has: expects one of ${hasValues.join(', ')}`);
+      }
+      return { key, value: lower, negated };
+    case 'lane':
+      return { key, value, negated };
+    default:
+      return { key: 'text', value: lower, negated };
+  }
+}
+
+export function parseBoardSearch(query: string): BoardSearch {
+  const groups: BoardSearchTerm[][] = [[]];
+  const terms = new Set<string>();
+  let lastOperator: string | null = null;
+
+  try {
+    for (let index = 0; index < query.length;) {
+      if (/\s/.test(query[index])) {
+        index++;
+        continue;
+      }
+
+      tokenRegex.lastIndex = index;
+      const match = tokenRegex.exec(query);
+      if (!match) throw new Error(`Unexpected "${query[index]}"`);
+      index = tokenRegex.lastIndex;
+
+      const [, minus, rawKey, quoted, closingQuote, word] = match;
+      const negated = !!minus;
+      const key = rawKey?.toLowerCase();
+      const isKnownKey = searchKeys.includes(key as BoardSearchKey);
+
+      if (quoted !== undefined && !closingQuote) throw new Error('Missing closing quote');
+
+      // OR and AND only count as operators when written in capitals, like in Obsidian's search
+      if (!negated && !rawKey && (word === 'OR' || word === 'AND')) {
+        const group = groups[groups.length - 1];
+        if (!group.length || lastOperator) {
+          throw new Error(`"${word}" needs a search term on both sides`);
+        }
+        if (word === 'OR') groups.push([]);
+        lastOperator = word;
+        continue;
+      }
+
+      // A bare "tag:" is parsed as a word, since a key needs something after it
+      const bareKey = word?.match(/^([a-z]+):$/i)?.[1].toLowerCase();
+      if (bareKey && searchKeys.includes(bareKey as BoardSearchKey)) {
+        throw new Error(`${bareKey}: needs a value`);
+      }
+
+      const value = quoted ?? word;
+      if (!value) {
+        if (isKnownKey) throw new Error(`${key}: needs a value`);
+        continue;
+      }
+
+      const term = isKnownKey
+        ? parseTerm(key, value, negated)
+        : parseTerm('text', rawKey ? `${rawKey}:${value}` : value, negated);
+
+      if (!term.negated && (term.key === 'text' || term.key === 'tag' || term.key === 'member')) {
+        terms.add(term.value);
+      }
+
+      groups[groups.length - 1].push(term);
+      lastOperator = null;
+    }
+
+    if (lastOperator) throw new Error(`"${lastOperator}" needs a search term on both sides`);
+  } catch (e) {
+    return { groups: [], terms: [], error: e.message };
+  }
+
+  return { groups: groups.filter((group) => group.length), terms: Array.from(terms), error: null };
+}
+
+function termMatches(term: BoardSearchTerm, { item, lane, inDoneLane }: BoardSearchCandidate) {
+  const { metadata, assignedMembers, checked, titleSearch } = item.data;
+
+  switch (term.key) {
+    case 'text':
+      return titleSearch.includes(term.value);
+    case 'tag':
+      // Parent tags also match nested tags, e.g. #project matches #project/alpha
+      return (metadata.tags || []).some((tag) => {
+        const lower = tag.toLowerCase();
+        return lower === term.value || lower.startsWith(`${term.value}/`);
+      });
+    case 'member':
+      return (assignedMembers || []).some((member) => normalizeMember(member) === term.value);
+    case 'priority':
+      return metadata.priority === term.value;
+    case 'due':
+      return dueMatches(metadata.date, term.due);
+    case 'lane':
+      return laneMatchesPattern(lane.data.title, term.value);
+    case 'is':
+      return term.value === 'done' ? checked || inDoneLane : !checked && !inDoneLane;
+    case 'has':
+      switch (term.value) {
+        case 'date':
+          return !!metadata.date;
+        case 'start':
+          return !!metadata.startDate;
+        case 'time':
+          return !!metadata.time;
+        case 'tag':
+          return !!metadata.tags?.length;
+        case 'member':
+          return !!assignedMembers?.length;
+        case 'priority':
+          return !!metadata.priority;
+      }
+  }
+
+  return false;
+}
+
+export function matchesBoardSearch(search: BoardSearch, candidate: BoardSearchCandidate) {
+  return search.groups.some((group) =>
+    group.every((term) => termMatches(term, candidate) !== term.negated)
+  );
+}
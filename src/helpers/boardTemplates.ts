@@ -0,0 +1,147 @@
+import update from 'immutability-helper';
+import { Notice, TFile, TFolder, moment, normalizePath } from 'obsidian';
+
+import { StateManager } from '../StateManager';
+import { getDefaultDateFormat, getDefaultTimeFormat } from '../components/helpers';
+import { Board } from '../components/types';
+import { t } from '../lang/helpers';
+import KanbanPlugin from '../main';
+import { boardToMd } from '../parsers/formats/list';
+import { stripActivityLog } from './activityLog';
+import { debugLog } from './debugLogger';
+
+export const DEFAULT_BOARD_TEMPLATE_FOLDER = 'Kanban Templates';
+
+export function getBoardTemplateFolder(plugin: KanbanPlugin) {
+  return normalizePath(
+    plugin.settings.boardTemplateFolder?.trim() || DEFAULT_BOARD_TEMPLATE_FOLDER
+  );
+}
+
+// Templates are boards themselves, but shouldn't show up in cross-board views
+export function isBoardTemplate(plugin: KanbanPlugin, path: string) {
+  return path.startsWith(getBoardTemplateFolder(plugin) + '/');
+}
+
+export function getBoardTemplates(plugin: KanbanPlugin): TFile[] {
+  const folder = plugin.app.vault.getAbstractFileByPath(getBoardTemplateFolder(plugin));
+  if (!(folder instanceof TFolder)) return [];
+
+  const templates: TFile[] = [];
+  const walk = (current: TFolder) => {
+    current.children.forEach((child) => {
+      if (child instanceof TFolder) walk(child);
+      else if (child instanceof TFile && child.extension === 'md') templates.push(child);
+    });
+  };
+  walk(folder);
+
+  return templates.sort((a, b) => a.basename.localeCompare(b.basename));
+}
+
+// Keeps lanes with their IDs, colours and WIP limits, the frontmatter and the settings codeblock.
+// Lane IDs stay because settings such as 'lane-rules' are keyed by them. Seed cards lose their
+// block IDs and activity so boards created from the template start fresh.
+export function boardToTemplate(board: Board, includeCards: boolean) {
+  const template = update(board, {
+    children: {
+      $apply: (lanes: Board['children']) =>
+        lanes.map((lane) =>
+          update(lane, {
+            children: {
+              $apply: (items: typeof lane.children) =>
+                includeCards
+                  ? items.map((item) =>
+                      update(item, {
+                        data: {
+                          titleRaw: {
+                            $set: stripActivityLog(item.data.titleRaw).replace(/\s+$/, ''),
+                          },
+                          blockId: { $set: undefined },
+                        },
+                      })
+                    )
+                  : [],
+            },
+          })
+        ),
+    },
+    data: { archive: { $set: [] } },
+  });
+
+  return boardToMd(template);
+}
+
+export async function saveBoardAsTemplate(
+  plugin: KanbanPlugin,
+  stateManager: StateManager,
+  name: string,
+  includeCards: boolean
+) {
+  const { vault } = plugin.app;
+  const folder = getBoardTemplateFolder(plugin);
+  const baseName = name.replace(/[\\/:*?"<>|#^[\]]/g, ' ').trim() || stateManager.file.basename;
+
+  try {
+    if (!vault.getAbstractFileByPath(folder)) {
+      await vault.createFolder(folder);
+    }
+
+    let path = normalizePath(`${folder}/${baseName}.md`);
+    for (let i = 1; await vault.adapter.exists(path); i++) {
+      path = normalizePath(`${folder}/${baseName} ${i}.md`);
+    }
+
+    await vault.create(path, boardToTemplate(stateManager.state, includeCards));
+    debugLog(`[KanbanPlugin] Saved ${stateManager.file.path} as template ${path}`);
+    new Notice(`${t('Template saved to')} ${path}`);
+    return path;
+  } catch (e) {
+    console.error(`[KanbanPlugin] Error saving ${stateManager.file.path} as a template:`, e);
+    new Notice(t('Could not save the template. See the console for details.'));
+    return null;
+  }
+}
+
+// Replaces {{title}}, {{date}} and {{time}}, optionally with a format as in {{date:YYYY-MM-DD}},
+// the same variables Obsidian's core templates plugin understands
+export function applyTemplateVariables(
+  content: string,
+  title: string,
+  dateFormat: string,
+  timeFormat: string,
+  now: moment.Moment = moment()
+) {
+  return content.replace(
+    /\{\{\s*(title|date|time)\s*(?::([^}]+))?\}\}/gi,
+    (_, variable: string, format?: string) => {
+      switch (variable.toLowerCase()) {
+        case 'title':
+          return title;
+        case 'date':
+          return now.format(format?.trim() || dateFormat);
+        default:
+          return now.format(format?.trim() || timeFormat);
+      }
+    }
+  );
+}
+
+export async function createBoardFromTemplate(plugin: KanbanPlugin, template: TFile, name: string) {
+  try {
+    const title = name.trim() || template.basename;
+    const content = applyTemplateVariables(
+      await plugin.app.vault.read(template),
+      title,
+      plugin.settings['date-format'] || getDefaultDateFormat(plugin.app),
+      plugin.settings['time-format'] || getDefaultTimeFormat(plugin.app)
+    );
+
+    const fileName = title.replace(/[\\/:*?"<>|#^[\]]/g, ' ').trim();
+    return await plugin.newKanban(undefined, fileName, content);
+  } catch (e) {
+    console.error(`[KanbanPlugin] Error creating a board from template ${template.path}:`, e);
+    new Notice(t('Could not create the board from the template. See the console for details.'));
+    return null;
+  }
+}
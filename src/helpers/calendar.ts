@@ -0,0 +1,126 @@
+import moment from 'moment';
+
+import { IndexedCard } from '../CardIndex';
+import { StateManager } from '../StateManager';
+
+export type CalendarMode = 'month' | 'week' | 'agenda';
+
+export interface CalendarCard {
+  id: string;
+  title: string;
+  titleRaw: string;
+  boardName: string;
+  boardPath: string;
+  laneName: string;
+  laneColor?: string;
+  blockId?: string;
+  line?: number;
+  checked: boolean;
+  inDoneLane: boolean;
+  tags: string[];
+  assignedMembers: string[];
+  startDate?: moment.Moment;
+  dueDate?: moment.Moment;
+  timeStr?: string;
+  // Minutes since midnight, used to order cards within a day
+  minutes?: number;
+}
+
+// Builds a calendar entry for cards with a due or start date. `stateManager` must have the
+// card's board settings compiled so dates are read with the board's own date format.
+export function toCalendarCard(card: IndexedCard, stateManager: StateManager): CalendarCard | null {
+  const { data } = card;
+  const dateFormat = stateManager.getSetting('date-format');
+
+  const dueDate = data.metadata?.dateStr
+    ? moment(data.metadata.dateStr, dateFormat)
+    : data.metadata?.date?.clone();
+  const startDate = data.metadata?.startDateStr
+    ? moment(data.metadata.startDateStr, dateFormat)
+    : undefined;
+
+  const hasDue = !!dueDate?.isValid();
+  const hasStart = !!startDate?.isValid();
+  if (!hasDue && !hasStart) return null;
+
+  return {
+    id: `${card.boardPath}:${data.blockId || data.line || data.titleRaw}`,
+    title: data.title,
+    titleRaw: data.titleRaw,
+    boardName: card.boardName,
+    boardPath: card.boardPath,
+    laneName: card.laneName,
+    laneColor: card.laneColor,
+    blockId: data.blockId,
+    line: data.line,
+    checked: data.checked,
+    inDoneLane: card.inDoneLane,
+    tags: (data.metadata?.tags || []).map((tag) => tag.replace(/^#/, '')),
+    assignedMembers: data.assignedMembers || [],
+    startDate: hasStart ? startDate.startOf('day') : undefined,
+    dueDate: hasDue ? dueDate.startOf('day') : undefined,
+    timeStr: data.metadata?.timeStr,
+    minutes: data.metadata?.time?.isValid()
+      ? data.metadata.time.hours() * 60 + data.metadata.time.minutes()
+      : undefined,
+  };
+}
+
+// The first and last day a card covers. Cards with only one of the dates cover a single day.
+export function getCardSpan(card: CalendarCard): [moment.Moment, moment.Moment] {
+  const first = card.startDate || card.dueDate;
+  const last = card.dueDate || card.startDate;
+  return last.isBefore(first) ? [first, first] : [first, last];
+}
+
+export function cardFallsOn(card: CalendarCard, day: moment.Moment) {
+  const [first, last] = getCardSpan(card);
+  return day.isBetween(first, last, 'day', '[]');
+}
+
+// The days shown for a layout around `anchor`. Month layouts are padded to whole weeks.
+export function getCalendarRange(mode: CalendarMode, anchor: moment.Moment) {
+  if (mode === 'week') {
+    return { start: anchor.clone().startOf('week'), end: anchor.clone().endOf('week') };
+  }
+
+  if (mode === 'agenda') {
+    return { start: anchor.clone().startOf('day'), end: anchor.clone().add(29, 'days') };
+  }
+
+  return {
+    start: anchor.clone().startOf('month').startOf('week'),
+    end: anchor.clone().endOf('month').endOf('week'),
+  };
+}
+
+export function getCalendarDays(start: moment.Moment, end: moment.Moment) {
+  const days: moment.Moment[] = [];
+  const day = start.clone().startOf('day');
+  while (day.isSameOrBefore(end, 'day')) {
+    days.push(day.clone());
+    day.add(1, 'day');
+  }
+  return days;
+}
+
+// Dragging a card from one day to another shifts both of its dates by the same number of days,
+// so multi-day cards keep their length. Dates the card doesn't have are left alone (null).
+export function shiftCardDates(card: CalendarCard, from: moment.Moment, to: moment.Moment) {
+  const offset = to.clone().startOf('day').diff(from.clone().startOf('day'), 'days');
+  return {
+    offset,
+    startDate: card.startDate ? card.startDate.clone().add(offset, 'days') : null,
+    dueDate: card.dueDate ? card.dueDate.clone().add(offset, 'days') : null,
+  };
+}
+
+// Cards with a time come first, in time order, followed by the rest by title
+export function compareCalendarCards(a: CalendarCard, b: CalendarCard) {
+  const aHasTime = a.minutes !== undefined;
+  const bHasTime = b.minutes !== undefined;
+  if (aHasTime && bHasTime) return a.minutes - b.minutes;
+  if (aHasTime) return -1;
+  if (bHasTime) return 1;
+  return a.title.localeCompare(b.title);
+}
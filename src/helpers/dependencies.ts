@@ -0,0 +1,135 @@
+import { Board, Item } from '../components/types';
+import KanbanPlugin from '../main';
+
+export interface CardDependency {
+  // Link path of the blocker's board, empty when the link points into the same board
+  linkpath: string;
+  blockId: string;
+}
+
+export interface ResolvedDependency extends CardDependency {
+  // Path of the blocker's board, when the link resolves
+  path?: string;
+  title?: string;
+  checked?: boolean;
+  found: boolean;
+}
+
+export const BLOCKED_BY_FIELD = 'blocked-by';
+
+// Matches the field and every link directly following it, e.g.
+// blocked-by:: [[Board#^abc]], [[#^def]]
+const blockedByRegex = new RegExp(
+  `${BLOCKED_BY_FIELD}::[ \\t]*((?:!?\\[\\[[^\\]]+\\]\\][ \\t]*,?[ \\t]*)+)`,
+  'gi'
+);
+const linkRegex = /\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g;
+
+export function parseBlockedBy(titleRaw: string): CardDependency[] {
+  const dependencies: CardDependency[] = [];
+  if (!titleRaw) return dependencies;
+
+  blockedByRegex.lastIndex = 0;
+  let fieldMatch;
+  while ((fieldMatch = blockedByRegex.exec(titleRaw)) !== null) {
+    linkRegex.lastIndex = 0;
+    let linkMatch;
+    while ((linkMatch = linkRegex.exec(fieldMatch[1])) !== null) {
+      const [linkpath, blockId] = linkMatch[1].split('#^');
+      if (!blockId?.trim()) continue;
+
+      const dependency = { linkpath: linkpath.trim(), blockId: blockId.trim() };
+      if (
+        !dependencies.some(
+          (d) => d.linkpath === dependency.linkpath && d.blockId === dependency.blockId
+        )
+      ) {
+        dependencies.push(dependency);
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+// Resolves the board a dependency points to, relative to the board that contains the card
+export function getDependencyPath(
+  plugin: KanbanPlugin,
+  dependency: CardDependency,
+  sourcePath: string
+) {
+  if (!dependency.linkpath) return sourcePath;
+  return plugin.app.metadataCache.getFirstLinkpathDest(dependency.linkpath, sourcePath)?.path;
+}
+
+export function getDependencyKey(path: string, blockId: string) {
+  return `${path}#^${blockId}`;
+}
+
+function findInItems(items: Item[], blockId: string) {
+  return items.find((item) => item.data.blockId === blockId);
+}
+
+// Looks up each blocker's current state. Blockers on the card's own board are read from
+// `currentBoard` when given so the badge follows unsaved changes; archived blockers count as done.
+export async function resolveDependencies(
+  plugin: KanbanPlugin,
+  dependencies: CardDependency[],
+  sourcePath: string,
+  currentBoard?: Board
+): Promise<ResolvedDependency[]> {
+  const resolved: ResolvedDependency[] = [];
+
+  for (const dependency of dependencies) {
+    const path = getDependencyPath(plugin, dependency, sourcePath);
+    if (!path) {
+      resolved.push({ ...dependency, found: false });
+      continue;
+    }
+
+    let lanes: Item[][];
+    let archive: Item[];
+
+    if (path === sourcePath && currentBoard) {
+      lanes = currentBoard.children.map((lane) => lane.children);
+      archive = currentBoard.data.archive;
+    } else {
+      const indexed = await plugin.cardIndex.getBoard(path);
+      lanes = indexed ? [indexed.cards.map((card) => card.item)] : [];
+      archive = indexed ? indexed.archive.map((card) => card.item) : [];
+    }
+
+    let blocker: Item | undefined;
+    for (const items of lanes) {
+      blocker = findInItems(items, dependency.blockId);
+      if (blocker) break;
+    }
+
+    if (blocker) {
+      resolved.push({
+        ...dependency,
+        path,
+        title: blocker.data.title,
+        checked: blocker.data.checked,
+        found: true,
+      });
+      continue;
+    }
+
+    const archived = findInItems(archive || [], dependency.blockId);
+    resolved.push({
+      ...dependency,
+      path,
+      title: archived?.data.title,
+      checked: archived ? true : undefined,
+      found: !!archived,
+    });
+  }
+
+  return resolved;
+}
+
+// Blockers that can't be found are ignored rather than blocking the card forever
+export function isBlocked(resolved: ResolvedDependency[]) {
+  return resolved.some((dependency) => dependency.found && !dependency.checked);
+}
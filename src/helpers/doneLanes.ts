@@ -0,0 +1,38 @@
+import { KanbanSettings } from '../Settings';
+import { Board, Lane } from '../components/types';
+import { laneMatchesPattern } from './memberWorkflow';
+
+export const DEFAULT_DONE_LANES = 'Done';
+
+// The 'done-lanes' setting is a comma-separated list of lane titles, e.g. "Shipped, Closed".
+// Titles are case-insensitive and may use * as a wildcard.
+export function parseDoneLanes(value?: string): string[] {
+  const titles = (value ?? DEFAULT_DONE_LANES)
+    .split(',')
+    .map((title) => title.trim())
+    .filter(Boolean);
+  return titles.length ? titles : [DEFAULT_DONE_LANES];
+}
+
+// For boards parsed outside of an open view, where the board's own settings have to be merged
+// with the global ones by hand
+export function getBoardDoneLanes(board: Board | undefined, globalSettings: KanbanSettings) {
+  return parseDoneLanes(board?.data?.settings?.['done-lanes'] ?? globalSettings['done-lanes']);
+}
+
+export function isDoneLaneTitle(title: string | undefined, doneLanes: string[]) {
+  return doneLanes.some((pattern) => laneMatchesPattern(title, pattern));
+}
+
+export function isDoneLane(lane: Lane | undefined, doneLanes: string[]) {
+  return isDoneLaneTitle(lane?.data?.title, doneLanes);
+}
+
+export function findDoneLaneIndex(lanes: Lane[], doneLanes: string[]) {
+  return lanes.findIndex((lane) => isDoneLane(lane, doneLanes));
+}
+
+// The title used when a done lane has to be created: the first one that isn't a wildcard pattern
+export function getNewDoneLaneTitle(doneLanes: string[]) {
+  return doneLanes.find((title) => !title.includes('*')) || DEFAULT_DONE_LANES;
+}
@@ -0,0 +1,175 @@
+import { App, moment, normalizePath } from 'obsidian';
+
+import { KanbanSettings } from '../Settings';
+import { debugLog } from './debugLogger';
+
+export type EmailTransportType = 'smtp' | 'eml-folder' | 'simulated';
+// 'tls' connects over TLS from the start (usually port 465), 'starttls' upgrades a plain
+// connection (usually port 587) and 'none' never encrypts, which is only useful for local relays
+export type SmtpTlsMode = 'tls' | 'starttls' | 'none';
+export type SmtpAuthType = 'login' | 'plain' | 'none';
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailSendResult {
+  success: boolean;
+  // Message id for SMTP, written file path for the .eml folder transport
+  detail?: string;
+}
+
+export interface EmailTransport {
+  type: EmailTransportType;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export const DEFAULT_EMAIL_OUTPUT_FOLDER = 'Kanban Emails';
+
+function loadNodemailer() {
+  // Loaded lazily so the plugin still starts where Node modules are unavailable
+  const nodemailer = require('nodemailer');
+  if (!nodemailer) {
+    throw new Error('Nodemailer library not available.');
+  }
+  return nodemailer;
+}
+
+function toMailOptions(message: EmailMessage) {
+  const mailOptions: any = {
+    from: message.from,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+  };
+
+  if (message.html) {
+    mailOptions.html = message.html;
+  }
+
+  return mailOptions;
+}
+
+export function getEmailTransportType(settings: KanbanSettings): EmailTransportType {
+  return settings.emailTransportType || 'smtp';
+}
+
+// Whether enough is configured for automatic sending to be attempted
+export function isEmailTransportConfigured(settings: KanbanSettings) {
+  if (!settings.automaticEmailSenderAddress) return false;
+
+  switch (getEmailTransportType(settings)) {
+    case 'smtp':
+      if (!settings.smtpHost) return false;
+      return settings.smtpAuthType === 'none' || !!settings.automaticEmailAppPassword;
+    case 'eml-folder':
+    case 'simulated':
+      return true;
+  }
+}
+
+class SmtpEmailTransport implements EmailTransport {
+  type: EmailTransportType = 'smtp';
+
+  constructor(private settings: KanbanSettings) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const { settings } = this;
+    const tlsMode = settings.smtpTlsMode || 'tls';
+    const authType = settings.smtpAuthType || 'login';
+
+    debugLog(
+      `[KanbanPlugin] Sending email via SMTP ${settings.smtpHost}:${settings.smtpPort} (${tlsMode})`
+    );
+
+    const transportOptions: any = {
+      host: settings.smtpHost,
+      port: settings.smtpPort || (tlsMode === 'tls' ? 465 : 587),
+      secure: tlsMode === 'tls',
+      requireTLS: tlsMode === 'starttls',
+      ignoreTLS: tlsMode === 'none',
+    };
+
+    if (authType !== 'none') {
+      transportOptions.auth = {
+        user: settings.smtpUsername || settings.automaticEmailSenderAddress,
+        pass: settings.automaticEmailAppPassword,
+      };
+      transportOptions.authMethod = authType === 'plain' ? 'PLAIN' : 'LOGIN';
+    }
+
+    const transporter = loadNodemailer().createTransport(transportOptions);
+    const info = await transporter.sendMail(toMailOptions(message));
+
+    debugLog('[KanbanPlugin] Email sent successfully via SMTP. Message ID:', info.messageId);
+    return { success: true, detail: info.messageId };
+  }
+}
+
+class EmlFolderEmailTransport implements EmailTransport {
+  type: EmailTransportType = 'eml-folder';
+
+  constructor(
+    private app: App,
+    private settings: KanbanSettings
+  ) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    // The stream transport builds the full MIME message without connecting anywhere
+    const transporter = loadNodemailer().createTransport({
+      streamTransport: true,
+      buffer: true,
+      newline: 'unix',
+    });
+    const info = await transporter.sendMail(toMailOptions(message));
+
+    const adapter = this.app.vault.adapter;
+    const folder = normalizePath(this.settings.emailOutputFolder || DEFAULT_EMAIL_OUTPUT_FOLDER);
+    if (!(await adapter.exists(folder))) {
+      await this.app.vault.createFolder(folder);
+    }
+
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const baseName = `${moment().format('YYYY-MM-DD HHmmss')} ${recipient}`;
+
+    let path = normalizePath(`${folder}/${baseName}.eml`);
+    for (let i = 1; await adapter.exists(path); i++) {
+      path = normalizePath(`${folder}/${baseName} ${i}.eml`);
+    }
+
+    await adapter.write(path, info.message.toString());
+
+    debugLog(`[KanbanPlugin] Email written to ${path}`);
+    return { success: true, detail: path };
+  }
+}
+
+class SimulatedEmailTransport implements EmailTransport {
+  type: EmailTransportType = 'simulated';
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    debugLog('--- SIMULATED EMAIL (NOT SENT) ---');
+    debugLog(`From: ${message.from}`);
+    debugLog(`To: ${message.to}`);
+    debugLog(`Subject: ${message.subject}`);
+    debugLog('Text Body:\n', message.text);
+    if (message.html) debugLog('HTML Body:\n', message.html);
+    debugLog('--- END SIMULATED EMAIL ---');
+    return { success: true };
+  }
+}
+
+export function createEmailTransport(app: App, settings: KanbanSettings): EmailTransport {
+  switch (getEmailTransportType(settings)) {
+    case 'eml-folder':
+      return new EmlFolderEmailTransport(app, settings);
+    case 'simulated':
+      return new SimulatedEmailTransport();
+    default:
+      return new SmtpEmailTransport(settings);
+  }
+}
@@ -0,0 +1,196 @@
+import { Notice, moment, normalizePath } from 'obsidian';
+
+import { IndexedBoard, IndexedCard } from '../CardIndex';
+import { KanbanSettings, TeamMemberColorConfig } from '../Settings';
+import { t } from '../lang/helpers';
+import KanbanPlugin from '../main';
+import { debugLog } from './debugLogger';
+
+export const DEFAULT_ICS_EXPORT_PATH = 'Kanban.ics';
+
+// Escapes TEXT values as described in RFC 5545 section 3.3.11
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function escapeParam(value: string) {
+  return /[;:,]/.test(value) ? `"${value.replace(/"/g, "'")}"` : value;
+}
+
+// Content lines are limited to 75 octets, longer ones continue on lines starting with a space
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// Cards without a block ID still need a stable UID so calendar apps update them in place
+function hashString(value: string) {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function getCardDates(card: IndexedCard, dateFormat: string) {
+  const { metadata } = card.data;
+  const parse = (dateStr?: string, date?: moment.Moment) => {
+    const parsed = date?.isValid() ? date : dateStr ? moment(dateStr, dateFormat) : null;
+    return parsed?.isValid() ? parsed.clone() : null;
+  };
+
+  return {
+    start: parse(metadata.startDateStr, metadata.startDate),
+    due: parse(metadata.dateStr, metadata.date),
+    time: metadata.time?.isValid() ? metadata.time : null,
+  };
+}
+
+function cardToEvent(
+  plugin: KanbanPlugin,
+  board: IndexedBoard,
+  card: IndexedCard,
+  memberColors: Record<string, TeamMemberColorConfig>,
+  dateFormat: string
+) {
+  const { start, due, time } = getCardDates(card, dateFormat);
+  if (!start && !due) return null;
+
+  const { data, file } = card;
+  const title = plugin.cleanTitleForEmail(data.titleRaw).split('\n')[0] || data.title;
+  const url = plugin.getCardObsidianUrl(file.path, data.blockId);
+  const uid = `${data.blockId || hashString(`${file.path}\n${data.titleRaw}`)}@${hashString(
+    `${plugin.app.vault.getName()}/${file.path}`
+  )}.obsidian-kanban`;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${moment(board.mtime).utc().format('YYYYMMDD[T]HHmmss[Z]')}`,
+  ];
+
+  // A due date before the start date is ignored, so events never end before they begin
+  const first = start || due;
+  const last = due && !due.isBefore(first, 'day') ? due : first;
+
+  if (time) {
+    // Timed cards run from the time on the start date until an hour after it on the due date
+    const begin = first.clone().hour(time.hour()).minute(time.minute()).second(0);
+    const end = last.clone().hour(time.hour()).minute(time.minute()).second(0).add(1, 'hour');
+    lines.push(
+      `DTSTART:${begin.format('YYYYMMDD[T]HHmmss')}`,
+      `DTEND:${end.format('YYYYMMDD[T]HHmmss')}`
+    );
+  } else {
+    // All day events end on the day after the last one
+    lines.push(
+      `DTSTART;VALUE=DATE:${first.format('YYYYMMDD')}`,
+      `DTEND;VALUE=DATE:${last.clone().add(1, 'day').format('YYYYMMDD')}`
+    );
+  }
+
+  const laneTitle = card.lane?.data.title;
+  lines.push(
+    `SUMMARY:${escapeText(title)}`,
+    `DESCRIPTION:${escapeText(
+      [laneTitle ? `${file.basename} › ${laneTitle}` : file.basename, url].join('\n')
+    )}`,
+    `URL:${url}`
+  );
+
+  const categories = [laneTitle, ...(data.metadata.tags || []).map((tag) => tag.replace(/^#/, ''))]
+    .filter(Boolean)
+    .map(escapeText);
+  if (categories.length) lines.push(`CATEGORIES:${categories.join(',')}`);
+
+  (data.assignedMembers || []).forEach((member) => {
+    const email = memberColors[member]?.email?.trim();
+    if (email) lines.push(`ATTENDEE;CN=${escapeParam(member)}:mailto:${email}`);
+  });
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// One VEVENT for every dated card on every board, archived cards excluded
+export function boardsToIcs(plugin: KanbanPlugin, boards: IndexedBoard[]) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Obsidian Kanban//Due dates//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(`Kanban – ${plugin.app.vault.getName()}`)}`,
+  ];
+
+  boards.forEach((board) => {
+    const boardSettings: KanbanSettings = board.board.data.settings || ({} as KanbanSettings);
+    const dateFormat = boardSettings['date-format'] || plugin.settings['date-format'];
+    const memberColors = {
+      ...(plugin.settings.teamMemberColors || {}),
+      ...(boardSettings.teamMemberColors || {}),
+    };
+
+    board.cards.forEach((card) => {
+      const event = cardToEvent(plugin, board, card, memberColors, dateFormat);
+      if (event) lines.push(...event);
+    });
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function getIcsExportPath(plugin: KanbanPlugin) {
+  const path = plugin.settings.icsExportPath?.trim() || DEFAULT_ICS_EXPORT_PATH;
+  return normalizePath(path.endsWith('.ics') ? path : `${path}.ics`);
+}
+
+// Writes the calendar file, leaving it untouched when nothing changed so sync tools and
+// calendar apps don't see a new file on every board edit. Returns the path written to.
+export async function writeIcsExport(plugin: KanbanPlugin, notify = true) {
+  const { vault } = plugin.app;
+  const path = getIcsExportPath(plugin);
+
+  try {
+    const content = boardsToIcs(plugin, await plugin.cardIndex.getBoards());
+
+    // The adapter is used directly because .ics files are only in the vault's file tree when
+    // "Detect all file extensions" is turned on
+    const exists = await vault.adapter.exists(path);
+    if (!exists || (await vault.adapter.read(path)) !== content) {
+      const folder = path.split('/').slice(0, -1).join('/');
+      if (folder && !(await vault.adapter.exists(folder))) {
+        await vault.createFolder(folder);
+      }
+      await vault.adapter.write(path, content);
+      debugLog(`[KanbanPlugin] Wrote calendar export to ${path}`);
+    }
+
+    if (notify) new Notice(`${t('Calendar exported to')} ${path}`);
+    return path;
+  } catch (e) {
+    console.error(`[KanbanPlugin] Error writing calendar export to ${path}:`, e);
+    if (notify) new Notice(t('Could not export the calendar. See the console for details.'));
+    return null;
+  }
+}
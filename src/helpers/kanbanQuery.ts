@@ -0,0 +1,349 @@
+import moment from 'moment';
+
+import { defaultSort } from './util';
+
+// Query language for the body of ```kanban``` code blocks.
+//
+// Each non-empty line is a `key: value` pair. Repeating a key (or separating values with
+// commas) ORs the values together; different keys are ANDed. Example:
+//
+//   tag: #release
+//   member: alice, bob
+//   due: <7d
+//   due: <2025-01-01
+//   lane: Doing
+//   board: Projects/
+//   sort: priority
+//   limit: 10
+//
+// An empty block body means "no query", which keeps the original behaviour of listing the
+// cards that link to the current note.
+
+export type KanbanQueryDueOperator = '<' | '<=' | '>' | '>=' | '=';
+
+export type KanbanQueryDueFilter =
+  | { kind: 'relative'; operator: KanbanQueryDueOperator; amount: number; unit: 'd' | 'w' | 'm' }
+  | { kind: 'date'; operator: KanbanQueryDueOperator; date: moment.Moment }
+  | { kind: 'today' }
+  | { kind: 'overdue' }
+  | { kind: 'none' }
+  | { kind: 'any' };
+
+export type KanbanQuerySortField = 'priority' | 'due' | 'title' | 'board' | 'lane';
+
+export interface KanbanQuerySort {
+  field: KanbanQuerySortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface KanbanQuery {
+  tags: string[];
+  members: string[];
+  lanes: string[];
+  boards: string[];
+  due?: KanbanQueryDueFilter;
+  sort?: KanbanQuerySort;
+  limit?: number;
+}
+
+export interface KanbanQueryParseResult {
+  query: KanbanQuery | null;
+  errors: string[];
+}
+
+// The minimal card shape a query can be evaluated against
+export interface KanbanQueryCandidate {
+  title: string;
+  boardName: string;
+  boardPath: string;
+  laneName: string;
+  tags?: string[];
+  assignedMembers?: string[];
+  priority?: 'high' | 'medium' | 'low';
+  metadata?: { date?: moment.Moment };
+}
+
+const queryKeys = ['tag', 'member', 'due', 'lane', 'board', 'sort', 'limit'] as const;
+const sortFields: KanbanQuerySortField[] = ['priority', 'due', 'title', 'board', 'lane'];
+const priorityRank: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+const relativeDueRegex = /^(<=|>=|<|>|=)?\s*(-?\d+)\s*([dwm])$/i;
+const absoluteDueRegex = /^(<=|>=|<|>|=)?\s*(\d{4}-\d{2}-\d{2})$/;
+
+function splitValues(value: string) {
+  return value
+    .split(',')
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0);
+}
+
+function normalizeTag(tag: string) {
+  return (tag.startsWith('#') ? tag : `#${tag}`).toLowerCase();
+}
+
+function normalizeMember(member: string) {
+  return member.replace(/^@@/, '').toLowerCase();
+}
+
+// Also used by the board search bar's due: operator
+export function parseDueFilter(value: string): KanbanQueryDueFilter | null {
+  const lower = value.toLowerCase();
+  if (lower === 'today' || lower === 'overdue' || lower === 'none' || lower === 'any') {
+    return { kind: lower } as KanbanQueryDueFilter;
+  }
+
+  const absolute = value.match(absoluteDueRegex);
+  if (absolute) {
+    const date = moment(absolute[2], 'YYYY-MM-DD', true);
+    if (!date.isValid()) return null;
+    return { kind: 'date', operator: (absolute[1] || '=') as KanbanQueryDueOperator, date };
+  }
+
+  const match = value.match(relativeDueRegex);
+  if (!match) return null;
+
+  return {
+    kind: 'relative',
+    operator: (match[1] || '=') as KanbanQueryDueOperator,
+    amount: parseInt(match[2], 10),
+    unit: match[3].toLowerCase() as 'd' | 'w' | 'm',
+  };
+}
+
+export function parseKanbanQuery(source: string): KanbanQueryParseResult {
+  const errors: string[] = [];
+  const query: KanbanQuery = { tags: [], members: [], lanes: [], boards: [] };
+  let hasClauses = false;
+
+  const lines = (source || '').split('\n');
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const lineNum = index + 1;
+    const separatorIndex = line.indexOf(':');
+    if (separatorIndex === -1) {
+      errors.push(`Line ${lineNum}: expected "key: value", got "${line}"`);
+      return;
+    }
+
+    const key = line.slice(0, separatorIndex).trim().toLowerCase();
+    const value = line.slice(separatorIndex + 1).trim();
+
+    if (!(queryKeys as readonly string[]).includes(key)) {
+      errors.push(
+        `Line ${lineNum}: unknown key "${key}". Expected one of: ${queryKeys.join(', ')}`
+      );
+      return;
+    }
+
+    if (!value) {
+      errors.push(`Line ${lineNum}: "${key}" needs a value`);
+      return;
+    }
+
+    hasClauses = true;
+
+    switch (key) {
+      case 'tag': {
+        for (const tag of splitValues(value)) {
+          if (!/^#?[^\s#]+$/.test(tag)) {
+            errors.push(`Line ${lineNum}: "${tag}" is not a valid tag`);
+            continue;
+          }
+          query.tags.push(normalizeTag(tag));
+        }
+        break;
+      }
+      case 'member': {
+        query.members.push(...splitValues(value).map(normalizeMember));
+        break;
+      }
+      case 'lane': {
+        query.lanes.push(...splitValues(value).map((v) => v.toLowerCase()));
+        break;
+      }
+      case 'board': {
+        query.boards.push(...splitValues(value).map((v) => v.toLowerCase()));
+        break;
+      }
+      case 'due': {
+        if (query.due) {
+          errors.push(`Line ${lineNum}: "due" can only be specified once`);
+          break;
+        }
+        const due = parseDueFilter(value);
+        if (!due) {
+          errors.push(
+            `Line ${lineNum}: invalid due filter "${value}". Use e.g. <7d, >=2w, =0d, <2025-01-01, today, overdue, none or any`
+          );
+          break;
+        }
+        query.due = due;
+        break;
+      }
+      case 'sort': {
+        const [field, direction, ...rest] = value.toLowerCase().split(/\s+/);
+        if (!sortFields.includes(field as KanbanQuerySortField)) {
+          errors.push(
+            `Line ${lineNum}: cannot sort by "${field}". Expected one of: ${sortFields.join(', ')}`
+          );
+          break;
+        }
+        if ((direction && direction !== 'asc' && direction !== 'desc') || rest.length) {
+          errors.push(`Line ${lineNum}: sort direction must be "asc" or "desc"`);
+          break;
+        }
+        query.sort = {
+          field: field as KanbanQuerySortField,
+          direction: (direction as 'asc' | 'desc') || 'asc',
+        };
+        break;
+      }
+      case 'limit': {
+        const limit = Number(value);
+        if (!Number.isInteger(limit) || limit <= 0) {
+          errors.push(`Line ${lineNum}: limit must be a positive whole number`);
+          break;
+        }
+        query.limit = limit;
+        break;
+      }
+    }
+  });
+
+  return { query: hasClauses ? query : null, errors };
+}
+
+// Boards can be narrowed before they are read from disk
+export function boardMatchesKanbanQuery(boardPath: string, query: KanbanQuery) {
+  if (!query.boards.length) return true;
+
+  const path = boardPath.toLowerCase();
+  const pathWithoutExt = path.replace(/\.md$/, '');
+  const basename = pathWithoutExt.split('/').pop();
+
+  return query.boards.some((board) => {
+    // A trailing slash selects every board inside that folder
+    if (board.endsWith('/')) return path.startsWith(board);
+    return board === basename || board === path || board === pathWithoutExt;
+  });
+}
+
+function compareDay(date: moment.Moment, target: moment.Moment, operator: KanbanQueryDueOperator) {
+  switch (operator) {
+    case '<':
+      return date.isBefore(target, 'day');
+    case '<=':
+      return date.isSameOrBefore(target, 'day');
+    case '>':
+      return date.isAfter(target, 'day');
+    case '>=':
+      return date.isSameOrAfter(target, 'day');
+    case '=':
+      return date.isSame(target, 'day');
+  }
+}
+
+export function dueMatches(date: moment.Moment | undefined, filter: KanbanQueryDueFilter) {
+  if (filter.kind === 'none') return !date;
+  if (!date) return false;
+
+  const today = moment().startOf('day');
+
+  switch (filter.kind) {
+    case 'any':
+      return true;
+    case 'today':
+      return date.isSame(today, 'day');
+    case 'overdue':
+      return date.isBefore(today, 'day');
+    case 'date':
+      return compareDay(date, filter.date, filter.operator);
+    case 'relative': {
+      const target = today.clone().add(filter.amount, filter.unit === 'm' ? 'M' : filter.unit);
+      return compareDay(date, target, filter.operator);
+    }
+  }
+}
+
+export function matchesKanbanQuery(card: KanbanQueryCandidate, query: KanbanQuery) {
+  if (!boardMatchesKanbanQuery(card.boardPath, query)) return false;
+
+  if (query.lanes.length && !query.lanes.includes(card.laneName.toLowerCase())) {
+    return false;
+  }
+
+  if (query.tags.length) {
+    const cardTags = (card.tags || []).map((t) => t.toLowerCase());
+    // Parent tags also match nested tags, e.g. #project matches #project/alpha
+    const hasTag = query.tags.some((tag) =>
+      cardTags.some((cardTag) => cardTag === tag || cardTag.startsWith(`${tag}/`))
+    );
+    if (!hasTag) return false;
+  }
+
+  if (query.members.length) {
+    const cardMembers = (card.assignedMembers || []).map(normalizeMember);
+    if (!query.members.some((member) => cardMembers.includes(member))) return false;
+  }
+
+  if (query.due && !dueMatches(card.metadata?.date, query.due)) return false;
+
+  return true;
+}
+
+function compareCards(a: KanbanQueryCandidate, b: KanbanQueryCandidate, sort: KanbanQuerySort) {
+  switch (sort.field) {
+    case 'priority': {
+      const aRank = a.priority ? priorityRank[a.priority] : 3;
+      const bRank = b.priority ? priorityRank[b.priority] : 3;
+      return aRank - bRank;
+    }
+    case 'due': {
+      const aDate = a.metadata?.date;
+      const bDate = b.metadata?.date;
+      if (!aDate && !bDate) return 0;
+      if (!aDate) return 1;
+      if (!bDate) return -1;
+      return aDate.valueOf() - bDate.valueOf();
+    }
+    case 'title':
+      return defaultSort(a.title, b.title);
+    case 'board':
+      return defaultSort(a.boardName, b.boardName);
+    case 'lane':
+      return defaultSort(a.laneName, b.laneName);
+  }
+}
+
+// Applies the query's sort and limit. Cards without a value for the sort field stay last
+// regardless of direction.
+export function orderKanbanQueryResults<T extends KanbanQueryCandidate>(
+  cards: T[],
+  query: KanbanQuery
+): T[] {
+  let ordered = cards;
+
+  if (query.sort) {
+    const { sort } = query;
+    const hasValue = (card: T) =>
+      sort.field === 'priority'
+        ? !!card.priority
+        : sort.field === 'due'
+          ? !!card.metadata?.date
+          : true;
+
+    ordered = [...cards].sort((a, b) => {
+      const aHas = hasValue(a);
+      const bHas = hasValue(b);
+      if (aHas !== bHas) return aHas ? -1 : 1;
+
+      const result = compareCards(a, b, sort);
+      return sort.direction === 'desc' ? -result : result;
+    });
+  }
+
+  return query.limit ? ordered.slice(0, query.limit) : ordered;
+}
@@ -0,0 +1,119 @@
+import { Notice, ObsidianProtocolData, TFile, moment } from 'obsidian';
+
+import { hasFrontmatterKey } from '../helpers';
+import { t } from '../lang/helpers';
+import KanbanPlugin from '../main';
+import { debugLog } from './debugLogger';
+import { openCardInBoard } from './openCard';
+
+export const KANBAN_URI_ACTION = 'kanban';
+
+// Links straight to a card on its board, e.g. from reminder emails or calendar events
+export function buildCardUri(vaultName: string, boardPath: string, blockId: string) {
+  const params = [
+    ['vault', vaultName],
+    ['board', boardPath],
+    ['block', blockId],
+  ]
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&');
+
+  return `obsidian://${KANBAN_URI_ACTION}?action=open&${params}`;
+}
+
+// Accepts the full path, the path without .md, or anything a wikilink to the board would
+function resolveBoard(plugin: KanbanPlugin, board?: string) {
+  if (!board) return null;
+
+  const { vault, metadataCache } = plugin.app;
+  const file =
+    vault.getAbstractFileByPath(board) ||
+    vault.getAbstractFileByPath(`${board}.md`) ||
+    metadataCache.getFirstLinkpathDest(board, '');
+
+  return file instanceof TFile && hasFrontmatterKey(file) ? file : null;
+}
+
+function parseDate(value?: string) {
+  if (!value) return undefined;
+
+  const keyword = value.trim().toLowerCase();
+  if (keyword === 'today') return moment().startOf('day');
+  if (keyword === 'tomorrow') return moment().add(1, 'day').startOf('day');
+
+  const date = moment(value.trim(), moment.ISO_8601, true);
+  if (!date.isValid()) throw new Error(`Invalid date "${value}", use YYYY-MM-DD`);
+  return date;
+}
+
+function parseTime(value?: string) {
+  if (!value) return undefined;
+
+  const time = moment(value.trim(), ['HH:mm', 'H:mm', 'h:mm a', 'h:mma', 'ha'], true);
+  if (!time.isValid()) throw new Error(`Invalid time "${value}", use HH:mm`);
+  return time;
+}
+
+function splitList(value?: string) {
+  return (value || '')
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+function isTruthy(value?: string) {
+  return value === '' || value === 'true' || value === '1';
+}
+
+// obsidian://kanban?action=add&board=...&lane=...&text=...&due=...&member=...&tag=...
+async function addCardFromUri(plugin: KanbanPlugin, params: ObsidianProtocolData) {
+  const file = resolveBoard(plugin, params.board);
+  if (!file) throw new Error(`${t('Could not find the board')} "${params.board || ''}"`);
+  if (!params.text?.trim()) throw new Error('The "text" parameter is required');
+
+  const blockId = await plugin.api.addCard(file.path, params.lane?.trim() || 0, params.text, {
+    dueDate: parseDate(params.due),
+    startDate: parseDate(params.start),
+    time: parseTime(params.time),
+    members: splitList(params.member),
+    tags: splitList(params.tag),
+  });
+
+  new Notice(`${t('Card added to')} ${file.basename}`);
+  if (isTruthy(params.open)) {
+    await openCardInBoard(plugin.app, { boardPath: file.path, blockId });
+  }
+}
+
+// obsidian://kanban?action=open&board=...&block=...
+async function openCardFromUri(plugin: KanbanPlugin, params: ObsidianProtocolData) {
+  const file = resolveBoard(plugin, params.board);
+  if (!file) throw new Error(`${t('Could not find the board')} "${params.board || ''}"`);
+
+  await openCardInBoard(plugin.app, {
+    boardPath: file.path,
+    blockId: params.block?.replace(/^\^/, '') || undefined,
+  });
+}
+
+export async function handleKanbanUri(plugin: KanbanPlugin, params: ObsidianProtocolData) {
+  debugLog('[KanbanPlugin] Handling kanban URI', params);
+
+  // Obsidian also reports the URI's own name as `action`. If that hides ours, a link with
+  // text can only be meant to add a card.
+  const action =
+    params.action === KANBAN_URI_ACTION ? (params.text ? 'add' : 'open') : params.action;
+
+  try {
+    if (action === 'add') {
+      await addCardFromUri(plugin, params);
+    } else if (action === 'open') {
+      await openCardFromUri(plugin, params);
+    } else {
+      throw new Error(`${t('Unknown kanban link action')} "${action}"`);
+    }
+  } catch (e) {
+    console.error('[KanbanPlugin] Error handling kanban URI:', e);
+    new Notice(e.message, 8000);
+  }
+}
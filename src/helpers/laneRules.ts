@@ -0,0 +1,205 @@
+import update from 'immutability-helper';
+import { moment } from 'obsidian';
+
+import { StateManager } from '../StateManager';
+import { escapeRegExpStr } from '../components/helpers';
+import { Item, Lane } from '../components/types';
+import { buildLinkToDailyNote } from '../helpers';
+import { getTaskStatusDone } from '../parsers/helpers/inlineMetadata';
+import { debugLog } from './debugLogger';
+
+export type LaneRuleTrigger = 'enter' | 'leave';
+
+export type LaneRuleAction =
+  | 'add-tag'
+  | 'remove-tag'
+  | 'assign-member'
+  | 'unassign-member'
+  | 'set-priority'
+  | 'set-start-date'
+  | 'set-due-date'
+  | 'clear-date'
+  | 'check'
+  | 'uncheck';
+
+export interface LaneRule {
+  trigger: LaneRuleTrigger;
+  action: LaneRuleAction;
+  // Tag, member or priority the action uses; unused by the date and checkbox actions
+  value?: string;
+}
+
+export const laneRuleActions: LaneRuleAction[] = [
+  'add-tag',
+  'remove-tag',
+  'assign-member',
+  'unassign-member',
+  'set-priority',
+  'set-start-date',
+  'set-due-date',
+  'clear-date',
+  'check',
+  'uncheck',
+];
+
+export function laneRuleHasValue(action: LaneRuleAction) {
+  return (
+    action === 'add-tag' ||
+    action === 'remove-tag' ||
+    action === 'assign-member' ||
+    action === 'unassign-member' ||
+    action === 'set-priority'
+  );
+}
+
+// Rules are stored in the board settings, keyed by lane ID
+export function getLaneRules(stateManager: StateManager, lane?: Lane): LaneRule[] {
+  if (!lane) return [];
+  return stateManager.getSetting('lane-rules')?.[lane.id] || [];
+}
+
+function wordRegex(word: string) {
+  return new RegExp(`(^|[ \\t])${escapeRegExpStr(word)}(?=\\s|$)`, 'gim');
+}
+
+// Metadata is added to the first line so it doesn't end up inside a card's subtasks
+function appendToFirstLine(titleRaw: string, text: string) {
+  const lines = titleRaw.split('\n');
+  lines[0] = lines[0].trim() ? `${lines[0].replace(/\s+$/, '')} ${text}` : text;
+  return lines.join('\n');
+}
+
+function removeWord(titleRaw: string, word: string) {
+  return titleRaw.replace(wordRegex(word), '').replace(/^[ \t]+/, '');
+}
+
+function addWord(titleRaw: string, word: string) {
+  return wordRegex(word).test(titleRaw) ? titleRaw : appendToFirstLine(titleRaw, word);
+}
+
+function normalizeTag(tag: string) {
+  return `#${tag.trim().replace(/^#/, '')}`;
+}
+
+function normalizeMember(stateManager: StateManager, member: string) {
+  const prefix = stateManager.getSetting('memberAssignmentPrefix') || '@@';
+  const name = member.trim();
+  return name.startsWith(prefix) ? name : `${prefix}${name}`;
+}
+
+const priorityRegex = /(^|[ \t])!(?:low|medium|high)(?=\s|$)/gim;
+
+function setPriority(titleRaw: string, priority: string) {
+  const cleaned = titleRaw.replace(priorityRegex, '').replace(/^[ \t]+/, '');
+  const value = priority.trim().replace(/^!/, '').toLowerCase();
+  if (value !== 'low' && value !== 'medium' && value !== 'high') return cleaned;
+  return appendToFirstLine(cleaned, `!${value}`);
+}
+
+function getDueDateRegex(stateManager: StateManager) {
+  const dateTrigger = escapeRegExpStr(stateManager.getSetting('date-trigger'));
+  const timeTrigger = escapeRegExpStr(stateManager.getSetting('time-trigger'));
+  return new RegExp(
+    `(^|[ \\t])${dateTrigger}(?:\\{[^}]+\\}|\\[\\[[^\\]]+\\]\\])(?:[ \\t]*${timeTrigger}\\{[^}]+\\})?`,
+    'gm'
+  );
+}
+
+function getStartDateRegex(stateManager: StateManager) {
+  const dateTrigger = escapeRegExpStr(stateManager.getSetting('date-trigger'));
+  return new RegExp(`(^|[ \\t])${dateTrigger}start\\{[^}]+\\}`, 'gm');
+}
+
+function clearDueDate(stateManager: StateManager, titleRaw: string) {
+  return titleRaw.replace(getDueDateRegex(stateManager), '').replace(/^[ \t]+/, '');
+}
+
+function stampDate(stateManager: StateManager, titleRaw: string, isStart: boolean) {
+  const dateTrigger = stateManager.getSetting('date-trigger');
+  const today = moment().format(stateManager.getSetting('date-format'));
+
+  if (isStart) {
+    const cleaned = titleRaw.replace(getStartDateRegex(stateManager), '').replace(/^[ \t]+/, '');
+    return appendToFirstLine(cleaned, `${dateTrigger}start{${today}}`);
+  }
+
+  const wrappedDate = stateManager.getSetting('link-date-to-daily-note')
+    ? buildLinkToDailyNote(stateManager.app, today)
+    : `{${today}}`;
+  return appendToFirstLine(clearDueDate(stateManager, titleRaw), `${dateTrigger}${wrappedDate}`);
+}
+
+function applyRuleToTitle(stateManager: StateManager, titleRaw: string, rule: LaneRule) {
+  const value = rule.value?.trim() || '';
+
+  switch (rule.action) {
+    case 'add-tag':
+      return value ? addWord(titleRaw, normalizeTag(value)) : titleRaw;
+    case 'remove-tag':
+      return value ? removeWord(titleRaw, normalizeTag(value)) : titleRaw;
+    case 'assign-member':
+      return value ? addWord(titleRaw, normalizeMember(stateManager, value)) : titleRaw;
+    case 'unassign-member':
+      return value ? removeWord(titleRaw, normalizeMember(stateManager, value)) : titleRaw;
+    case 'set-priority':
+      return setPriority(titleRaw, value);
+    case 'set-start-date':
+      return stampDate(stateManager, titleRaw, true);
+    case 'set-due-date':
+      return stampDate(stateManager, titleRaw, false);
+    case 'clear-date':
+      return clearDueDate(stateManager, titleRaw);
+    default:
+      return titleRaw;
+  }
+}
+
+// Applies the leave rules of the card's old lane followed by the enter rules of its new lane.
+// The lanes may belong to different boards, so each lane's rules are read from its own board;
+// the card is rewritten using the destination board's date and member settings.
+export function applyLaneMoveRules(
+  sourceStateManager: StateManager,
+  sourceLane: Lane | undefined,
+  destinationStateManager: StateManager,
+  destinationLane: Lane | undefined,
+  item: Item
+): Item {
+  if (sourceStateManager === destinationStateManager && sourceLane?.id === destinationLane?.id) {
+    return item;
+  }
+
+  const rules = [
+    ...getLaneRules(sourceStateManager, sourceLane).filter((rule) => rule.trigger === 'leave'),
+    ...getLaneRules(destinationStateManager, destinationLane).filter(
+      (rule) => rule.trigger === 'enter'
+    ),
+  ];
+
+  if (!rules.length) return item;
+
+  debugLog(
+    `[LaneRules] Applying ${rules.length} rule(s) to "${item.data.title}" moving from "${sourceLane?.data.title}" to "${destinationLane?.data.title}"`
+  );
+
+  let next = item;
+  let titleRaw = item.data.titleRaw;
+
+  for (const rule of rules) {
+    if (rule.action === 'check' || rule.action === 'uncheck') {
+      const checked = rule.action === 'check';
+      next = update(next, {
+        data: {
+          checked: { $set: checked },
+          checkChar: { $set: checked ? getTaskStatusDone() : ' ' },
+        },
+      });
+      continue;
+    }
+
+    titleRaw = applyRuleToTitle(destinationStateManager, titleRaw, rule);
+  }
+
+  return titleRaw === next.data.titleRaw
+    ? next
+    : destinationStateManager.updateItemContent(next, titleRaw);
+}
@@ -0,0 +1,113 @@
+import { KanbanSettings } from '../Settings';
+import { escapeRegExpStr, generateInstanceId } from '../components/helpers';
+
+// How a card is placed in a Member view column: by one of its tags, by the title of the lane
+// it is in on its own board, by being checked, or by matching none of the other columns
+export type MemberColumnMatch = 'tag' | 'lane' | 'checked' | 'none';
+
+export interface MemberColumnConfig {
+  id: string;
+  title: string;
+  match: MemberColumnMatch;
+  // The tag for 'tag' columns, or the lane title pattern for 'lane' columns. Lane patterns are
+  // case-insensitive and may use * as a wildcard, e.g. "Review*"
+  value?: string;
+  // Whether the column's cards count toward team member WIP limits
+  countsTowardWip?: boolean;
+}
+
+export const DEFAULT_MEMBER_COLUMNS: MemberColumnConfig[] = [
+  { id: 'backlog', title: 'Backlog', match: 'none' },
+  { id: 'doing', title: 'Doing', match: 'tag', value: 'doing', countsTowardWip: true },
+  { id: 'done', title: 'Done', match: 'checked' },
+];
+
+export function createMemberColumn(): MemberColumnConfig {
+  return { id: generateInstanceId(), title: '', match: 'tag', value: '' };
+}
+
+export function getMemberColumns(settings: KanbanSettings): MemberColumnConfig[] {
+  const columns = settings['member-view-columns']?.filter((column) => column?.id);
+  return columns?.length ? columns : DEFAULT_MEMBER_COLUMNS;
+}
+
+export function normalizeColumnTag(tag?: string) {
+  return (tag || '').trim().replace(/^#/, '').toLowerCase();
+}
+
+// Columns saved before the flag existed keep counting the #doing column only
+export function isWipColumn(column?: MemberColumnConfig) {
+  if (!column) return false;
+  if (column.countsTowardWip !== undefined) return column.countsTowardWip;
+  return column.match === 'tag' && normalizeColumnTag(column.value) === 'doing';
+}
+
+export function laneMatchesPattern(laneTitle: string | undefined, pattern?: string) {
+  if (!laneTitle || !pattern?.trim()) return false;
+
+  const source = pattern
+    .trim()
+    .split('*')
+    .map((part) => escapeRegExpStr(part))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i').test(laneTitle.trim());
+}
+
+export interface MemberColumnCard {
+  checked: boolean;
+  tags: string[];
+  laneTitle?: string;
+}
+
+// Checked cards go to the first checked column, then tags and lane titles are tried in column
+// order. Anything left over goes to the first 'none' column, or the first column if there isn't one.
+export function getMemberCardColumn(
+  columns: MemberColumnConfig[],
+  card: MemberColumnCard
+): MemberColumnConfig {
+  const tags = card.tags.map(normalizeColumnTag);
+
+  const match =
+    (card.checked && columns.find((column) => column.match === 'checked')) ||
+    (!card.checked &&
+      columns.find((column) => {
+        if (column.match === 'tag') return tags.includes(normalizeColumnTag(column.value));
+        if (column.match === 'lane') return laneMatchesPattern(card.laneTitle, column.value);
+        return false;
+      })) ||
+    columns.find((column) => column.match === 'none');
+
+  return match || columns[0];
+}
+
+function getTagRegex(tag: string) {
+  return new RegExp(`(^|[ \\t])#${escapeRegExpStr(tag)}(?=\\s|$)`, 'gim');
+}
+
+// Removes the tags of every other tag column and adds the target column's tag. New tags go on the
+// first line, before a trailing block ID, so they don't end up inside a card's subtasks.
+export function applyMemberColumnTags(
+  titleRaw: string,
+  columns: MemberColumnConfig[],
+  target: MemberColumnConfig
+) {
+  let result = titleRaw;
+  const targetTag = target.match === 'tag' ? normalizeColumnTag(target.value) : '';
+
+  columns.forEach((column) => {
+    const tag = column.match === 'tag' ? normalizeColumnTag(column.value) : '';
+    if (tag && tag !== targetTag) {
+      result = result.replace(getTagRegex(tag), '');
+    }
+  });
+
+  if (targetTag && !getTagRegex(targetTag).test(result)) {
+    const lines = result.split('\n');
+    const [, content, blockId] = lines[0].match(/^(.*?)(\s+\^[a-zA-Z0-9-]+)?$/);
+    const tag = target.value.trim().replace(/^#/, '');
+    lines[0] = `${content.replace(/\s+$/, '')} #${tag}${blockId || ''}`;
+    result = lines.join('\n');
+  }
+
+  return result;
+}
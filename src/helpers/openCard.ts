@@ -0,0 +1,47 @@
+import { App, PaneType, WorkspaceLeaf } from 'obsidian';
+
+import { KanbanView, kanbanViewType } from '../KanbanView';
+import { debugLog } from './debugLogger';
+
+export interface CardLocation {
+  boardPath: string;
+  blockId?: string;
+  // Used to find cards without a block ID
+  title?: string;
+  laneName?: string;
+}
+
+// Opens the card's board, reusing a tab that already shows it, and highlights the card.
+// Passing a pane type always opens the board in a new tab, split or window instead.
+export async function openCardInBoard(app: App, card: CardLocation, paneType?: PaneType) {
+  const eState = {
+    filePath: card.boardPath,
+    blockId: card.blockId,
+    cardTitle: !card.blockId ? card.title : undefined,
+    listName: !card.blockId ? card.laneName : undefined,
+  };
+
+  let existingLeaf: WorkspaceLeaf | null = null;
+  if (!paneType) {
+    app.workspace.getLeavesOfType(kanbanViewType).forEach((leaf) => {
+      if (leaf.view instanceof KanbanView && leaf.view.file?.path === card.boardPath) {
+        existingLeaf = leaf;
+      }
+    });
+  }
+
+  if (existingLeaf) {
+    debugLog(`[openCardInBoard] Activating existing view for ${card.boardPath}`, eState);
+    app.workspace.setActiveLeaf(existingLeaf, { focus: true });
+    const kanbanView = (existingLeaf as WorkspaceLeaf).view as KanbanView;
+    kanbanView.setState({ eState }, { history: true });
+    // Give setState a moment to process before highlighting
+    setTimeout(() => kanbanView.applyHighlight?.(), 150);
+    return;
+  }
+
+  const linkPath = card.blockId ? `${card.boardPath}#^${card.blockId}` : card.boardPath;
+  await app.workspace.openLinkText(linkPath, card.boardPath, paneType || 'tab', {
+    state: { file: card.boardPath, eState },
+  });
+}
@@ -0,0 +1,248 @@
+import update from 'immutability-helper';
+import { moment } from 'obsidian';
+import { RRule } from 'rrule';
+
+import { StateManager } from '../StateManager';
+import { escapeRegExpStr, generateInstanceId } from '../components/helpers';
+import { Board, Item, Lane } from '../components/types';
+import { buildLinkToDailyNote } from '../helpers';
+import { stripActivityLog } from './activityLog';
+import { debugLog } from './debugLogger';
+import { stripTimeLog } from './timeTracking';
+
+export interface CardRecurrence {
+  rule: string;
+  // "when done" rules repeat from the completion date instead of the card's date
+  whenDone: boolean;
+}
+
+interface CardDateMatch {
+  start: number;
+  end: number;
+  date: moment.Moment;
+  format: string;
+}
+
+// Matches the Tasks plugin recurrence shorthand, e.g. "🔁 every week when done"
+const recurrenceRegex = /🔁\uFE0F? *([a-zA-Z0-9; !]+)/u;
+const whenDoneRegex = /\s*when done\s*$/i;
+const taskDateRegex = /([📅📆🗓🛫⏳⌛])\uFE0F? *(\d{4}-\d{2}-\d{2})/gu;
+const doneDateRegex = /\s*✅\uFE0F? *\d{4}-\d{2}-\d{2}/gu;
+
+function toUTCDate(date: moment.Moment) {
+  return new Date(Date.UTC(date.year(), date.month(), date.date()));
+}
+
+function fromUTCDate(date: Date) {
+  return moment({
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth(),
+    date: date.getUTCDate(),
+  });
+}
+
+export function getCardRecurrence(item: Item): CardRecurrence | null {
+  const inlineRepeat = item.data.metadata.inlineMetadata?.find((field) => field.key === 'repeat');
+  const source = inlineRepeat?.value ?? item.data.titleRaw.match(recurrenceRegex)?.[1];
+  if (!source) return null;
+
+  const text = String(source).trim();
+  const rule = text.replace(whenDoneRegex, '').trim();
+  if (!rule) return null;
+
+  return { rule, whenDone: whenDoneRegex.test(text) };
+}
+
+// Returns the first occurrence of the rule strictly after the given day
+export function getNextOccurrence(rule: string, after: moment.Moment): moment.Moment | null {
+  try {
+    const options = RRule.parseText(rule);
+    if (!options || options.freq === undefined) return null;
+
+    const start = toUTCDate(after);
+    const next = new RRule({ ...options, dtstart: start }).after(start, false);
+    return next ? fromUTCDate(next) : null;
+  } catch (e) {
+    console.error(`[RecurringCards] Could not parse recurrence rule "${rule}":`, e);
+    return null;
+  }
+}
+
+// Finds every date in the card's markdown: the board's own date syntax (@{...}, @start{...},
+// @[[...]]) as well as the Tasks plugin emoji dates.
+function findCardDates(stateManager: StateManager, titleRaw: string): CardDateMatch[] {
+  const dateFormat = stateManager.getSetting('date-format');
+  const dateTrigger = escapeRegExpStr(stateManager.getSetting('date-trigger'));
+  const triggerRegex = new RegExp(`${dateTrigger}\\w*(?:\\{([^}]+)\\}|\\[\\[([^\\]]+)\\]\\])`, 'g');
+
+  const matches: CardDateMatch[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = triggerRegex.exec(titleRaw)) !== null) {
+    const value = match[1] ?? match[2];
+    const date = moment(value, dateFormat, true);
+    // Time fields share the trigger syntax, so only keep values that parse as dates
+    if (!date.isValid()) continue;
+
+    const start = match.index + match[0].lastIndexOf(value);
+    matches.push({ start, end: start + value.length, date, format: dateFormat });
+  }
+
+  while ((match = taskDateRegex.exec(titleRaw)) !== null) {
+    const value = match[2];
+    const start = match.index + match[0].length - value.length;
+    matches.push({
+      start,
+      end: start + value.length,
+      date: moment(value, 'YYYY-MM-DD', true),
+      format: 'YYYY-MM-DD',
+    });
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+// Builds the markdown for the next instance of a recurring card. Every date on the card is
+// shifted by the same number of days as its due date, so start and due dates keep their
+// distance. Cards without any date get a due date for the next occurrence.
+export function getNextRecurringTitle(stateManager: StateManager, item: Item): string | null {
+  const recurrence = getCardRecurrence(item);
+  if (!recurrence) return null;
+
+  // The next instance starts its own history and time log, so it gets a fresh "created"
+  // event and no time tracked on earlier occurrences
+  const titleRaw = stripTimeLog(stripActivityLog(item.data.titleRaw)).replace(doneDateRegex, '');
+  const dates = findCardDates(stateManager, titleRaw);
+  const dueDate = item.data.metadata.date;
+  const reference = (dueDate?.isValid() ? dueDate : dates[0]?.date)?.clone().startOf('day');
+  const today = moment().startOf('day');
+
+  const next = getNextOccurrence(
+    recurrence.rule,
+    recurrence.whenDone || !reference ? today : reference
+  );
+
+  if (!next) {
+    debugLog(`[RecurringCards] Rule "${recurrence.rule}" has no further occurrences`);
+    return null;
+  }
+
+  if (!reference) {
+    const formattedDate = next.format(stateManager.getSetting('date-format'));
+    const wrappedDate = stateManager.getSetting('link-date-to-daily-note')
+      ? buildLinkToDailyNote(stateManager.app, formattedDate)
+      : `{${formattedDate}}`;
+    return `${titleRaw} ${stateManager.getSetting('date-trigger')}${wrappedDate}`;
+  }
+
+  const offset = next.diff(reference, 'days');
+  let nextTitle = titleRaw;
+
+  // Replace from the end so earlier indices stay valid
+  for (const date of [...dates].reverse()) {
+    const shifted = date.date.clone().add(offset, 'days').format(date.format);
+    nextTitle = nextTitle.slice(0, date.start) + shifted + nextTitle.slice(date.end);
+  }
+
+  return nextTitle;
+}
+
+function findItem(board: Board, itemId: string) {
+  for (let laneIndex = 0; laneIndex < board.children.length; laneIndex++) {
+    const itemIndex = board.children[laneIndex].children.findIndex((item) => item.id === itemId);
+    if (itemIndex !== -1) {
+      return { laneIndex, itemIndex, item: board.children[laneIndex].children[itemIndex] };
+    }
+  }
+  return null;
+}
+
+function getTargetLaneIndex(stateManager: StateManager, board: Board, sourceLane: Lane) {
+  const targetLaneTitle = stateManager.getSetting('recurring-card-lane')?.trim();
+
+  if (targetLaneTitle) {
+    const targetIndex = board.children.findIndex(
+      (lane) => lane.data.title.toLowerCase() === targetLaneTitle.toLowerCase()
+    );
+    if (targetIndex !== -1) return targetIndex;
+
+    debugLog(
+      `[RecurringCards] Lane "${targetLaneTitle}" not found, using the card's original lane instead`
+    );
+  }
+
+  return board.children.findIndex((lane) => lane.id === sourceLane.id);
+}
+
+// Adds the next instance of a just-completed recurring card to the board, and archives the
+// completed instance if the board is configured to. Returns the board unchanged for cards
+// without a repeat rule. `sourceLane` is the lane the card was in before it was completed,
+// since auto-move may already have moved it to the done lane.
+export function addRecurringInstance(
+  stateManager: StateManager,
+  board: Board,
+  itemId: string,
+  sourceLane: Lane
+): Board {
+  const found = findItem(board, itemId);
+  if (!found) return board;
+
+  const nextTitle = getNextRecurringTitle(stateManager, found.item);
+  if (nextTitle === null) return board;
+
+  const template = update(found.item, {
+    id: { $set: generateInstanceId() },
+    data: {
+      blockId: { $set: undefined },
+      checked: { $set: false },
+      checkChar: { $set: ' ' },
+    },
+  });
+  const nextItem = stateManager.updateItemContent(template, nextTitle);
+
+  let targetLaneIndex = getTargetLaneIndex(stateManager, board, sourceLane);
+  let newBoard = board;
+
+  if (targetLaneIndex === -1) {
+    // The original lane is gone too, so keep the next instance next to the completed one
+    targetLaneIndex = found.laneIndex;
+  }
+
+  const shouldArchive = stateManager.getSetting('recurring-card-completed-action') === 'archive';
+
+  if (shouldArchive) {
+    newBoard = update(newBoard, {
+      children: {
+        [found.laneIndex]: { children: { $splice: [[found.itemIndex, 1]] } },
+      },
+      data: {
+        archive: {
+          $push: [
+            stateManager.getSetting('archive-with-date')
+              ? stateManager.appendArchiveDate(found.item)
+              : found.item,
+          ],
+        },
+      },
+    });
+  }
+
+  // In the same lane the new instance takes the completed card's place, otherwise it follows
+  // the board's insertion setting
+  const insertIndex =
+    targetLaneIndex === found.laneIndex
+      ? found.itemIndex
+      : stateManager.getSetting('new-card-insertion-method') === 'append'
+        ? newBoard.children[targetLaneIndex].children.length
+        : 0;
+
+  debugLog(
+    `[RecurringCards] Adding next instance of "${found.item.data.title}" to lane "${newBoard.children[targetLaneIndex].data.title}"`
+  );
+
+  return update(newBoard, {
+    children: {
+      [targetLaneIndex]: { children: { $splice: [[insertIndex, 0, nextItem]] } },
+    },
+  });
+}
@@ -0,0 +1,294 @@
+import { TFile, htmlToMarkdown, moment, normalizePath } from 'obsidian';
+
+import { KanbanSettings } from '../Settings';
+import KanbanPlugin from '../main';
+
+export interface TaskForEmail {
+  title: string;
+  boardName: string;
+  boardPath: string;
+  dueDate?: string; // Make optional to support tasks without due dates
+  tags?: string[];
+  priority?: 'high' | 'medium' | 'low';
+  laneName: string;
+  blockId?: string; // Used for direct card linking
+}
+
+export interface ReminderEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface ReminderTemplate {
+  body: string;
+  isHtml: boolean;
+  subject: string;
+}
+
+export const DEFAULT_REMINDER_SUBJECT = 'Kanban Task Reminders - Due Soon';
+export const DEFAULT_REMINDER_TEMPLATE_PATH = 'Kanban Reminder Template.md';
+
+export const DEFAULT_REMINDER_TEMPLATE = `Hi {{member}},
+
+Here is your Kanban summary for {{date}}.
+
+{{overdue}}
+
+{{tasks}}
+
+{{no-due-date}}
+
+Regards,
+Your Kanban Plugin
+`;
+
+// Placeholders that expand to grouped task lists and so stand on a line of their own
+const blockPlaceholders = ['tasks', 'overdue', 'no-due-date'];
+const placeholderRegex = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function getTimeframeText(timeframeDays: number) {
+  if (timeframeDays > 0 && timeframeDays % 7 === 0) {
+    const weeks = timeframeDays / 7;
+    return weeks === 1 ? 'week' : `${weeks} weeks`;
+  }
+  return timeframeDays === 1 ? 'day' : `${timeframeDays} days`;
+}
+
+export function getMemberNamesForEmail(settings: KanbanSettings, email: string) {
+  return Object.entries(settings.teamMemberColors || {})
+    .filter(([, config]) => config.email === email)
+    .map(([member]) => member);
+}
+
+function getDueInText(dueDate: string) {
+  const daysUntilDue = moment(dueDate).diff(moment().startOf('day'), 'days');
+  if (daysUntilDue < 0) {
+    const overdueDays = Math.abs(daysUntilDue);
+    return `overdue by ${overdueDays} day${overdueDays === 1 ? '' : 's'}`;
+  } else if (daysUntilDue === 0) {
+    return 'today';
+  } else if (daysUntilDue === 1) {
+    return '1 day';
+  }
+  return `${daysUntilDue} days`;
+}
+
+function isOverdue(task: TaskForEmail) {
+  return !!task.dueDate && moment(task.dueDate).isBefore(moment().startOf('day'), 'day');
+}
+
+// Groups tasks by board and then by lane, keeping the order in which they were given
+function groupTasks(tasks: TaskForEmail[]) {
+  const boards = new Map<string, { name: string; lanes: Map<string, TaskForEmail[]> }>();
+
+  for (const task of tasks) {
+    if (!boards.has(task.boardPath)) {
+      boards.set(task.boardPath, { name: task.boardName, lanes: new Map() });
+    }
+
+    const { lanes } = boards.get(task.boardPath);
+    if (!lanes.has(task.laneName)) {
+      lanes.set(task.laneName, []);
+    }
+    lanes.get(task.laneName).push(task);
+  }
+
+  return boards;
+}
+
+function renderTaskSection(
+  plugin: KanbanPlugin,
+  heading: string,
+  tasks: TaskForEmail[],
+  isHtml: boolean
+) {
+  if (!tasks.length) return '';
+
+  const groups = groupTasks(tasks);
+  let out = isHtml
+    ? `<h3>${escapeHtml(heading)} (${tasks.length})</h3>`
+    : `--- ${heading} (${tasks.length}) ---\n\n`;
+
+  groups.forEach(({ name, lanes }, boardPath) => {
+    const boardLink = plugin.createBoardLink(name, boardPath, isHtml);
+    out += isHtml ? `<h4>${boardLink}</h4>` : `${boardLink}\n`;
+
+    lanes.forEach((laneTasks, laneName) => {
+      out += isHtml ? `<p><strong>${escapeHtml(laneName)}</strong></p><ul>` : `  ${laneName}\n`;
+
+      for (const task of laneTasks) {
+        const cleanTitle = plugin.cleanTitleForEmail(task.title);
+        const title = isHtml
+          ? plugin.convertWikilinksToHtmlLinks(cleanTitle)
+          : plugin.convertWikilinksToObsidianUrls(cleanTitle);
+        const linkIcon = plugin.createDirectCardLinkIcon(
+          task.boardName,
+          task.boardPath,
+          task.blockId,
+          isHtml
+        );
+        const priority = task.priority
+          ? `[${task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}] `
+          : '';
+        const dueIn = task.dueDate ? getDueInText(task.dueDate) : 'No due date';
+
+        out += isHtml
+          ? `<li>${linkIcon}${title} ${priority}<em>[${dueIn}]</em></li>`
+          : `  - ${linkIcon}${title} ${priority}[${dueIn}]\n`;
+      }
+
+      out += isHtml ? '</ul>' : '\n';
+    });
+  });
+
+  return isHtml ? out : out.replace(/\s+$/, '');
+}
+
+function applyInlineMarkdown(plugin: KanbanPlugin, line: string) {
+  return plugin
+    .convertWikilinksToHtmlLinks(line)
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*]+)\*/g, '$1<em>$2</em>');
+}
+
+// A deliberately small markdown to HTML conversion covering what reminder templates need:
+// headings, paragraphs, lists, emphasis and links
+function markdownTemplateToHtml(plugin: KanbanPlugin, md: string) {
+  return md
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter((block) => block)
+    .map((block) => {
+      if (/^\{\{\s*[\w-]+\s*\}\}$/.test(block)) return block;
+
+      const heading = block.match(/^(#{1,6})\s+(.*)$/);
+      if (heading && !block.includes('\n')) {
+        const level = heading[1].length;
+        return `<h${level}>${applyInlineMarkdown(plugin, heading[2])}</h${level}>`;
+      }
+
+      if (/^([-*+]|\d+\.)\s+/.test(block)) {
+        return applyInlineMarkdown(plugin, block);
+      }
+
+      return `<p>${block
+        .split('\n')
+        .map((line) => applyInlineMarkdown(plugin, line))
+        .join('<br>')}</p>`;
+    })
+    .join('\n');
+}
+
+export async function loadReminderTemplate(plugin: KanbanPlugin): Promise<ReminderTemplate> {
+  const defaultTemplate = {
+    body: DEFAULT_REMINDER_TEMPLATE,
+    isHtml: false,
+    subject: DEFAULT_REMINDER_SUBJECT,
+  };
+
+  const path = plugin.settings.reminderEmailTemplatePath?.trim();
+  if (!path) return defaultTemplate;
+
+  const { vault, metadataCache } = plugin.app;
+  let file = vault.getAbstractFileByPath(normalizePath(path));
+  if (!(file instanceof TFile)) {
+    file = vault.getAbstractFileByPath(normalizePath(`${path}.md`));
+  }
+
+  if (!(file instanceof TFile)) {
+    console.warn(`[KanbanPlugin] Reminder email template not found: ${path}. Using the default.`);
+    return defaultTemplate;
+  }
+
+  const content = await vault.cachedRead(file);
+
+  if (file.extension === 'html' || file.extension === 'htm') {
+    const title = content.match(/<title>([\s\S]*?)<\/title>/i);
+    return {
+      body: content,
+      isHtml: true,
+      subject: title?.[1].trim() || DEFAULT_REMINDER_SUBJECT,
+    };
+  }
+
+  // Markdown templates may set the subject in their frontmatter
+  const cache = metadataCache.getFileCache(file);
+  const bodyStart = cache?.frontmatterPosition?.end.offset;
+  return {
+    body: bodyStart ? content.slice(bodyStart).replace(/^-{3}\s*/, '') : content,
+    isHtml: false,
+    subject: cache?.frontmatter?.subject?.toString() || DEFAULT_REMINDER_SUBJECT,
+  };
+}
+
+// Builds the text and HTML versions of the reminder email sent to one address
+export async function buildReminderEmail(
+  plugin: KanbanPlugin,
+  email: string,
+  tasks: TaskForEmail[],
+  tasksWithoutDueDate: TaskForEmail[],
+  timeframeDays: number,
+  template?: ReminderTemplate
+): Promise<ReminderEmail> {
+  template = template || (await loadReminderTemplate(plugin));
+
+  const sortedTasks = [...tasks].sort((a, b) => moment(a.dueDate).diff(moment(b.dueDate)));
+  const overdueTasks = sortedTasks.filter((task) => isOverdue(task));
+  const upcomingTasks = sortedTasks.filter((task) => !isOverdue(task));
+  const timeframeText = getTimeframeText(timeframeDays);
+
+  const members = getMemberNamesForEmail(plugin.settings, email);
+  const boards = new Map<string, string>();
+  [...sortedTasks, ...tasksWithoutDueDate].forEach((task) =>
+    boards.set(task.boardPath, task.boardName)
+  );
+
+  const getValues = (isHtml: boolean): Record<string, string> => ({
+    member: isHtml ? escapeHtml(members.join(', ') || email) : members.join(', ') || email,
+    email: isHtml ? escapeHtml(email) : email,
+    date: moment().format('YYYY-MM-DD'),
+    timeframe: timeframeText,
+    board: Array.from(boards.entries())
+      .map(([path, name]) => plugin.createBoardLink(name, path, isHtml))
+      .join(', '),
+    tasks: renderTaskSection(plugin, `Due in the next ${timeframeText}`, upcomingTasks, isHtml),
+    overdue: renderTaskSection(plugin, 'Overdue', overdueTasks, isHtml),
+    'no-due-date': renderTaskSection(plugin, 'Without due date', tasksWithoutDueDate, isHtml),
+  });
+
+  const fill = (source: string, values: Record<string, string>) =>
+    source.replace(placeholderRegex, (match, key) => (key in values ? values[key] : match));
+
+  const textValues = getValues(false);
+  const htmlValues = getValues(true);
+
+  const textSource = template.isHtml
+    ? htmlToMarkdown(template.body)
+    : plugin.convertWikilinksToObsidianUrls(template.body);
+  const htmlSource = template.isHtml
+    ? template.body
+    : markdownTemplateToHtml(plugin, template.body);
+
+  // Drop lines left empty by block placeholders that had nothing to show
+  const text = fill(textSource, textValues)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  const html = fill(
+    htmlSource.replace(
+      new RegExp(`<p>\\s*(\\{\\{\\s*(?:${blockPlaceholders.join('|')})\\s*\\}\\})\\s*</p>`, 'g'),
+      '$1'
+    ),
+    htmlValues
+  );
+
+  return {
+    subject: fill(template.subject, textValues),
+    text,
+    html,
+  };
+}
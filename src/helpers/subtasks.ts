@@ -0,0 +1,43 @@
+import { getTaskStatusDone } from '../parsers/helpers/inlineMetadata';
+
+export interface SubtaskProgress {
+  done: number;
+  total: number;
+}
+
+// Matches a task list line, including ones nested in blockquotes, e.g. "  - [x] Write tests"
+const taskLineRegex = /^(\s*>)*(\s*[-+*]\s+?\[)([^\]])(\]\s+)/;
+
+function isDoneChar(checkChar: string) {
+  return checkChar === 'x' || checkChar === 'X' || checkChar === getTaskStatusDone();
+}
+
+// The first line of a card is its title, so only task lines after it count as subtasks
+export function getSubtaskProgress(titleRaw: string): SubtaskProgress {
+  const progress: SubtaskProgress = { done: 0, total: 0 };
+  if (!titleRaw) return progress;
+
+  const lines = titleRaw.split(/\r?\n/g);
+
+  for (let i = 1; i < lines.length; i++) {
+    const match = lines[i].match(taskLineRegex);
+    if (!match) continue;
+
+    progress.total++;
+    if (isDoneChar(match[3])) progress.done++;
+  }
+
+  return progress;
+}
+
+export function hasSubtasks(progress?: SubtaskProgress) {
+  return !!progress?.total;
+}
+
+export function areSubtasksComplete(progress?: SubtaskProgress) {
+  return hasSubtasks(progress) && progress.done === progress.total;
+}
+
+export function formatSubtaskProgress(progress: SubtaskProgress) {
+  return `${progress.done}/${progress.total}`;
+}
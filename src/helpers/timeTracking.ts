@@ -0,0 +1,110 @@
+import { moment } from 'obsidian';
+
+export interface TimeLogEntry {
+  start: moment.Moment;
+  // Missing while the timer is still running
+  end?: moment.Moment;
+}
+
+export const TIME_LOG_FIELD = 'time';
+const TIME_LOG_FORMAT = 'YYYY-MM-DDTHH:mm';
+
+// Entries are written as ISO 8601 intervals in an inline field, e.g.
+// [time:: 2024-05-01T09:00/2024-05-01T10:30]. A running timer has no end: [time:: 2024-05-01T09:00/]
+const timeLogRegex = new RegExp(
+  `\\s*\\[${TIME_LOG_FIELD}::\\s*([^\\]/]+?)\\s*/\\s*([^\\]]*?)\\s*\\]`,
+  'g'
+);
+
+function formatEntry(start: moment.Moment, end?: moment.Moment) {
+  return `[${TIME_LOG_FIELD}:: ${start.format(TIME_LOG_FORMAT)}/${end ? end.format(TIME_LOG_FORMAT) : ''}]`;
+}
+
+function getTimeLogMatches(titleRaw: string) {
+  const matches: RegExpExecArray[] = [];
+  if (!titleRaw) return matches;
+
+  timeLogRegex.lastIndex = 0;
+  let match;
+  while ((match = timeLogRegex.exec(titleRaw)) !== null) {
+    matches.push(match);
+  }
+
+  return matches;
+}
+
+export function getTimeLogRanges(titleRaw: string) {
+  return getTimeLogMatches(titleRaw).map((match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+export function parseTimeLog(titleRaw: string): TimeLogEntry[] {
+  const entries: TimeLogEntry[] = [];
+
+  for (const match of getTimeLogMatches(titleRaw)) {
+    const start = moment(match[1], TIME_LOG_FORMAT, true);
+    if (!start.isValid()) continue;
+
+    const end = match[2] ? moment(match[2], TIME_LOG_FORMAT, true) : undefined;
+    if (end && !end.isValid()) continue;
+
+    entries.push({ start, end });
+  }
+
+  return entries;
+}
+
+export function stripTimeLog(text: string) {
+  return text ? text.replace(timeLogRegex, '') : text;
+}
+
+export function hasRunningTimer(entries?: TimeLogEntry[]) {
+  return !!entries?.some((entry) => !entry.end);
+}
+
+// Total tracked milliseconds, counting running timers up to `now`
+export function getTrackedTime(entries?: TimeLogEntry[], now: moment.Moment = moment()) {
+  if (!entries?.length) return 0;
+
+  return entries.reduce((total, entry) => {
+    const duration = (entry.end || now).diff(entry.start);
+    return duration > 0 ? total + duration : total;
+  }, 0);
+}
+
+export function formatTrackedTime(ms: number) {
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  if (!hours) return `${minutes}m`;
+  return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+}
+
+export function startTimer(titleRaw: string, now: moment.Moment = moment()) {
+  if (hasRunningTimer(parseTimeLog(titleRaw))) return titleRaw;
+
+  const entry = formatEntry(now);
+  return titleRaw ? `${titleRaw.replace(/\s+$/, '')} ${entry}` : entry;
+}
+
+// Closes every running entry in the card
+export function stopTimer(titleRaw: string, now: moment.Moment = moment()) {
+  return titleRaw.replace(timeLogRegex, (match, startStr: string, endStr: string) => {
+    if (endStr) return match;
+
+    const start = moment(startStr, TIME_LOG_FORMAT, true);
+    if (!start.isValid()) return match;
+
+    const leadingSpace = match.match(/^\s*/)[0];
+    return leadingSpace + formatEntry(start, moment.max(start, now));
+  });
+}
+
+export function toggleTimer(titleRaw: string, now: moment.Moment = moment()) {
+  return hasRunningTimer(parseTimeLog(titleRaw))
+    ? stopTimer(titleRaw, now)
+    : startTimer(titleRaw, now);
+}
@@ -0,0 +1,143 @@
+import { Notice } from 'obsidian';
+
+import { KanbanSettings } from '../Settings';
+import { StateManager } from '../StateManager';
+import { Item, Lane } from '../components/types';
+import { t } from '../lang/helpers';
+import KanbanPlugin from '../main';
+import {
+  MemberColumnCard,
+  getMemberCardColumn,
+  getMemberColumns,
+  isWipColumn,
+} from './memberWorkflow';
+
+// 'off' only shows the count against the limit, 'warn' highlights the lane and shows a notice
+// and 'block' rejects the drop
+export type WipLimitMode = 'off' | 'warn' | 'block';
+
+export function getWipLimitMode(mode?: WipLimitMode): WipLimitMode {
+  return mode === 'warn' || mode === 'block' ? mode : 'off';
+}
+
+export function isOverWipLimit(count: number, limit?: number) {
+  return !!limit && limit > 0 && count > limit;
+}
+
+function enforceWipLimit(
+  mode: WipLimitMode,
+  isOver: boolean,
+  message: string,
+  rejection = t('The card was not moved.')
+) {
+  if (mode === 'off' || !isOver) return true;
+
+  if (mode === 'block') {
+    new Notice(`${message} ${rejection}`);
+    return false;
+  }
+
+  new Notice(message);
+  return true;
+}
+
+// Checks whether `incoming` cards may be added to a lane. Returns false when the move must be
+// rejected; warnings are shown but still allow it.
+export function checkLaneWipLimit(stateManager: StateManager, lane: Lane, incoming: number) {
+  if (!lane?.data?.maxItems) return true;
+
+  const mode = getWipLimitMode(stateManager.getSetting('wip-limit-mode'));
+  const count = lane.children.length + incoming;
+
+  return enforceWipLimit(
+    mode,
+    isOverWipLimit(count, lane.data.maxItems),
+    `${t('WIP limit reached for')} "${lane.data.title}" (${count}/${lane.data.maxItems}).`
+  );
+}
+
+export function getMemberWipLimit(settings: KanbanSettings, member: string) {
+  return settings.teamMemberColors?.[member]?.wipLimit || 0;
+}
+
+export interface MemberWipCard extends MemberColumnCard {
+  assignedMembers?: string[];
+}
+
+export function getMemberWipCard(item: Item, lane?: Lane): MemberWipCard {
+  return {
+    checked: item.data.checked,
+    tags: item.data.metadata?.tags || [],
+    laneTitle: lane?.data.title,
+    assignedMembers: item.data.assignedMembers || [],
+  };
+}
+
+// A card takes up a WIP slot of each of its members while it is in a Member view column that
+// counts toward WIP limits
+function getWipMembers(settings: KanbanSettings, card: MemberWipCard | null) {
+  if (!card || !isWipColumn(getMemberCardColumn(getMemberColumns(settings), card))) return [];
+  return card.assignedMembers || [];
+}
+
+// Cards on any board taking up one of the member's WIP slots. Open boards are counted from their
+// current state, since the index only catches up with them once they are saved.
+function countMemberWip(plugin: KanbanPlugin, member: string) {
+  const openPaths = new Set<string>();
+  let count = 0;
+
+  const countLanes = (lanes: Lane[]) => {
+    lanes.forEach((lane) =>
+      lane.children.forEach((item) => {
+        if (getWipMembers(plugin.settings, getMemberWipCard(item, lane)).includes(member)) count++;
+      })
+    );
+  };
+
+  plugin.stateManagers.forEach((stateManager, file) => {
+    if (!stateManager.state) return;
+    openPaths.add(file.path);
+    countLanes(stateManager.state.children);
+  });
+
+  plugin.cardIndex.boards.forEach((board, path) => {
+    if (!openPaths.has(path)) countLanes(board.board.children);
+  });
+
+  return count;
+}
+
+function checkMemberWipLimit(
+  settings: KanbanSettings,
+  member: string,
+  count: number,
+  rejection?: string
+) {
+  const limit = getMemberWipLimit(settings, member);
+  if (!limit) return true;
+
+  return enforceWipLimit(
+    getWipLimitMode(settings['wip-limit-mode']),
+    isOverWipLimit(count, limit),
+    `${t('WIP limit reached for')} ${member} (${count}/${limit}).`,
+    rejection
+  );
+}
+
+// Checks the WIP limit of every member a card starts taking up a slot of when it changes from
+// `before` to `after`, e.g. by being assigned, reopened or moved into a counted column. `before`
+// is null for new cards. Returns false when the change must be rejected.
+export function checkMemberWipChange(
+  plugin: KanbanPlugin,
+  before: MemberWipCard | null,
+  after: MemberWipCard,
+  rejection?: string
+) {
+  const previous = getWipMembers(plugin.settings, before);
+
+  return getWipMembers(plugin.settings, after)
+    .filter((member) => !previous.includes(member))
+    .every((member) =>
+      checkMemberWipLimit(plugin.settings, member, countMemberWip(plugin, member) + 1, rejection)
+    );
+}
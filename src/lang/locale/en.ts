@@ -17,6 +17,10 @@ const en = {
   'View as list': 'View as list',
   'View as table': 'View as table',
   'Board view': 'Board view',
+  'Undo last board change': 'Undo last board change',
+  'Redo last board change': 'Redo last board change',
+  'This change also affected another board that has since been closed or edited.':
+    'This change also affected another board that has since been closed or edited.',
 
   // KanbanView.tsx
   'Open as markdown': 'Open as markdown',
@@ -27,6 +31,68 @@ const en = {
     'You may wish to open as markdown and inspect or edit the file.',
   'Are you sure you want to archive all completed cards on this board?':
     'Are you sure you want to archive all completed cards on this board?',
+  'Export board': 'Export board',
+  'Export as CSV': 'Export as CSV',
+  'Export as JSON': 'Export as JSON',
+  'Export as HTML': 'Export as HTML',
+  'Board exported to': 'Board exported to',
+  'Could not export the board. See the console for details.':
+    'Could not export the board. See the console for details.',
+  'Import board': 'Import board',
+  'Import from': 'Import from',
+  'Trello board (JSON)': 'Trello board (JSON)',
+  'GitHub project or issues (JSON)': 'GitHub project or issues (JSON)',
+  'CSV file': 'CSV file',
+  'Export file': 'Export file',
+  'No file chosen': 'No file chosen',
+  'Choose file': 'Choose file',
+  'Board name': 'Board name',
+  'Column mapping': 'Column mapping',
+  Title: 'Title',
+  Members: 'Members',
+  'Due date': 'Due date',
+  Description: 'Description',
+  Import: 'Import',
+  'Could not read the export': 'Could not read the export',
+  'Board imported': 'Board imported',
+  'Card added to': 'Card added to',
+  'Quick capture': 'Quick capture',
+  Board: 'Board',
+  'Card text with #tags, @@members, !priority and dates':
+    'Card text with #tags, @@members, !priority and dates',
+  'Could not find the board': 'Could not find the board',
+  'Go to card': 'Go to card',
+  'No cards found': 'No cards found',
+  'Search cards on all boards...': 'Search cards on all boards...',
+  'to navigate': 'to navigate',
+  'to open': 'to open',
+  'to open in new tab': 'to open in new tab',
+  'to open to the right': 'to open to the right',
+  'to dismiss': 'to dismiss',
+  'Unknown kanban link action': 'Unknown kanban link action',
+  'New board from template': 'New board from template',
+  'Save board as template': 'Save board as template',
+  'Template name': 'Template name',
+  'Templates are saved in': 'Templates are saved in',
+  'Include cards': 'Include cards',
+  'Keep the current cards as seed cards for new boards.':
+    'Keep the current cards as seed cards for new boards.',
+  'Template saved to': 'Template saved to',
+  'Could not save the template. See the console for details.':
+    'Could not save the template. See the console for details.',
+  Template: 'Template',
+  'No templates found in': 'No templates found in',
+  'Use "Save board as template" on a board to add one.':
+    'Use "Save board as template" on a board to add one.',
+  'Replaces {{title}} in the template. {{date}} and {{time}} are also replaced.':
+    'Replaces {{title}} in the template. {{date}} and {{time}} are also replaced.',
+  Create: 'Create',
+  'Could not create the board from the template. See the console for details.':
+    'Could not create the board from the template. See the console for details.',
+  'Export due dates as a calendar file': 'Export due dates as a calendar file',
+  'Calendar exported to': 'Calendar exported to',
+  'Could not export the calendar. See the console for details.':
+    'Could not export the calendar. See the console for details.',
 
   // parser.ts
   Complete: 'Complete',
@@ -330,9 +396,13 @@ const en = {
   'Kanban Workspace': 'Kanban Workspace',
 
   // Added for "auto-move-done-to-lane" setting
-  'Automatically move done cards to "Done" lane': 'Automatically move done cards to "Done" lane',
-  'When a card is marked as done, automatically move it to a lane named "Done". If the lane doesn\'t exist, it will be created.':
-    'When a card is marked as done, automatically move it to a lane named "Done". If the lane doesn\'t exist, it will be created.',
+  'Automatically move done cards to the done list':
+    'Automatically move done cards to the done list',
+  'When a card is marked as done, automatically move it to the first of the "Done lists". If none of them exist, it will be created.':
+    'When a card is marked as done, automatically move it to the first of the "Done lists". If none of them exist, it will be created.',
+  'Done lists': 'Done lists',
+  'Comma-separated titles of the lists that hold finished cards, e.g. "Shipped, Closed". Titles are case-insensitive and * matches any text. Used when auto-moving done cards, hiding done lists, and to leave cards in these lists out of reminders, linked cards and the Workspace view\'s "Exclude done" filter.':
+    'Comma-separated titles of the lists that hold finished cards, e.g. "Shipped, Closed". Titles are case-insensitive and * matches any text. Used when auto-moving done cards, hiding done lists, and to leave cards in these lists out of reminders, linked cards and the Workspace view\'s "Exclude done" filter.',
   // Potentially missing strings flagged by linter earlier (might be duplicates or already exist, adding defensively)
   'Kanban board settings': 'Kanban board settings',
   'Team Members': 'Team Members',
@@ -349,23 +419,75 @@ const en = {
   'Set the number of days in advance to send due date reminders (e.g., 1 for tasks due today or tomorrow).':
     'Set the number of days in advance to send due date reminders (e.g., 1 for tasks due today or tomorrow).',
 
+  'Reminder email template': 'Reminder email template',
+  'Path to a markdown or HTML note used for reminder emails. Available placeholders: {{member}}, {{tasks}}, {{overdue}}, {{no-due-date}}, {{board}}, {{timeframe}} and {{date}}. Set a "subject" in the frontmatter (or a <title> in HTML) to change the subject. Leave empty to use the built-in template.':
+    'Path to a markdown or HTML note used for reminder emails. Available placeholders: {{member}}, {{tasks}}, {{overdue}}, {{no-due-date}}, {{board}}, {{timeframe}} and {{date}}. Set a "subject" in the frontmatter (or a <title> in HTML) to change the subject. Leave empty to use the built-in template.',
+  'Create template': 'Create template',
+  'Create a template note from the built-in template':
+    'Create a template note from the built-in template',
+  'A file already exists at that path.': 'A file already exists at that path.',
+
   // Settings for Automatic Email Sending (NEW)
   'Automatic Email Sending': 'Automatic Email Sending',
   'Enable Automatic Email Sending': 'Enable Automatic Email Sending',
-  "If enabled, the plugin will attempt to send due date reminders automatically using the configured Gmail account (App Password required). WARNING: This stores your email and App Password in Obsidian's settings.":
-    "If enabled, the plugin will attempt to send due date reminders automatically using the configured Gmail account (App Password required). WARNING: This stores your email and App Password in Obsidian's settings.",
-  'Sender Gmail Address': 'Sender Gmail Address',
-  'Your full Gmail address (e.g., user@gmail.com).':
-    'Your full Gmail address (e.g., user@gmail.com).',
-  'Gmail App Password': 'Gmail App Password',
-  'An App Password generated for Obsidian from your Google Account settings. This is NOT your regular Gmail password.':
-    'An App Password generated for Obsidian from your Google Account settings. This is NOT your regular Gmail password.',
+  "If enabled, the plugin will attempt to send due date reminders automatically using the email transport configured below. WARNING: SMTP credentials are stored in Obsidian's settings.":
+    "If enabled, the plugin will attempt to send due date reminders automatically using the email transport configured below. WARNING: SMTP credentials are stored in Obsidian's settings.",
+  'Email transport': 'Email transport',
+  'How reminder emails are delivered. SMTP sends them through a mail server, the folder option writes .eml files into the vault, and simulated only logs them to the developer console.':
+    'How reminder emails are delivered. SMTP sends them through a mail server, the folder option writes .eml files into the vault, and simulated only logs them to the developer console.',
+  'SMTP server': 'SMTP server',
+  'Write .eml files to a folder': 'Write .eml files to a folder',
+  'Simulated (debug log only)': 'Simulated (debug log only)',
+  'Sender Address': 'Sender Address',
+  'The address reminder emails are sent from (e.g., user@gmail.com).':
+    'The address reminder emails are sent from (e.g., user@gmail.com).',
+  'SMTP host': 'SMTP host',
+  'The mail server to send through, e.g. smtp.gmail.com or your own relay.':
+    'The mail server to send through, e.g. smtp.gmail.com or your own relay.',
+  'SMTP port': 'SMTP port',
+  'Usually 465 for TLS, 587 for STARTTLS and 25 for unencrypted relays.':
+    'Usually 465 for TLS, 587 for STARTTLS and 25 for unencrypted relays.',
+  'SMTP encryption': 'SMTP encryption',
+  TLS: 'TLS',
+  STARTTLS: 'STARTTLS',
+  None: 'None',
+  'SMTP authentication': 'SMTP authentication',
+  LOGIN: 'LOGIN',
+  PLAIN: 'PLAIN',
+  'SMTP username': 'SMTP username',
+  'Leave empty to log in with the sender address.':
+    'Leave empty to log in with the sender address.',
+  'SMTP password': 'SMTP password',
+  'For Gmail, use an App Password generated from your Google Account settings. This is NOT your regular Gmail password.':
+    'For Gmail, use an App Password generated from your Google Account settings. This is NOT your regular Gmail password.',
+  'Email output folder': 'Email output folder',
+  'Vault folder that reminder emails are written to as .eml files.':
+    'Vault folder that reminder emails are written to as .eml files.',
+  'Send test email': 'Send test email',
+  'Sends a test email to the sender address using the settings above.':
+    'Sends a test email to the sender address using the settings above.',
+  Send: 'Send',
+  'Enter a sender address first.': 'Enter a sender address first.',
+  'Test email sent.': 'Test email sent.',
+  'Failed to send test email:': 'Failed to send test email:',
   'Automatic Sending Frequency (Days)': 'Automatic Sending Frequency (Days)',
   'How often to automatically send reminder emails (e.g., 1 for daily, 7 for weekly). Minimum is 1 day.':
     'How often to automatically send reminder emails (e.g., 1 for daily, 7 for weekly). Minimum is 1 day.',
-  "Hide 'Done' lane": "Hide 'Done' lane",
-  'If enabled, lanes with the exact title "Done" (case-insensitive) will be hidden from the board view.':
-    'If enabled, lanes with the exact title "Done" (case-insensitive) will be hidden from the board view.',
+  'Calendar subscription': 'Calendar subscription',
+  'Calendar file': 'Calendar file',
+  'Vault path of the .ics file that dated cards from all boards are exported to. Calendar apps can subscribe to it when the vault is synced to a location they can reach.':
+    'Vault path of the .ics file that dated cards from all boards are exported to. Calendar apps can subscribe to it when the vault is synced to a location they can reach.',
+  'Export now': 'Export now',
+  'Refresh calendar file automatically': 'Refresh calendar file automatically',
+  'Rewrites the calendar file whenever a board changes.':
+    'Rewrites the calendar file whenever a board changes.',
+  'Board templates': 'Board templates',
+  'Template folder': 'Template folder',
+  'Vault folder that board templates are saved to and picked from. Boards in this folder are left out of the member, calendar and analytics views.':
+    'Vault folder that board templates are saved to and picked from. Boards in this folder are left out of the member, calendar and analytics views.',
+  'Hide done lists': 'Hide done lists',
+  'If enabled, the lists named in "Done lists" will be hidden from the board view.':
+    'If enabled, the lists named in "Done lists" will be hidden from the board view.',
   'Display card count in list header': 'Display card count in list header',
   'When toggled, the number of cards in a list will be displayed in the list header':
     'When toggled, the number of cards in a list will be displayed in the list header',
@@ -378,6 +500,139 @@ const en = {
   'Automatically add board tag to new cards': 'Automatically add board tag to new cards',
   'When enabled, new cards will automatically include a tag with the board name (e.g., #project-board, #daily-tasks).':
     'When enabled, new cards will automatically include a tag with the board name (e.g., #project-board, #daily-tasks).',
+  'Lane for recurring cards': 'Lane for recurring cards',
+  'When a card with a 🔁 repeat rule is completed, its next instance is added to the list with this title. Leave empty to use the list the card was completed in.':
+    'When a card with a 🔁 repeat rule is completed, its next instance is added to the list with this title. Leave empty to use the list the card was completed in.',
+  'Same list as the completed card': 'Same list as the completed card',
+  'Completed recurring cards': 'Completed recurring cards',
+  'Choose whether the completed instance of a recurring card stays on the board or is archived once its next instance has been created.':
+    'Choose whether the completed instance of a recurring card stays on the board or is archived once its next instance has been created.',
+  'Keep on board': 'Keep on board',
+  'Enable time tracking': 'Enable time tracking',
+  'Show a start/stop timer on cards. Each tracked session is saved in the card as a [time:: start/end] field and the total is shown in the card footer.':
+    'Show a start/stop timer on cards. Each tracked session is saved in the card as a [time:: start/end] field and the total is shown in the card footer.',
+  'Record card activity': 'Record card activity',
+  'Keep a history of when each card was created, moved to another list, assigned or unassigned, completed and reopened. The history is saved in the card as an [activity:: ...] field and shown as a timeline on the card.':
+    'Keep a history of when each card was created, moved to another list, assigned or unassigned, completed and reopened. The history is saved in the card as an [activity:: ...] field and shown as a timeline on the card.',
+  'Start timer': 'Start timer',
+  'Stop timer': 'Stop timer',
+  'Time tracked': 'Time tracked',
+
+  // components/Item/ItemActivityTimeline.tsx
+  Activity: 'Activity',
+  'Created in': 'Created in',
+  'Moved to': 'Moved to',
+  Assigned: 'Assigned',
+  Unassigned: 'Unassigned',
+  Completed: 'Completed',
+  Reopened: 'Reopened',
+
+  // components/Item/ItemSubtaskProgress.tsx
+  Subtasks: 'Subtasks',
+  'Complete cards when all their subtasks are done':
+    'Complete cards when all their subtasks are done',
+
+  // components/Item/ItemBlockedBadge.tsx
+  Blocked: 'Blocked',
+  'Blocked by': 'Blocked by',
+
+  // components/Lane/LaneRules.tsx
+  'Automation rules': 'Automation rules',
+  'When a card enters': 'When a card enters',
+  'When a card leaves': 'When a card leaves',
+  'Remove tag': 'Remove tag',
+  'Assign member': 'Assign member',
+  'Unassign member': 'Unassign member',
+  'Set priority': 'Set priority',
+  'Set start date to today': 'Set start date to today',
+  'Set due date to today': 'Set due date to today',
+  'Clear due date': 'Clear due date',
+  'Mark as complete': 'Mark as complete',
+  'Mark as incomplete': 'Mark as incomplete',
+  High: 'High',
+  Medium: 'Medium',
+  Low: 'Low',
+  Member: 'Member',
+  'Add rule': 'Add rule',
+
+  // components/Timeline/TimelineViewComponent.tsx
+  'now starts before its blocker is due': 'now starts before its blocker is due',
+
+  'WIP limit enforcement': 'WIP limit enforcement',
+  'What happens when a card is dropped into a list that is already at its limit, set by adding a number in parentheses to the list title, e.g. "Doing (3)". Also applies to team member WIP limits.':
+    'What happens when a card is dropped into a list that is already at its limit, set by adding a number in parentheses to the list title, e.g. "Doing (3)". Also applies to team member WIP limits.',
+  'Only show the count': 'Only show the count',
+  Warn: 'Warn',
+  'Block the drop': 'Block the drop',
+  'WIP limit': 'WIP limit',
+
+  // Settings.ts, Member view columns
+  'Member view columns': 'Member view columns',
+  'The columns of the Member view, in order. Each column collects cards with a tag, cards in lists whose title matches a pattern (use * as a wildcard), or checked cards. Cards matching no column go to the "Everything else" column. Dragging a card between columns updates it on its board. Cards in columns with the toggle on count toward team member WIP limits.':
+    'The columns of the Member view, in order. Each column collects cards with a tag, cards in lists whose title matches a pattern (use * as a wildcard), or checked cards. Cards matching no column go to the "Everything else" column. Dragging a card between columns updates it on its board. Cards in columns with the toggle on count toward team member WIP limits.',
+  'Add column': 'Add column',
+  'Column title': 'Column title',
+  'List title': 'List title',
+  Checked: 'Checked',
+  'Everything else': 'Everything else',
+  'Move up': 'Move up',
+  'Move down': 'Move down',
+  'Counts toward member WIP limits': 'Counts toward member WIP limits',
+
+  // MemberView.tsx
+  'No list matches': 'No list matches',
+
+  // helpers/wipLimits.ts
+  'WIP limit reached for': 'WIP limit reached for',
+  'The card was not moved.': 'The card was not moved.',
+  'The card was not added.': 'The card was not added.',
+  'The card was not changed.': 'The card was not changed.',
+
+  // CalendarView.tsx
+  Calendar: 'Calendar',
+  'Open calendar view': 'Open calendar view',
+  Month: 'Month',
+  Week: 'Week',
+  Agenda: 'Agenda',
+  Previous: 'Previous',
+  Next: 'Next',
+  'All tags': 'All tags',
+  'All members': 'All members',
+  'All boards': 'All boards',
+  'No tags available': 'No tags available',
+  'No members configured': 'No members configured',
+  'No boards found': 'No boards found',
+  'Show done': 'Show done',
+  'Loading...': 'Loading...',
+  'No dated cards in this period': 'No dated cards in this period',
+  'Could not move the card. See the console for details.':
+    'Could not move the card. See the console for details.',
+
+  // AnalyticsView.tsx
+  Analytics: 'Analytics',
+  'Open analytics view': 'Open analytics view',
+  'Last 30 days': 'Last 30 days',
+  'Last 90 days': 'Last 90 days',
+  'Last 180 days': 'Last 180 days',
+  'Last 365 days': 'Last 365 days',
+  'Export as markdown': 'Export as markdown',
+  'Copy as markdown table': 'Copy as markdown table',
+  'Copied to clipboard': 'Copied to clipboard',
+  'Cumulative flow': 'Cumulative flow',
+  'Lead time': 'Lead time',
+  'Cycle time': 'Cycle time',
+  'Throughput per week': 'Throughput per week',
+  'Completed by member': 'Completed by member',
+  Days: 'Days',
+  Cards: 'Cards',
+  Average: 'Average',
+  '85th percentile': '85th percentile',
+  'No data for this period': 'No data for this period',
+  'Turn on "Record card activity" in the plugin settings to chart how cards move between lists.':
+    'Turn on "Record card activity" in the plugin settings to chart how cards move between lists.',
+  'Could not export the analytics. See the console for details.':
+    'Could not export the analytics. See the console for details.',
+
   'Hide lane tags from kanban view': 'Hide lane tags from kanban view',
   'When enabled, lane tags (added automatically) will be hidden from cards in the kanban view but remain in the markdown.':
     'When enabled, lane tags (added automatically) will be hidden from cards in the kanban view but remain in the markdown.',
@@ -15,6 +15,9 @@ import {
 } from 'obsidian';
 import { render, unmountComponentAtNode, useEffect, useState } from 'preact/compat';
 
+import { ANALYTICS_ICON, ANALYTICS_VIEW_TYPE, AnalyticsView } from './AnalyticsView';
+import { CALENDAR_ICON, CALENDAR_VIEW_TYPE, CalendarView } from './CalendarView';
+import { CardIndex } from './CardIndex';
 import { createApp } from './DragDropApp';
 import { KanbanView, kanbanIcon, kanbanViewType } from './KanbanView';
 import {
@@ -32,13 +35,25 @@ import {
 } from './Settings';
 import { StateManager } from './StateManager';
 import { TIMELINE_ICON, TIMELINE_VIEW_TYPE, TimelineView } from './TimelineView';
+import { KanbanAPI } from './api';
 import { DateSuggest, TimeSuggest } from './components/Editor/suggest';
 import { ReminderModal } from './components/ReminderModal';
 import { Item, ItemData } from './components/types';
 import { getParentWindow } from './dnd/util/getWindow';
 import { hasFrontmatterKey } from './helpers';
+import { boardExportFormats, exportBoard } from './helpers/boardExport';
 import { debugLog, setDebugLoggerPlugin } from './helpers/debugLogger';
+import { getBoardDoneLanes, isDoneLane } from './helpers/doneLanes';
+import { createEmailTransport, isEmailTransportConfigured } from './helpers/emailTransport';
+import { writeIcsExport } from './helpers/icsExport';
+import { KANBAN_URI_ACTION, buildCardUri, handleKanbanUri } from './helpers/kanbanUri';
+import { TaskForEmail, buildReminderEmail, loadReminderTemplate } from './helpers/reminderEmail';
 import { t } from './lang/helpers';
+import { GoToCardModal } from './modals/GoToCardModal';
+import { ImportBoardModal } from './modals/ImportBoardModal';
+import { NewBoardFromTemplateModal } from './modals/NewBoardFromTemplateModal';
+import { QuickCaptureModal } from './modals/QuickCaptureModal';
+import { SaveBoardTemplateModal } from './modals/SaveBoardTemplateModal';
 import { ListFormat } from './parsers/List';
 import { basicFrontmatter, frontmatterKey } from './parsers/common';
 import './styles.less';
@@ -71,6 +86,9 @@ export default class KanbanPlugin extends Plugin {
   settingsTab: KanbanSettingsTab;
   settings: KanbanSettings;
   sessionManager: SessionManager;
+  cardIndex: CardIndex;
+  // Versioned API for other plugins and scripts, see src/api.ts
+  api: KanbanAPI;
 
   // leafid => view mode
   kanbanFileModes: Record<string, string> = {};
@@ -311,6 +329,7 @@ export default class KanbanPlugin extends Plugin {
 
   onunload() {
     this.MarkdownEditor = null;
+    this.api?.unload();
     this.windowRegistry.forEach((reg, win) => {
       reg.viewStateReceivers.forEach((fn) => fn([]));
       this.unmount(win);
@@ -340,6 +359,17 @@ export default class KanbanPlugin extends Plugin {
     this.sessionManager = new SessionManager(this);
     await this.sessionManager.loadSession();
 
+    // Initialize the vault-wide card index; it is built once the layout is ready
+    this.cardIndex = new CardIndex(this);
+    this.cardIndex.registerEvents();
+
+    this.api = new KanbanAPI(this);
+
+    // obsidian://kanban?action=add|open, see helpers/kanbanUri.ts
+    this.registerObsidianProtocolHandler(KANBAN_URI_ACTION, (params) =>
+      handleKanbanUri(this, params)
+    );
+
     // Initialize debug logger with plugin instance
     setDebugLoggerPlugin(this);
 
@@ -518,6 +548,7 @@ export default class KanbanPlugin extends Plugin {
 
     this.settingsTab = new KanbanSettingsTab(this, {
       onSettingsChange: async (newSettings) => {
+        const previousSettings = this.settings;
         this.settings = newSettings;
         await this.saveSettings();
 
@@ -526,6 +557,9 @@ export default class KanbanPlugin extends Plugin {
           stateManager.forceRefresh();
         });
 
+        // Global settings (date format, triggers, ...) affect how boards are parsed
+        this.cardIndex.onSettingsChange(previousSettings, newSettings);
+
         // Trigger re-render of embedded components when lane color setting changes
         this.triggerSettingChange(
           'use-kanban-board-background-colors',
@@ -540,6 +574,8 @@ export default class KanbanPlugin extends Plugin {
     this.registerView(KANBAN_WORKSPACE_VIEW_TYPE, (leaf) => new KanbanWorkspaceView(leaf, this));
     this.registerView(memberViewType, (leaf) => new MemberView(leaf, this));
     this.registerView(TIMELINE_VIEW_TYPE, (leaf) => new TimelineView(leaf, this));
+    this.registerView(CALENDAR_VIEW_TYPE, (leaf) => new CalendarView(leaf, this));
+    this.registerView(ANALYTICS_VIEW_TYPE, (leaf) => new AnalyticsView(leaf, this));
     this.registerMonkeyPatches();
     this.registerCommands();
     this.registerEvents();
@@ -620,6 +656,20 @@ export default class KanbanPlugin extends Plugin {
       });
     });
 
+    this.addRibbonIcon(CALENDAR_ICON, 'Open Calendar View', () => {
+      this.app.workspace.getLeaf(true).setViewState({
+        type: CALENDAR_VIEW_TYPE,
+        active: true,
+      });
+    });
+
+    this.addRibbonIcon(ANALYTICS_ICON, 'Open Analytics View', () => {
+      this.app.workspace.getLeaf(true).setViewState({
+        type: ANALYTICS_VIEW_TYPE,
+        active: true,
+      });
+    });
+
     this.addRibbonIcon(memberIcon, 'Open Member Board View', () => {
       this.app.workspace.getLeaf(true).setViewState({
         type: memberViewType,
@@ -629,6 +679,9 @@ export default class KanbanPlugin extends Plugin {
 
     // Call processDueDateReminders on load
     this.app.workspace.onLayoutReady(async () => {
+      // Start indexing boards in the background; views await cardIndex.whenReady()
+      this.cardIndex.whenReady();
+
       // Wait for layout to be ready to ensure settings are loaded and workspace is available
       await this.processDueDateReminders();
 
@@ -637,6 +690,15 @@ export default class KanbanPlugin extends Plugin {
 
       // Initialize global tag symbols after layout is ready
       this.updateGlobalTagSymbols();
+
+      // Keep the calendar subscription file in sync with the boards while auto refresh is on
+      const refreshIcsExport = debounce(() => writeIcsExport(this, false), 5000, true);
+      this.register(
+        this.cardIndex.onChange(() => {
+          if (this.settings.icsAutoRefresh) refreshIcsExport();
+        })
+      );
+      if (this.settings.icsAutoRefresh) writeIcsExport(this, false);
     });
   }
 
@@ -674,6 +736,23 @@ export default class KanbanPlugin extends Plugin {
     return this.stateManagers.get(file);
   }
 
+  getStateManagerByPath(path: string) {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    return file instanceof TFile ? this.stateManagers.get(file) : undefined;
+  }
+
+  // The board of the active kanban view, unless a card or list editor has focus so that undo
+  // and redo hotkeys still reach the editor
+  getFocusedBoardStateManager() {
+    const view = this.app.workspace.getActiveViewOfType(KanbanView);
+    if (!view) return null;
+
+    const focused = view.getWindow().document.activeElement;
+    if (focused?.closest('input, textarea, [contenteditable="true"]')) return null;
+
+    return this.stateManagers.get(view.file) || null;
+  }
+
   getStateManagerFromViewID(id: string, win: Window) {
     const view = this.getKanbanView(id, win);
 
@@ -916,7 +995,8 @@ export default class KanbanPlugin extends Plugin {
     } as ViewState);
   }
 
-  async newKanban(folder?: TFolder) {
+  // `content` lets importers create a board that already has lists and cards
+  async newKanban(folder?: TFolder, name?: string, content: string = basicFrontmatter) {
     const targetFolder = folder
       ? folder
       : this.app.fileManager.getNewFileParent(this.app.workspace.getActiveFile()?.path || '');
@@ -924,16 +1004,18 @@ export default class KanbanPlugin extends Plugin {
     try {
       const kanban: TFile = await (this.app.fileManager as any).createNewMarkdownFile(
         targetFolder,
-        t('Untitled Kanban')
+        name || t('Untitled Kanban')
       );
 
-      await this.app.vault.modify(kanban, basicFrontmatter);
+      await this.app.vault.modify(kanban, content);
       await this.app.workspace.getLeaf().setViewState({
         type: kanbanViewType,
         state: { file: kanban.path },
       });
+      return kanban;
     } catch (e) {
       console.error('Error creating kanban board:', e);
+      return null;
     }
   }
 
@@ -1203,6 +1285,37 @@ export default class KanbanPlugin extends Plugin {
       callback: () => this.newKanban(),
     });
 
+    this.addCommand({
+      id: 'quick-capture',
+      name: t('Quick capture'),
+      callback: () => new QuickCaptureModal(this).open(),
+    });
+
+    this.addCommand({
+      id: 'go-to-card',
+      name: t('Go to card'),
+      callback: () => new GoToCardModal(this).open(),
+    });
+
+    this.addCommand({
+      id: 'new-board-from-template',
+      name: t('New board from template'),
+      callback: () => new NewBoardFromTemplateModal(this).open(),
+    });
+
+    this.addCommand({
+      id: 'save-board-as-template',
+      name: t('Save board as template'),
+      checkCallback: (checking) => {
+        const activeView = this.app.workspace.getActiveViewOfType(KanbanView);
+
+        if (!activeView) return false;
+        if (checking) return true;
+
+        new SaveBoardTemplateModal(this, this.stateManagers.get(activeView.file)).open();
+      },
+    });
+
     this.addCommand({
       id: 'archive-completed-cards',
       name: t('Archive completed cards in active board'),
@@ -1216,6 +1329,64 @@ export default class KanbanPlugin extends Plugin {
       },
     });
 
+    boardExportFormats.forEach(([format, label]) => {
+      this.addCommand({
+        id: `export-board-${format}`,
+        name: `${t('Export board')}: ${label()}`,
+        checkCallback: (checking) => {
+          const activeView = this.app.workspace.getActiveViewOfType(KanbanView);
+
+          if (!activeView) return false;
+          if (checking) return true;
+
+          exportBoard(this.stateManagers.get(activeView.file), format);
+        },
+      });
+    });
+
+    this.addCommand({
+      id: 'export-calendar',
+      name: t('Export due dates as a calendar file'),
+      callback: () => writeIcsExport(this),
+    });
+
+    this.addCommand({
+      id: 'import-board',
+      name: t('Import board'),
+      callback: () => new ImportBoardModal(this).open(),
+    });
+
+    this.addCommand({
+      id: 'undo-board-change',
+      name: t('Undo last board change'),
+      hotkeys: [{ modifiers: ['Mod'], key: 'z' }],
+      checkCallback: (checking) => {
+        const stateManager = this.getFocusedBoardStateManager();
+
+        if (!stateManager?.history.canUndo) return false;
+        if (checking) return true;
+
+        stateManager.undo((path) => this.getStateManagerByPath(path));
+      },
+    });
+
+    this.addCommand({
+      id: 'redo-board-change',
+      name: t('Redo last board change'),
+      hotkeys: [
+        { modifiers: ['Mod', 'Shift'], key: 'z' },
+        { modifiers: ['Mod'], key: 'y' },
+      ],
+      checkCallback: (checking) => {
+        const stateManager = this.getFocusedBoardStateManager();
+
+        if (!stateManager?.history.canRedo) return false;
+        if (checking) return true;
+
+        stateManager.redo((path) => this.getStateManagerByPath(path));
+      },
+    });
+
     this.addCommand({
       id: 'toggle-kanban-view',
       name: t('Toggle between Kanban and markdown mode'),
@@ -1368,6 +1539,28 @@ export default class KanbanPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'open-calendar-view',
+      name: t('Open calendar view'),
+      callback: () => {
+        this.app.workspace.getLeaf(true).setViewState({
+          type: CALENDAR_VIEW_TYPE,
+          active: true,
+        });
+      },
+    });
+
+    this.addCommand({
+      id: 'open-analytics-view',
+      name: t('Open analytics view'),
+      callback: () => {
+        this.app.workspace.getLeaf(true).setViewState({
+          type: ANALYTICS_VIEW_TYPE,
+          active: true,
+        });
+      },
+    });
+
     this.addCommand({
       id: 'open-member-board-view',
       name: 'Open member board view',
@@ -1875,28 +2068,31 @@ export default class KanbanPlugin extends Plugin {
     }
   }
 
-  createDirectCardLink(
-    cardTitle: string,
-    boardName: string,
-    boardPath: string,
-    blockId: string | undefined,
-    isHtml: boolean
-  ): string {
+  getCardObsidianUrl(boardPath: string, blockId: string | undefined): string {
     // Get the vault name for the obsidian:// URL
     const vaultName = this.app.vault.getName();
 
     // Encode the file path for URL
     const encodedPath = encodeURIComponent(boardPath);
 
-    let obsidianUrl: string;
     if (blockId) {
-      // Create URL with blockId for direct card navigation and highlighting
-      obsidianUrl = `obsidian://open?vault=${encodeURIComponent(vaultName)}&file=${encodedPath}#^${blockId}`;
-    } else {
-      // Fallback to board URL if no blockId available
-      obsidianUrl = `obsidian://open?vault=${encodeURIComponent(vaultName)}&file=${encodedPath}`;
+      // Link to the card itself so the board opens with it highlighted
+      return buildCardUri(vaultName, boardPath, blockId);
     }
 
+    // Fallback to board URL if no blockId available
+    return `obsidian://open?vault=${encodeURIComponent(vaultName)}&file=${encodedPath}`;
+  }
+
+  createDirectCardLink(
+    cardTitle: string,
+    boardName: string,
+    boardPath: string,
+    blockId: string | undefined,
+    isHtml: boolean
+  ): string {
+    const obsidianUrl = this.getCardObsidianUrl(boardPath, blockId);
+
     if (isHtml) {
       // Escape HTML characters in card title
       const escapedCardTitle = cardTitle
@@ -1916,20 +2112,7 @@ export default class KanbanPlugin extends Plugin {
     blockId: string | undefined,
     isHtml: boolean
   ): string {
-    // Get the vault name for the obsidian:// URL
-    const vaultName = this.app.vault.getName();
-
-    // Encode the file path for URL
-    const encodedPath = encodeURIComponent(boardPath);
-
-    let obsidianUrl: string;
-    if (blockId) {
-      // Create URL with blockId for direct card navigation and highlighting
-      obsidianUrl = `obsidian://open?vault=${encodeURIComponent(vaultName)}&file=${encodedPath}#^${blockId}`;
-    } else {
-      // Fallback to board URL if no blockId available
-      obsidianUrl = `obsidian://open?vault=${encodeURIComponent(vaultName)}&file=${encodedPath}`;
-    }
+    const obsidianUrl = this.getCardObsidianUrl(boardPath, blockId);
 
     if (isHtml) {
       // HTML version with chain link icon
@@ -1998,33 +2181,10 @@ export default class KanbanPlugin extends Plugin {
 
     // Structure to hold tasks grouped by email
     // { "email@example.com": [{ title: "Task 1", board: "Board A" }, { title: "Task 2", board: "Board B" }] }
-    const tasksByEmail: Record<
-      string,
-      Array<{
-        title: string;
-        boardName: string;
-        boardPath: string;
-        dueDate?: string; // Make optional to support tasks without due dates
-        tags?: string[];
-        priority?: 'high' | 'medium' | 'low';
-        laneName: string;
-        blockId?: string; // Add blockId for direct card linking
-      }>
-    > = {};
+    const tasksByEmail: Record<string, TaskForEmail[]> = {};
 
     // Separate structure for tasks without due dates
-    const tasksWithoutDueDateByEmail: Record<
-      string,
-      Array<{
-        title: string;
-        boardName: string;
-        boardPath: string;
-        tags?: string[];
-        priority?: 'high' | 'medium' | 'low';
-        laneName: string;
-        blockId?: string;
-      }>
-    > = {};
+    const tasksWithoutDueDateByEmail: Record<string, TaskForEmail[]> = {};
 
     const allMarkdownFiles = this.app.vault.getMarkdownFiles();
     const kanbanBoards: TFile[] = [];
@@ -2090,7 +2250,10 @@ export default class KanbanPlugin extends Plugin {
         }
 
         if (board && board.children) {
+          const doneLanes = getBoardDoneLanes(board, this.settings);
           for (const lane of board.children) {
+            // Cards in done lanes are finished even when they aren't checked
+            if (isDoneLane(lane, doneLanes)) continue;
             if (lane.children) {
               for (const cardNode of lane.children) {
                 const cardItemData = cardNode.data as ItemData; // Correct: cardNode.data is ItemData
@@ -2177,22 +2340,12 @@ export default class KanbanPlugin extends Plugin {
       debugLog('[KanbanPlugin] Tasks due soon found:', tasksByEmail);
       debugLog('[KanbanPlugin] Tasks without due date found:', tasksWithoutDueDateByEmail);
 
-      if (
-        this.settings.enableAutomaticEmailSending &&
-        this.settings.automaticEmailSenderAddress &&
-        this.settings.automaticEmailAppPassword
-      ) {
+      if (this.settings.enableAutomaticEmailSending && isEmailTransportConfigured(this.settings)) {
         debugLog('[KanbanPlugin] Automatic email sending is enabled. Attempting to send emails.');
         const sender = this.settings.automaticEmailSenderAddress;
-        const appPass = this.settings.automaticEmailAppPassword;
+        const transport = createEmailTransport(this.app, this.settings);
         const timeframeDays = this.settings.dueDateReminderTimeframeDays ?? 1;
-        let timeframeText = '';
-        if (timeframeDays % 7 === 0) {
-          const weeks = timeframeDays / 7;
-          timeframeText = weeks === 1 ? 'week' : `${weeks} weeks`;
-        } else {
-          timeframeText = timeframeDays === 1 ? 'day' : `${timeframeDays} days`;
-        }
+        const template = await loadReminderTemplate(this);
 
         // Get unique email addresses from both structures
         const allEmails = new Set([
@@ -2202,145 +2355,28 @@ export default class KanbanPlugin extends Plugin {
 
         for (const emailAddress of allEmails) {
           const userTasks = tasksByEmail[emailAddress] || [];
-          if (
-            userTasks.length > 0 ||
-            (tasksWithoutDueDateByEmail[emailAddress] &&
-              tasksWithoutDueDateByEmail[emailAddress].length > 0)
-          ) {
-            // Sort tasks for this user
-            userTasks.sort((a, b) => moment(a.dueDate).diff(moment(b.dueDate)));
-
-            const hasDueDateTasks = userTasks.length > 0;
-            const hasNoDueDateTasks =
-              tasksWithoutDueDateByEmail[emailAddress] &&
-              tasksWithoutDueDateByEmail[emailAddress].length > 0;
-
-            let emailBodyText = '';
-            let emailBodyHtml = '';
-
-            if (hasDueDateTasks) {
-              emailBodyText = `You have the following tasks due in the next ${timeframeText}:\n\n`;
-              emailBodyHtml = `<p>You have the following tasks due in the next ${timeframeText}:</p><ul>`;
-            } else if (hasNoDueDateTasks) {
-              emailBodyText = `You have the following tasks without due dates:\n\n`;
-              emailBodyHtml = `<p>You have the following tasks without due dates:</p>`;
-            }
-
-            userTasks.forEach((task) => {
-              const dueDateMoment = moment(task.dueDate);
-              const today = moment().startOf('day');
-              const daysUntilDue = dueDateMoment.diff(today, 'days');
-              let dueInText = '';
-              if (daysUntilDue < 0) {
-                const overdueDays = Math.abs(daysUntilDue);
-                dueInText = `overdue by ${overdueDays} day${overdueDays === 1 ? '' : 's'}`;
-              } else if (daysUntilDue === 0) {
-                dueInText = 'today';
-              } else if (daysUntilDue === 1) {
-                dueInText = '1 day';
-              } else {
-                dueInText = `${daysUntilDue} days`;
-              }
-
-              // Clean the title while preserving newlines and list structure
-              const cleanTitle = this.cleanTitleForEmail(task.title);
-
-              // Create direct card link icons (with highlighting if blockId available)
-              const cardLinkIconText = this.createDirectCardLinkIcon(
-                task.boardName,
-                task.boardPath,
-                task.blockId,
-                false
-              );
-              const cardLinkIconHtml = this.createDirectCardLinkIcon(
-                task.boardName,
-                task.boardPath,
-                task.blockId,
-                true
-              );
-
-              // Create board links for context
-              const boardLinkText = this.createBoardLink(task.boardName, task.boardPath, false);
-              const boardLinkHtml = this.createBoardLink(task.boardName, task.boardPath, true);
-
-              let priorityDisplay = '';
-              if (task.priority) {
-                priorityDisplay = `[${task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}] `;
-              }
-
-              // Process the clean title for wikilinks
-              const titleWithObsidianLinksText = this.convertWikilinksToObsidianUrls(cleanTitle);
-              const titleWithObsidianLinksHtml = this.convertWikilinksToHtmlLinks(cleanTitle);
-
-              // Text version
-              emailBodyText += `- ${cardLinkIconText}${titleWithObsidianLinksText} @ ${boardLinkText}:${task.laneName} ${priorityDisplay}[${dueInText}]\n\n`;
-
-              // HTML version
-              emailBodyHtml += `<li>${cardLinkIconHtml}${titleWithObsidianLinksHtml} @ <strong>${boardLinkHtml}:${task.laneName}</strong> ${priorityDisplay}<em>[${dueInText}]</em></li>`;
-            });
-
-            // Add tasks without due dates at the bottom
-            const noDueDateTasks = tasksWithoutDueDateByEmail[emailAddress] || [];
-            if (noDueDateTasks.length > 0) {
-              emailBodyText += `\n\n--- Tasks Without Due Date (${noDueDateTasks.length}) ---\n\n`;
-              emailBodyHtml += `</ul><h3>Tasks Without Due Date (${noDueDateTasks.length})</h3><ul>`;
-
-              noDueDateTasks.forEach((task) => {
-                // Clean the title
-                const cleanTitle = this.cleanTitleForEmail(task.title);
-
-                // Create direct card link icons
-                const cardLinkIconText = this.createDirectCardLinkIcon(
-                  task.boardName,
-                  task.boardPath,
-                  task.blockId,
-                  false
-                );
-                const cardLinkIconHtml = this.createDirectCardLinkIcon(
-                  task.boardName,
-                  task.boardPath,
-                  task.blockId,
-                  true
-                );
-
-                // Create board links
-                const boardLinkText = this.createBoardLink(task.boardName, task.boardPath, false);
-                const boardLinkHtml = this.createBoardLink(task.boardName, task.boardPath, true);
-
-                let priorityDisplay = '';
-                if (task.priority) {
-                  priorityDisplay = `[${task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}] `;
-                }
-
-                // Process the clean title for wikilinks
-                const titleWithObsidianLinksText = this.convertWikilinksToObsidianUrls(cleanTitle);
-                const titleWithObsidianLinksHtml = this.convertWikilinksToHtmlLinks(cleanTitle);
-
-                // Text version
-                emailBodyText += `- ${cardLinkIconText}${titleWithObsidianLinksText} @ ${boardLinkText}:${task.laneName} ${priorityDisplay}[No due date]\n\n`;
-
-                // HTML version
-                emailBodyHtml += `<li>${cardLinkIconHtml}${titleWithObsidianLinksHtml} @ <strong>${boardLinkHtml}:${task.laneName}</strong> ${priorityDisplay}<em>[No due date]</em></li>`;
-              });
-            }
-
-            emailBodyText += 'Regards,\nYour Kanban Plugin';
-            emailBodyHtml += '</ul><p>Regards,<br>Your Kanban Plugin</p>';
-
-            const subject = 'Kanban Task Reminders - Due Soon';
-            attemptSmtpEmailSend(
-              sender,
-              appPass,
+          const noDueDateTasks = tasksWithoutDueDateByEmail[emailAddress] || [];
+          if (userTasks.length > 0 || noDueDateTasks.length > 0) {
+            const { subject, text, html } = await buildReminderEmail(
+              this,
               emailAddress,
-              subject,
-              emailBodyText,
-              emailBodyHtml
-            )
-              .then((success) => {
+              userTasks,
+              noDueDateTasks,
+              timeframeDays,
+              template
+            );
+            transport
+              .send({
+                from: sender,
+                to: emailAddress,
+                subject,
+                text,
+                html,
+              })
+              .then(({ success }) => {
                 if (success) {
                   debugLog(`[KanbanPlugin] Email reminder sent successfully to ${emailAddress}`);
-                  const noDueDateCount = (tasksWithoutDueDateByEmail[emailAddress] || []).length;
-                  const totalCount = userTasks.length + noDueDateCount;
+                  const totalCount = userTasks.length + noDueDateTasks.length;
                   new Notification('Kanban Plugin', {
                     body: `${totalCount} Kanban task reminders sent to ${emailAddress}.`,
                     silent: true,
@@ -2380,6 +2416,7 @@ export default class KanbanPlugin extends Plugin {
         // Display in a modal (basic example if not auto-sending)
         const reminderModal = new ReminderModal(
           this.app,
+          this,
           tasksByEmail,
           this.settings.dueDateReminderTimeframeDays ?? 1,
           tasksWithoutDueDateByEmail
@@ -2477,12 +2514,12 @@ export default class KanbanPlugin extends Plugin {
       const preEl = codeEl.parentElement;
       if (!preEl || preEl.tagName !== 'PRE') continue;
 
-      // Create the linked cards display
-      this.createLinkedCardsDisplay(preEl, context.sourcePath);
+      // Create the linked cards display, passing the block body along as its query
+      this.createLinkedCardsDisplay(preEl, context.sourcePath, codeEl.textContent || '');
     }
   }
 
-  createLinkedCardsDisplay(preEl: HTMLElement, sourcePath: string) {
+  createLinkedCardsDisplay(preEl: HTMLElement, sourcePath: string, query: string = '') {
     // Import the necessary components
     const { createElement } = require('preact');
     const { render } = require('preact/compat');
@@ -2499,6 +2536,7 @@ export default class KanbanPlugin extends Plugin {
           createElement(LinkedCardsDisplay, {
             plugin: this,
             currentFilePath: sourcePath,
+            query,
           }),
           linkedCardsContainer
         );
@@ -2535,15 +2573,22 @@ export default class KanbanPlugin extends Plugin {
 
     // Widget for rendering LinkedCardsDisplay
     class GlobalKanbanCodeBlockWidget extends WidgetType {
-      constructor(plugin: any, currentFilePath: any) {
+      query: string;
+
+      constructor(plugin: any, currentFilePath: any, query: string = '') {
         super();
         this.plugin = plugin;
         this.currentFilePath = currentFilePath;
+        this.query = query;
         this.container = null;
       }
 
       eq(widget: any) {
-        return this.plugin === widget.plugin && this.currentFilePath === widget.currentFilePath;
+        return (
+          this.plugin === widget.plugin &&
+          this.currentFilePath === widget.currentFilePath &&
+          this.query === widget.query
+        );
       }
 
       toDOM() {
@@ -2565,6 +2610,7 @@ export default class KanbanPlugin extends Plugin {
                 createElement(LinkedCardsDisplay, {
                   plugin: this.plugin,
                   currentFilePath: this.currentFilePath,
+                  query: this.query,
                 }),
                 this.container
               );
@@ -2850,6 +2896,13 @@ export default class KanbanPlugin extends Plugin {
           const blockStart = startLine.from;
           const blockEnd = endLine.to;
 
+          // The lines between the fences hold the block's query (empty for backlink blocks)
+          const blockQueryLines: string[] = [];
+          for (let queryLineNum = lineNum + 1; queryLineNum < endLineNum; queryLineNum++) {
+            blockQueryLines.push(doc.line(queryLineNum).text);
+          }
+          const blockQuery = blockQueryLines.join('\n');
+
           // Check if cursor is inside this kanban code block
           // Show rendered view if:
           // 1. Editor doesn't have focus (cursor is in title/metadata), OR
@@ -2880,15 +2933,20 @@ export default class KanbanPlugin extends Plugin {
             decorations.push(
               Decoration.widget({
                 widget: new (class extends require('@codemirror/view').WidgetType {
+                  query: string;
+
                   constructor() {
                     super();
                     this.plugin = pluginInstance; // Use the actual KanbanPlugin instance
                     this.currentFilePath = currentFilePath;
+                    this.query = blockQuery;
                     this.container = null;
                   }
 
                   eq(widget: any) {
-                    return this.currentFilePath === widget.currentFilePath;
+                    return (
+                      this.currentFilePath === widget.currentFilePath && this.query === widget.query
+                    );
                   }
 
                   toDOM() {
@@ -2917,6 +2975,7 @@ export default class KanbanPlugin extends Plugin {
                             createElement(LinkedCardsDisplay, {
                               plugin: this.plugin,
                               currentFilePath: this.currentFilePath,
+                              query: this.query,
                             }),
                             this.container
                           );
@@ -3482,86 +3541,3 @@ export default class KanbanPlugin extends Plugin {
     }
   }
 }
-
-// --- SMTP Email Sending Function ---
-async function attemptSmtpEmailSend(
-  senderAddress: string,
-  appPassword: string,
-  recipientEmail: string,
-  subject: string,
-  textBody: string,
-  htmlBody?: string
-): Promise<boolean> {
-  debugLog('[KanbanPlugin] Attempting to send email via SMTP...');
-  debugLog(`To: ${recipientEmail}`);
-  debugLog(`Subject: ${subject}`);
-
-  // STEP 1: (User Task) Install and set up Nodemailer or a similar SMTP library.
-  // For example, if using Nodemailer, you would uncomment the following lines
-  // after installing it (npm install nodemailer) and ensuring it's bundled with your plugin.
-
-  const nodemailer = require('nodemailer'); // <<< USER ACTION REQUIRED (ensure library is installed and bundled)
-
-  // STEP 2: (User Task) Configure the transporter using your SMTP library
-  try {
-    if (!nodemailer) {
-      // Check if the library was loaded
-      console.error(
-        '[KanbanPlugin] Nodemailer library is not available. Email not sent. Please install and configure it.'
-      );
-      throw new Error('Nodemailer library not available.');
-    }
-
-    const transporter = nodemailer.createTransport({
-      host: 'smtp.gmail.com',
-      port: 465, // Use 465 for SSL
-      secure: true, // true for 465, false for other ports like 587 (TLS)
-      auth: {
-        user: senderAddress, // Your Gmail address
-        pass: appPassword, // Your Gmail App Password
-      },
-      tls: {
-        // do not fail on invalid certs (useful for local testing, remove for production if not needed)
-        // rejectUnauthorized: false
-      },
-    });
-
-    // STEP 3: (User Task) Define email options and send
-    const mailOptions: any = {
-      from: senderAddress,
-      to: recipientEmail,
-      subject: subject,
-      text: textBody, // Plain text body
-    };
-
-    // Add HTML body if provided
-    if (htmlBody) {
-      mailOptions.html = htmlBody;
-    }
-
-    const info = await transporter.sendMail(mailOptions);
-    debugLog('[KanbanPlugin] Email sent successfully via SMTP. Message ID:', info.messageId); // Changed log message
-    return true; // Indicate success
-  } catch (error) {
-    console.error('[KanbanPlugin] Error sending email via SMTP:', error);
-    // Consider more specific error messages based on the type of error
-    // e.g., authentication failure, network issue, etc.
-    // Re-throwing the error will allow the calling function to catch it and notify the user.
-    throw error;
-  }
-
-  // Fallback for when Nodemailer is not implemented (This part should ideally not be reached if the above try block is active)
-  /* 
-  console.warn('[KanbanPlugin] ACTUAL EMAIL SENDING NOT IMPLEMENTED. ' +
-               'The SmtpEmailSend function needs to be completed with a real SMTP library like Nodemailer.');
-  debugLog('--- SIMULATED EMAIL (NOT SENT) ---');
-  debugLog(`From: ${senderAddress}`);
-  debugLog(`To: ${recipientEmail}`);
-  debugLog(`Subject: ${subject}`);
-  debugLog('Text Body:\n', textBody);
-  if (htmlBody) debugLog('HTML Body:\n', htmlBody);
-  debugLog('--- END SIMULATED EMAIL ---');
-  return false; // Indicate failure as no email was actually sent
-  */
-}
-// --- END SMTP Email Sending Function ---
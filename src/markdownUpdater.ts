@@ -15,8 +15,9 @@ export async function updateCardDatesInMarkdown(
   app: App,
   filePath: string,
   cardData: TimelineCardData, // Contains original title, blockId etc.
-  newStartDate: moment.Moment,
-  newDueDate: moment.Moment,
+  // Pass null to leave that date as it is, e.g. for cards that only have a due date
+  newStartDate: moment.Moment | null,
+  newDueDate: moment.Moment | null,
   settings: KanbanSettings
 ): Promise<void> {
   const file = app.vault.getAbstractFileByPath(filePath);
@@ -30,8 +31,8 @@ export async function updateCardDatesInMarkdown(
   const startDateTrigger = dateTrigger + 'start'; // e.g., "@start"
 
   // Formatted new dates
-  const newDueDateStr = newDueDate.format(dateFormat);
-  const newStartDateStr = newStartDate.format(dateFormat);
+  const newDueDateStr = newDueDate?.format(dateFormat);
+  const newStartDateStr = newStartDate?.format(dateFormat);
 
   // Regexes for finding and removing date triggers from strings for comparison
   const anyDateTriggerPattern = new RegExp(
@@ -136,7 +137,9 @@ export async function updateCardDatesInMarkdown(
       escapeRegExp(dateTrigger + '{') + '[^}]*' + escapeRegExp('}'),
       'g'
     );
-    if (updatedLine.match(dueDateRegex)) {
+    if (!newDueDate) {
+      // Leave the due date untouched
+    } else if (updatedLine.match(dueDateRegex)) {
       updatedLine = updatedLine.replace(dueDateRegex, `${dateTrigger}{${newDueDateStr}}`);
     } else {
       // Add new due date tag - append before block ID if present, otherwise at end of logical content
@@ -157,7 +160,9 @@ export async function updateCardDatesInMarkdown(
       escapeRegExp(startDateTrigger + '{') + '[^}]*' + escapeRegExp('}'),
       'g'
     );
-    if (updatedLine.match(startDateRegex)) {
+    if (!newStartDate) {
+      // Leave the start date untouched
+    } else if (updatedLine.match(startDateRegex)) {
       updatedLine = updatedLine.replace(startDateRegex, `${startDateTrigger}{${newStartDateStr}}`);
     } else {
       // Add new start date tag
@@ -0,0 +1,124 @@
+import { Keymap, SearchResult, SuggestModal, prepareFuzzySearch, renderMatches } from 'obsidian';
+
+import { IndexedCard } from '../CardIndex';
+import { c } from '../components/helpers';
+import { openCardInBoard } from '../helpers/openCard';
+import { t } from '../lang/helpers';
+import KanbanPlugin from '../main';
+
+interface CardSuggestion {
+  card: IndexedCard;
+  title: string;
+  match: SearchResult | null;
+}
+
+function getCardTitle(card: IndexedCard) {
+  return card.title.split('\n')[0].trim() || card.data.titleRaw.split('\n')[0].trim();
+}
+
+// Titles, tags, members, lane and board names are all searched, but only title matches
+// are highlighted
+function getSearchText(card: IndexedCard) {
+  return [
+    getCardTitle(card),
+    ...(card.tags || []),
+    ...(card.assignedMembers || []),
+    card.laneName,
+    card.boardName,
+  ].join(' ');
+}
+
+export class GoToCardModal extends SuggestModal<CardSuggestion> {
+  plugin: KanbanPlugin;
+  cards: IndexedCard[] = [];
+
+  constructor(plugin: KanbanPlugin) {
+    super(plugin.app);
+    this.plugin = plugin;
+    this.limit = 50;
+    this.emptyStateText = t('No cards found');
+    this.setPlaceholder(t('Search cards on all boards...'));
+    this.setInstructions([
+      { command: '↑↓', purpose: t('to navigate') },
+      { command: '↵', purpose: t('to open') },
+      { command: 'Ctrl/Cmd ↵', purpose: t('to open in new tab') },
+      { command: 'Ctrl/Cmd Alt ↵', purpose: t('to open to the right') },
+      { command: 'esc', purpose: t('to dismiss') },
+    ]);
+
+    // Enter alone is handled by the modal, the modified variants pick the pane type
+    const openWithModifier = (evt: KeyboardEvent) => {
+      this.selectActiveSuggestion(evt);
+      return false;
+    };
+    this.scope.register(['Mod'], 'Enter', openWithModifier);
+    this.scope.register(['Mod', 'Alt'], 'Enter', openWithModifier);
+    this.scope.register(['Mod', 'Alt', 'Shift'], 'Enter', openWithModifier);
+  }
+
+  async onOpen() {
+    super.onOpen();
+    const boards = await this.plugin.cardIndex.getBoards();
+    this.cards = boards.reduce((cards, board) => cards.concat(board.cards), [] as IndexedCard[]);
+    // Refresh the list now that the cards are loaded
+    this.inputEl.dispatchEvent(new Event('input'));
+  }
+
+  getSuggestions(query: string): CardSuggestion[] {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      return this.cards.map((card): CardSuggestion => ({
+        card,
+        title: getCardTitle(card),
+        match: null,
+      }));
+    }
+
+    const search = prepareFuzzySearch(trimmed);
+    const suggestions: { suggestion: CardSuggestion; score: number }[] = [];
+
+    this.cards.forEach((card) => {
+      const result = search(getSearchText(card));
+      if (!result) return;
+
+      const title = getCardTitle(card);
+      const titleMatch = search(title);
+      suggestions.push({
+        suggestion: { card, title, match: titleMatch },
+        // Prefer cards whose title matches on its own
+        score: titleMatch ? titleMatch.score + 1 : result.score,
+      });
+    });
+
+    return suggestions.sort((a, b) => b.score - a.score).map(({ suggestion }) => suggestion);
+  }
+
+  renderSuggestion({ card, title, match }: CardSuggestion, el: HTMLElement) {
+    el.addClass(c('go-to-card-suggestion'));
+    renderMatches(el.createDiv(), title, match?.matches || null);
+
+    const details = [
+      card.laneName ? `${card.boardName} › ${card.laneName}` : card.boardName,
+      ...(card.tags || []),
+      ...(card.assignedMembers || []).map(
+        (member) => `${this.plugin.settings.memberAssignmentPrefix || '@@'}${member}`
+      ),
+    ];
+    el.createEl('small', { cls: c('go-to-card-details'), text: details.join('  ') });
+  }
+
+  onChooseSuggestion({ card }: CardSuggestion, evt: MouseEvent | KeyboardEvent) {
+    const paneType = Keymap.isModEvent(evt);
+
+    openCardInBoard(
+      this.app,
+      {
+        boardPath: card.boardPath,
+        blockId: card.data.blockId,
+        title: card.title,
+        laneName: card.laneName,
+      },
+      paneType === true ? 'tab' : paneType || undefined
+    );
+  }
+}
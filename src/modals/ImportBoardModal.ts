@@ -0,0 +1,176 @@
+import { Modal, Notice, Setting } from 'obsidian';
+
+import {
+  CsvColumnMapping,
+  CsvField,
+  ImportSource,
+  ImportedBoard,
+  countImportedCards,
+  csvFields,
+  guessCsvMapping,
+  importedBoardToMd,
+  parseCsv,
+  parseCsvExport,
+  parseGithubExport,
+  parseTrelloExport,
+} from '../helpers/boardImport';
+import { debugLog } from '../helpers/debugLogger';
+import { t } from '../lang/helpers';
+import KanbanPlugin from '../main';
+
+const sourceLabels: Record<ImportSource, () => string> = {
+  trello: () => t('Trello board (JSON)'),
+  github: () => t('GitHub project or issues (JSON)'),
+  csv: () => t('CSV file'),
+};
+
+const csvFieldLabels: Record<CsvField, () => string> = {
+  title: () => t('Title'),
+  lane: () => t('List'),
+  tags: () => t('Tags'),
+  members: () => t('Members'),
+  due: () => t('Due date'),
+  done: () => t('Done'),
+  description: () => t('Description'),
+};
+
+export class ImportBoardModal extends Modal {
+  plugin: KanbanPlugin;
+  source: ImportSource = 'trello';
+  fileName = '';
+  text = '';
+  boardName = '';
+  csvRows: string[][] = [];
+  csvMapping: CsvColumnMapping | null = null;
+
+  constructor(plugin: KanbanPlugin) {
+    super(plugin.app);
+    this.plugin = plugin;
+  }
+
+  onOpen() {
+    this.titleEl.setText(t('Import board'));
+    this.render();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    new Setting(contentEl).setName(t('Import from')).addDropdown((dropdown) => {
+      (Object.keys(sourceLabels) as ImportSource[]).forEach((source) =>
+        dropdown.addOption(source, sourceLabels[source]())
+      );
+      dropdown.setValue(this.source).onChange((value) => {
+        this.source = value as ImportSource;
+        this.loadCsv();
+        this.render();
+      });
+    });
+
+    new Setting(contentEl)
+      .setName(t('Export file'))
+      .setDesc(this.fileName || t('No file chosen'))
+      .addButton((button) =>
+        button.setButtonText(t('Choose file')).onClick(() => {
+          const input = createEl('input', {
+            type: 'file',
+            attr: { accept: this.source === 'csv' ? '.csv,text/csv' : '.json,application/json' },
+          });
+          input.onchange = async () => {
+            const file = input.files?.[0];
+            if (!file) return;
+
+            this.fileName = file.name;
+            this.text = await file.text();
+            if (!this.boardName) this.boardName = file.name.replace(/\.[^.]+$/, '');
+            this.loadCsv();
+            this.render();
+          };
+          input.click();
+        })
+      );
+
+    new Setting(contentEl).setName(t('Board name')).addText((text) =>
+      text
+        .setPlaceholder(t('Untitled Kanban'))
+        .setValue(this.boardName)
+        .onChange((value) => {
+          this.boardName = value;
+        })
+    );
+
+    if (this.source === 'csv' && this.csvMapping) {
+      const headers = this.csvRows[0] || [];
+      contentEl.createEl('h4', { text: t('Column mapping') });
+
+      csvFields.forEach((field) => {
+        new Setting(contentEl).setName(csvFieldLabels[field]()).addDropdown((dropdown) => {
+          dropdown.addOption('-1', t('None'));
+          headers.forEach((header, i) => dropdown.addOption(String(i), header || `#${i + 1}`));
+          dropdown.setValue(String(this.csvMapping[field])).onChange((value) => {
+            this.csvMapping[field] = Number(value);
+          });
+        });
+      });
+    }
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText(t('Import'))
+          .setCta()
+          .setDisabled(!this.text)
+          .onClick(() => this.import())
+      )
+      .addButton((button) => button.setButtonText(t('Cancel')).onClick(() => this.close()));
+  }
+
+  private loadCsv() {
+    if (this.source !== 'csv' || !this.text) {
+      this.csvRows = [];
+      this.csvMapping = null;
+      return;
+    }
+
+    this.csvRows = parseCsv(this.text);
+    this.csvMapping = guessCsvMapping(this.csvRows[0] || []);
+  }
+
+  private parse(): ImportedBoard {
+    if (this.source === 'csv') {
+      return parseCsvExport(this.csvRows, this.csvMapping, this.boardName);
+    }
+
+    const json = JSON.parse(this.text);
+    return this.source === 'trello' ? parseTrelloExport(json) : parseGithubExport(json);
+  }
+
+  private async import() {
+    let board: ImportedBoard;
+    try {
+      board = this.parse();
+    } catch (e) {
+      console.error('[ImportBoardModal] Could not read the export:', e);
+      new Notice(`${t('Could not read the export')}: ${e.message}`);
+      return;
+    }
+
+    const name = (this.boardName || board.title).replace(/[\\/:*?"<>|#^[\]]/g, ' ').trim();
+    const markdown = importedBoardToMd(this.app, board, this.plugin.settings);
+
+    debugLog(
+      `[ImportBoardModal] Importing ${countImportedCards(board)} cards in ${board.lanes.length} lists from ${this.source}`
+    );
+
+    const file = await this.plugin.newKanban(undefined, name, markdown);
+    if (!file) return;
+
+    new Notice(`${t('Board imported')}: ${file.basename} (${countImportedCards(board)})`);
+    this.close();
+  }
+}
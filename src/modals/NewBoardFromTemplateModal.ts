@@ -0,0 +1,86 @@
+import { Modal, Setting, TFile } from 'obsidian';
+
+import {
+  createBoardFromTemplate,
+  getBoardTemplateFolder,
+  getBoardTemplates,
+} from '../helpers/boardTemplates';
+import { t } from '../lang/helpers';
+import KanbanPlugin from '../main';
+
+export class NewBoardFromTemplateModal extends Modal {
+  plugin: KanbanPlugin;
+  templates: TFile[];
+  template: TFile | null;
+  name = '';
+
+  constructor(plugin: KanbanPlugin) {
+    super(plugin.app);
+    this.plugin = plugin;
+    this.templates = getBoardTemplates(plugin);
+    this.template = this.templates[0] || null;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText(t('New board from template'));
+
+    if (!this.template) {
+      contentEl.createEl('p', {
+        text: `${t('No templates found in')} ${getBoardTemplateFolder(this.plugin)}. ${t(
+          'Use "Save board as template" on a board to add one.'
+        )}`,
+      });
+      return;
+    }
+
+    new Setting(contentEl).setName(t('Template')).addDropdown((dropdown) => {
+      this.templates.forEach((template) => dropdown.addOption(template.path, template.basename));
+      dropdown.setValue(this.template.path).onChange((value) => {
+        this.template = this.templates.find((template) => template.path === value) || null;
+      });
+    });
+
+    new Setting(contentEl)
+      .setName(t('Board name'))
+      .setDesc(t('Replaces {{title}} in the template. {{date}} and {{time}} are also replaced.'))
+      .addText((text) => {
+        text
+          .setPlaceholder(t('Untitled Kanban'))
+          .setValue(this.name)
+          .onChange((value) => {
+            this.name = value;
+          });
+        text.inputEl.addEventListener('keydown', (e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            this.create();
+          }
+        });
+      });
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText(t('Create'))
+          .setCta()
+          .onClick(() => this.create())
+      )
+      .addButton((button) => button.setButtonText(t('Cancel')).onClick(() => this.close()));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private async create() {
+    if (!this.template) return;
+
+    const file = await createBoardFromTemplate(
+      this.plugin,
+      this.template,
+      this.name || t('Untitled Kanban')
+    );
+    if (file) this.close();
+  }
+}
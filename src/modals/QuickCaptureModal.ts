@@ -0,0 +1,239 @@
+import {
+  AbstractInputSuggest,
+  App,
+  Modal,
+  Notice,
+  Setting,
+  debounce,
+  prepareFuzzySearch,
+  renderMatches,
+} from 'obsidian';
+
+import { IndexedBoard } from '../CardIndex';
+import { StateManager } from '../StateManager';
+import { c } from '../components/helpers';
+import { Item } from '../components/types';
+import { debugLog } from '../helpers/debugLogger';
+import { t } from '../lang/helpers';
+import KanbanPlugin from '../main';
+
+const SESSION_KEY = 'quickCapture';
+
+interface QuickCaptureSession {
+  boardPath?: string;
+  lane?: string;
+}
+
+function getBoardName({ file }: IndexedBoard) {
+  return file.path.replace(/\.md$/, '');
+}
+
+// Fuzzy type-ahead over a fixed list of choices
+class ChoiceSuggest<T> extends AbstractInputSuggest<T> {
+  constructor(
+    app: App,
+    inputEl: HTMLInputElement,
+    private getChoices: () => T[],
+    private getText: (choice: T) => string,
+    private onChoose: (choice: T) => void
+  ) {
+    super(app, inputEl);
+  }
+
+  protected getSuggestions(query: string) {
+    const search = prepareFuzzySearch(query.trim());
+    return this.getChoices().filter((choice) => !query.trim() || search(this.getText(choice)));
+  }
+
+  renderSuggestion(choice: T, el: HTMLElement) {
+    const text = this.getText(choice);
+    const match = prepareFuzzySearch(this.getValue().trim())(text);
+    renderMatches(el, text, match?.matches || null);
+  }
+
+  selectSuggestion(choice: T) {
+    this.setValue(this.getText(choice));
+    this.onChoose(choice);
+    this.close();
+  }
+}
+
+export class QuickCaptureModal extends Modal {
+  plugin: KanbanPlugin;
+  boards: IndexedBoard[] = [];
+  board: IndexedBoard | null = null;
+  lane = '';
+  text = '';
+
+  private boardInput: HTMLInputElement;
+  private laneInput: HTMLInputElement;
+  private previewEl: HTMLElement;
+
+  constructor(plugin: KanbanPlugin) {
+    super(plugin.app);
+    this.plugin = plugin;
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText(t('Quick capture'));
+
+    this.boards = await this.plugin.cardIndex.getBoards();
+    const session: QuickCaptureSession =
+      this.plugin.sessionManager.getSessionValue(SESSION_KEY) || {};
+    this.board =
+      this.boards.find(({ file }) => file.path === session.boardPath) || this.boards[0] || null;
+    this.lane = this.getLanes().includes(session.lane) ? session.lane : this.getLanes()[0] || '';
+
+    new Setting(contentEl).setName(t('Board')).addSearch((search) => {
+      this.boardInput = search.inputEl;
+      if (!this.boards.length) search.setPlaceholder(t('No boards found'));
+      search.setValue(this.board ? getBoardName(this.board) : '');
+      new ChoiceSuggest(
+        this.app,
+        search.inputEl,
+        () => this.boards,
+        getBoardName,
+        (board) => this.setBoard(board)
+      );
+    });
+
+    new Setting(contentEl).setName(t('List')).addSearch((search) => {
+      this.laneInput = search.inputEl;
+      search.setValue(this.lane);
+      new ChoiceSuggest(
+        this.app,
+        search.inputEl,
+        () => this.getLanes(),
+        (lane) => lane,
+        (lane) => {
+          this.lane = lane;
+          this.updatePreview();
+        }
+      );
+    });
+
+    const textArea = contentEl.createEl('textarea', {
+      cls: c('quick-capture-input'),
+      attr: {
+        rows: '3',
+        placeholder: t('Card text with #tags, @@members, !priority and dates'),
+      },
+    });
+    textArea.addEventListener('input', () => {
+      this.text = textArea.value;
+      this.requestPreview();
+    });
+    textArea.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && !e.shiftKey && !e.isComposing) {
+        e.preventDefault();
+        this.submit();
+      }
+    });
+
+    this.previewEl = contentEl.createDiv(c('quick-capture-preview'));
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText(t('Add card'))
+          .setCta()
+          .onClick(() => this.submit())
+      )
+      .addButton((button) => button.setButtonText(t('Cancel')).onClick(() => this.close()));
+
+    textArea.focus();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private getLanes() {
+    return this.board ? this.board.board.children.map((lane) => lane.data.title) : [];
+  }
+
+  private setBoard(board: IndexedBoard) {
+    this.board = board;
+    const lanes = this.getLanes();
+    if (!lanes.includes(this.lane)) {
+      this.lane = lanes[0] || '';
+      this.laneInput.value = this.lane;
+    }
+    this.updatePreview();
+  }
+
+  // Parses the text the way the board will, so lane and board tags added by the board's
+  // settings show up too
+  private parseItem(): Item | null {
+    if (!this.board || !this.text.trim()) return null;
+
+    const stateManager = new StateManager(
+      this.app,
+      { file: this.board.file } as any,
+      () => {},
+      () => this.plugin.settings
+    );
+    stateManager.state = this.board.board;
+    stateManager.compileSettings();
+
+    return stateManager.getNewItem(this.text, ' ', false, this.lane);
+  }
+
+  private requestPreview = debounce(() => this.updatePreview(), 150, true);
+
+  private updatePreview() {
+    this.previewEl.empty();
+
+    let item: Item | null = null;
+    try {
+      item = this.parseItem();
+    } catch (e) {
+      debugLog('[QuickCaptureModal] Could not parse the card text', e);
+    }
+    if (!item) return;
+
+    const { metadata, assignedMembers } = item.data;
+    const chips = [
+      ...(metadata.tags || []),
+      ...(assignedMembers || []).map(
+        (member) => `${this.plugin.settings.memberAssignmentPrefix || '@@'}${member}`
+      ),
+      metadata.priority ? `!${metadata.priority}` : '',
+      metadata.startDateStr ? `${t('Start')}: ${metadata.startDateStr}` : '',
+      metadata.dateStr ? `${t('Due')}: ${metadata.dateStr}` : '',
+      metadata.timeStr || '',
+    ].filter(Boolean);
+
+    chips.forEach((chip) =>
+      this.previewEl.createSpan({ cls: c('quick-capture-chip'), text: chip })
+    );
+  }
+
+  private async submit() {
+    const lane = this.laneInput.value.trim() || this.lane;
+    const boardName = this.boardInput.value.trim();
+    const board =
+      this.boards.find(
+        (candidate) =>
+          getBoardName(candidate) === boardName || candidate.file.basename === boardName
+      ) || this.board;
+
+    if (!board || !this.text.trim()) return;
+
+    try {
+      await this.plugin.api.addCard(board.file.path, lane, this.text);
+    } catch (e) {
+      console.error('[QuickCaptureModal] Error adding card:', e);
+      new Notice(e.message);
+      return;
+    }
+
+    await this.plugin.sessionManager.setSessionValue(SESSION_KEY, {
+      boardPath: board.file.path,
+      lane,
+    } as QuickCaptureSession);
+    new Notice(`${t('Card added to')} ${board.file.basename}`);
+    this.close();
+  }
+}
@@ -0,0 +1,72 @@
+import { Modal, Setting } from 'obsidian';
+
+import { StateManager } from '../StateManager';
+import { getBoardTemplateFolder, saveBoardAsTemplate } from '../helpers/boardTemplates';
+import { t } from '../lang/helpers';
+import KanbanPlugin from '../main';
+
+export class SaveBoardTemplateModal extends Modal {
+  plugin: KanbanPlugin;
+  stateManager: StateManager;
+  name: string;
+  includeCards = false;
+
+  constructor(plugin: KanbanPlugin, stateManager: StateManager) {
+    super(plugin.app);
+    this.plugin = plugin;
+    this.stateManager = stateManager;
+    this.name = stateManager.file.basename;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText(t('Save board as template'));
+
+    new Setting(contentEl)
+      .setName(t('Template name'))
+      .setDesc(`${t('Templates are saved in')} ${getBoardTemplateFolder(this.plugin)}`)
+      .addText((text) => {
+        text.setValue(this.name).onChange((value) => {
+          this.name = value;
+        });
+        text.inputEl.addEventListener('keydown', (e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            this.save();
+          }
+        });
+      });
+
+    new Setting(contentEl)
+      .setName(t('Include cards'))
+      .setDesc(t('Keep the current cards as seed cards for new boards.'))
+      .addToggle((toggle) =>
+        toggle.setValue(this.includeCards).onChange((value) => {
+          this.includeCards = value;
+        })
+      );
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText(t('Save'))
+          .setCta()
+          .onClick(() => this.save())
+      )
+      .addButton((button) => button.setButtonText(t('Cancel')).onClick(() => this.close()));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private async save() {
+    const path = await saveBoardAsTemplate(
+      this.plugin,
+      this.stateManager,
+      this.name,
+      this.includeCards
+    );
+    if (path) this.close();
+  }
+}
@@ -17,6 +17,10 @@ import {
   LaneTemplate,
 } from 'src/components/types';
 import { laneTitleWithMaxItems } from 'src/helpers';
+import { getActivityLogRanges, parseActivityLog } from 'src/helpers/activityLog';
+import { parseBlockedBy } from 'src/helpers/dependencies';
+import { getSubtaskProgress } from 'src/helpers/subtasks';
+import { getTimeLogRanges, parseTimeLog } from 'src/helpers/timeTracking';
 import { defaultSort } from 'src/helpers/util';
 import { t } from 'src/lang/helpers';
 import { visit } from 'unist-util-visit';
@@ -130,6 +134,20 @@ export function listItemToItemData(stateManager: StateManager, md: string, item:
     },
   };
 
+  itemData.metadata.subtasks = getSubtaskProgress(itemData.titleRaw);
+  itemData.metadata.blockedBy = parseBlockedBy(itemData.titleRaw);
+
+  // Time tracking entries are shown as a total in the card footer rather than in the title
+  itemData.metadata.timeLog = parseTimeLog(title);
+  for (const range of getTimeLogRanges(title)) {
+    title = markRangeForDeletion(title, range);
+  }
+
+  itemData.metadata.activity = parseActivityLog(title);
+  for (const range of getActivityLogRanges(title)) {
+    title = markRangeForDeletion(title, range);
+  }
+
   // Regex for !priority tags
   const priorityRegEx = /(?:^|\s)(!low|!medium|!high)(?=\s|$)/gi;
   let priorityMatch;
@@ -482,6 +500,7 @@ export function astToUnhydratedBoard(
       let shouldMarkItemsComplete = false;
       let parsedLaneId: string | null = null;
       let parsedLaneBackgroundColor: string | null = null;
+      let shouldCompleteOnSubtasks = false;
 
       let idNodeIndex = -1;
 
@@ -511,9 +530,13 @@ export function astToUnhydratedBoard(
               // Background color parsed
             }
           }
+
+          if (/<!--\s*kanban-lane-complete-on-subtasks\s*-->/.test(currentNode.value as string)) {
+            shouldCompleteOnSubtasks = true;
+          }
         }
 
-        if ((parsedLaneId && parsedLaneBackgroundColor) || i >= index + 2) {
+        if (i >= index + 3) {
           break;
         }
 
@@ -563,6 +586,7 @@ export function astToUnhydratedBoard(
           data: {
             ...parseLaneTitle(title),
             shouldMarkItemsComplete,
+            shouldCompleteOnSubtasks,
             backgroundColor: parsedLaneBackgroundColor,
           },
         });
@@ -581,6 +605,7 @@ export function astToUnhydratedBoard(
           data: {
             ...parseLaneTitle(title),
             shouldMarkItemsComplete,
+            shouldCompleteOnSubtasks,
             backgroundColor: parsedLaneBackgroundColor,
           },
         });
@@ -721,6 +746,9 @@ function laneToMd(lane: Lane) {
   if (lane.data?.backgroundColor) {
     lines.push(`<!-- kanban-lane-background-color: ${lane.data.backgroundColor} -->`);
   }
+  if (lane.data.shouldCompleteOnSubtasks) {
+    lines.push('<!-- kanban-lane-complete-on-subtasks -->');
+  }
   lines.push('');
 
   if (lane.data.shouldMarkItemsComplete) {